@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUser } from '@/lib/auth';
+import { setActiveVersion } from '@/lib/versions';
+import {
+    getUserMindmapInfo,
+    getStoredNode,
+    updateStoredNode,
+    toGraphNode,
+    isMindmapConflictError,
+} from '@/lib/mindmapRepository';
+
+/**
+ * Pick which stored answer version is active for a node.
+ * The active version drives the node's `response`.
+ *
+ * Body: { nodeId, versionId, mindmapId? }
+ */
+export async function POST(request: NextRequest) {
+    try {
+        const user = await getCurrentUser();
+
+        if (!user) {
+            return NextResponse.json(
+                { error: 'Not authenticated' },
+                { status: 401 }
+            );
+        }
+
+        const { nodeId, versionId, mindmapId } = await request.json();
+
+        if (!nodeId || !versionId) {
+            return NextResponse.json(
+                { error: 'nodeId and versionId are required' },
+                { status: 400 }
+            );
+        }
+
+        const mindmap = await getUserMindmapInfo(user.userId, mindmapId);
+        const node = mindmap && (await getStoredNode(mindmap, nodeId));
+
+        if (!mindmap || !node) {
+            return NextResponse.json(
+                { error: 'Node not found' },
+                { status: 404 }
+            );
+        }
+
+        if (!setActiveVersion(node, versionId)) {
+            return NextResponse.json(
+                { error: 'Version not found' },
+                { status: 404 }
+            );
+        }
+
+        const updated = await updateStoredNode(mindmap, nodeId, (current) =>
+            setActiveVersion(current, versionId)
+        );
+
+        if (!updated) {
+            return NextResponse.json(
+                { error: 'Node not found' },
+                { status: 404 }
+            );
+        }
+
+        return NextResponse.json(
+            { node: toGraphNode(updated) },
+            { status: 200 }
+        );
+    } catch (error) {
+        // Other updates kept changing the node
+        if (isMindmapConflictError(error)) {
+            return NextResponse.json(
+                { error: 'The node is being changed elsewhere. Try again.', code: 'conflict' },
+                { status: 409 }
+            );
+        }
+
+        console.error('Activate version error:', error);
+        return NextResponse.json(
+            { error: 'Failed to activate version' },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,122 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUser } from '@/lib/auth';
+import { checkGenerationLimit, tooManyRequests } from '@/lib/rateLimit';
+import { resolveModel, generationFailed } from '@/lib/llm';
+import { answerMapQuestion } from '@/lib/mapQuestion';
+import { buildSystemPrompt } from '@/lib/promptSettings';
+import { toNodeUsage } from '@/lib/pricing';
+import { usageRecorder } from '@/lib/usageRepository';
+import { moderate, isBlocked, moderationBlocked, toModerationMetadata } from '@/lib/moderation';
+import { MAP_ANSWER_KIND } from '@/lib/references';
+import {
+    getUserMindmapInfo,
+    getMindmapNodes,
+    createStoredNode,
+    appendNode,
+    toAppendError,
+} from '@/lib/mindmapRepository';
+
+/**
+ * Ask a question against the whole map. The most relevant nodes are
+ * sent as context; the answer is added as a new root node that lists
+ * them in metadata.sourceNodeIds. The question and the answer are
+ * moderated (lib/moderation).
+ *
+ * Body: { query, model?, mindmapId? }
+ */
+export async function POST(request: NextRequest) {
+    try {
+        const user = await getCurrentUser();
+
+        if (!user) {
+            return NextResponse.json(
+                { error: 'Not authenticated' },
+                { status: 401 }
+            );
+        }
+
+        const { query, model, mindmapId } = await request.json();
+
+        if (!query) {
+            return NextResponse.json(
+                { error: 'Query is required' },
+                { status: 400 }
+            );
+        }
+
+        const choice = resolveModel(model);
+
+        if (!choice) {
+            return NextResponse.json(
+                { error: `Unknown model "${model}"` },
+                { status: 400 }
+            );
+        }
+
+        const mindmap = await getUserMindmapInfo(user.userId, mindmapId);
+
+        if (!mindmap) {
+            return NextResponse.json(
+                { error: 'Mindmap not found' },
+                { status: 404 }
+            );
+        }
+
+        const limit = await checkGenerationLimit(user.userId);
+
+        if (!limit.allowed) {
+            return tooManyRequests(limit);
+        }
+
+        const onUsage = usageRecorder(user.userId, mindmap.id);
+        const input = await moderate(query, 'input', { onUsage, signal: request.signal });
+
+        if (isBlocked(input.verdict)) {
+            return moderationBlocked('input');
+        }
+
+        const answer = await answerMapQuestion(choice, await getMindmapNodes(mindmap), input.text, {
+            systemPrompt: buildSystemPrompt(mindmap.settings),
+            onUsage,
+            signal: request.signal,
+        });
+        const output = await moderate(answer.response, 'output', { onUsage, signal: request.signal });
+
+        if (isBlocked(output.verdict)) {
+            return moderationBlocked('output');
+        }
+
+        const { node: newNode, edge: newEdge } = createStoredNode({
+            parentId: null,
+            content: input.text,
+            response: output.text,
+            metadata: {
+                kind: MAP_ANSWER_KIND,
+                provider: choice.provider,
+                model: choice.model,
+                usage: toNodeUsage(answer.usage),
+                sourceNodeIds: answer.sourceNodeIds,
+                ...toModerationMetadata(input.verdict, output.verdict),
+            },
+        });
+
+        await appendNode(mindmap, newNode, newEdge);
+
+        return NextResponse.json(
+            {
+                node: newNode,
+                edge: newEdge,
+            },
+            { status: 200 }
+        );
+    } catch (error) {
+        // The parent was deleted, or the id taken, while the answer was generated
+        const failed = toAppendError(error);
+        if (failed) {
+            return NextResponse.json(failed.body, { status: failed.status });
+        }
+
+        console.error('Ask mindmap error:', error);
+        return generationFailed(error, 'Failed to answer question');
+    }
+}
@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUser } from '@/lib/auth';
+import { getAttachmentFile } from '@/lib/attachmentRepository';
+
+/**
+ * Download an attachment's original file.
+ *
+ * GET /api/mindmap/attachments/<id>
+ */
+export async function GET(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const user = await getCurrentUser();
+
+        if (!user) {
+            return NextResponse.json(
+                { error: 'Not authenticated' },
+                { status: 401 }
+            );
+        }
+
+        const { id } = await params;
+        const result = await getAttachmentFile(user.userId, id);
+
+        if (!result) {
+            return NextResponse.json(
+                { error: 'Attachment not found' },
+                { status: 404 }
+            );
+        }
+
+        const { attachment, file } = result;
+
+        return new Response(new Uint8Array(file.data), {
+            headers: {
+                'Content-Type': file.contentType,
+                'Content-Length': String(file.data.length),
+                'Content-Disposition': `attachment; filename*=UTF-8''${encodeURIComponent(attachment.name)}`,
+                'X-Content-Type-Options': 'nosniff',
+            },
+        });
+    } catch (error) {
+        console.error('Download attachment error:', error);
+        return NextResponse.json(
+            { error: 'Failed to download attachment' },
+            { status: 500 }
+        );
+    }
+}
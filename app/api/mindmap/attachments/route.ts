@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUser } from '@/lib/auth';
+import { getAttachmentKind, validateAttachment } from '@/lib/attachments';
+import { saveAttachment, toAttachmentMeta } from '@/lib/attachmentRepository';
+
+/**
+ * Upload a file to attach to a query.
+ *
+ * POST multipart/form-data with a single `file` field
+ *   → { attachment: { id, name, mimeType, size, kind } }
+ *
+ * The returned id goes into `attachmentIds` of /api/mindmap/stream or
+ * /api/mindmap/update.
+ */
+export async function POST(request: NextRequest) {
+    try {
+        const user = await getCurrentUser();
+
+        if (!user) {
+            return NextResponse.json(
+                { error: 'Not authenticated' },
+                { status: 401 }
+            );
+        }
+
+        const formData = await request.formData();
+        const file = formData.get('file');
+
+        if (!(file instanceof File)) {
+            return NextResponse.json(
+                { error: 'file is required' },
+                { status: 400 }
+            );
+        }
+
+        const invalid = validateAttachment(file);
+
+        if (invalid) {
+            return NextResponse.json(
+                { error: invalid },
+                { status: file.size > 0 && getAttachmentKind(file.name) ? 413 : 400 }
+            );
+        }
+
+        const attachment = await saveAttachment(user.userId, {
+            name: file.name,
+            mimeType: file.type,
+            kind: getAttachmentKind(file.name)!,
+            data: Buffer.from(await file.arrayBuffer()),
+        });
+
+        if (!attachment) {
+            return NextResponse.json(
+                { error: `"${file.name}" does not match its file type` },
+                { status: 400 }
+            );
+        }
+
+        return NextResponse.json(
+            { attachment: toAttachmentMeta(attachment) },
+            { status: 200 }
+        );
+    } catch (error) {
+        console.error('Upload attachment error:', error);
+        return NextResponse.json(
+            { error: 'Failed to upload attachment' },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,225 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUser } from '@/lib/auth';
+import { checkGenerationLimit, tooManyRequests } from '@/lib/rateLimit';
+import { generateResponse, resolveModel, generationFailed, ModelChoice } from '@/lib/llm';
+import { buildConversationHistory } from '@/lib/history';
+import { buildSystemPrompt } from '@/lib/promptSettings';
+import { toNodeUsage } from '@/lib/pricing';
+import { usageRecorder } from '@/lib/usageRepository';
+import {
+    moderate,
+    moderateAttachments,
+    isBlocked,
+    moderationBlocked,
+    toModerationMetadata,
+} from '@/lib/moderation';
+import { generateVersionId, NodeVersion } from '@/lib/versions';
+import { COMPARISON_SIZE, createComparison } from '@/lib/comparison';
+import { parseGenerationParams, toGenerationMetadata } from '@/lib/generationParams';
+import { buildPromptWithAttachments } from '@/lib/attachments';
+import { resolveQueryAttachments, toAttachmentMeta } from '@/lib/attachmentRepository';
+import {
+    getUserMindmapInfo,
+    getStoredLineage,
+    createStoredNode,
+    appendNode,
+    toAppendError,
+} from '@/lib/mindmapRepository';
+
+/**
+ * Models compared when the request doesn't name them:
+ * COMPARE_MODELS="gemini,openai:gpt-4o-mini"
+ */
+function getDefaultComparisonModels(): string[] {
+    return (process.env.COMPARE_MODELS || '')
+        .split(',')
+        .map((spec) => spec.trim())
+        .filter(Boolean);
+}
+
+/**
+ * Ask one question to two models at once. The answers land side by side
+ * in a single comparison node (see lib/comparison.ts); the first one is
+ * active until the user promotes one.
+ *
+ * Body: { query, parentId?, models?: ["provider[:model]", "provider[:model]"],
+ *         temperature?, maxOutputTokens?, attachmentIds?, bypassCache?, mindmapId? }
+ * models defaults to COMPARE_MODELS. Temperature and max tokens apply
+ * to both models; they are not inherited from the parent. bypassCache
+ * skips the response cache for both. An unknown parentId is a 404, also
+ * when the parent is deleted while the models answer. A
+ * comparison counts as one request per model against the rate limit.
+ *
+ * The question, its attached files and both answers are moderated
+ * (lib/moderation); if
+ * either answer is blocked, nothing is stored.
+ */
+export async function POST(request: NextRequest) {
+    try {
+        const user = await getCurrentUser();
+
+        if (!user) {
+            return NextResponse.json(
+                { error: 'Not authenticated' },
+                { status: 401 }
+            );
+        }
+
+        const body = await request.json();
+        const { query, parentId, models, attachmentIds, bypassCache, mindmapId } = body;
+
+        if (!query) {
+            return NextResponse.json(
+                { error: 'Query is required' },
+                { status: 400 }
+            );
+        }
+
+        const specs: unknown = models ?? getDefaultComparisonModels();
+
+        if (
+            !Array.isArray(specs) ||
+            specs.length !== COMPARISON_SIZE ||
+            !specs.every((spec) => typeof spec === 'string')
+        ) {
+            return NextResponse.json(
+                { error: `Comparisons need exactly ${COMPARISON_SIZE} models (set COMPARE_MODELS or send models)` },
+                { status: 400 }
+            );
+        }
+
+        // The models compared replace any single `model`
+        const params = parseGenerationParams({ ...body, model: undefined });
+
+        if (!params) {
+            return NextResponse.json(
+                { error: 'Invalid generation settings' },
+                { status: 400 }
+            );
+        }
+
+        const choices = specs.map((spec) => resolveModel(spec));
+        const unknown = specs.find((_, i) => !choices[i]);
+
+        if (unknown !== undefined) {
+            return NextResponse.json(
+                { error: `Unknown model "${unknown}"` },
+                { status: 400 }
+            );
+        }
+
+        const attachments = await resolveQueryAttachments(user.userId, attachmentIds);
+
+        if (!attachments) {
+            return NextResponse.json(
+                { error: 'Invalid attachmentIds' },
+                { status: 400 }
+            );
+        }
+
+        const mindmap = await getUserMindmapInfo(user.userId, mindmapId);
+
+        if (!mindmap) {
+            return NextResponse.json(
+                { error: 'Mindmap not found' },
+                { status: 404 }
+            );
+        }
+
+        // The parent last; empty for a new root or an unknown parent
+        const lineage = parentId ? await getStoredLineage(mindmap, parentId) : [];
+
+        if (parentId && lineage.length === 0) {
+            return NextResponse.json(
+                { error: 'Parent node not found' },
+                { status: 404 }
+            );
+        }
+
+        // One request per model compared
+        const limit = await checkGenerationLimit(user.userId, COMPARISON_SIZE);
+
+        if (!limit.allowed) {
+            return tooManyRequests(limit);
+        }
+
+        const onUsage = usageRecorder(user.userId, mindmap.id);
+        const input = await moderate(query, 'input', { onUsage, signal: request.signal });
+
+        const files = await moderateAttachments(attachments, { onUsage, signal: request.signal });
+
+        if (isBlocked(input.verdict) || isBlocked(files.verdict)) {
+            return moderationBlocked('input');
+        }
+
+        // Both models get the same history, prompt and instructions
+        const history = buildConversationHistory(lineage, parentId || null);
+        const prompt = buildPromptWithAttachments(input.text, files.attachments);
+        const systemPrompt = buildSystemPrompt(mindmap.settings);
+
+        const answers: Array<NodeVersion | null> = await Promise.all(
+            (choices as ModelChoice[]).map(async (choice) => {
+                const result = await generateResponse(choice, prompt, history, {
+                    systemPrompt,
+                    temperature: params.temperature,
+                    maxOutputTokens: params.maxOutputTokens,
+                    onUsage,
+                    signal: request.signal,
+                    bypassCache: bypassCache === true,
+                });
+                const output = await moderate(result.text, 'output', {
+                    onUsage,
+                    signal: request.signal,
+                });
+                if (isBlocked(output.verdict)) return null;
+
+                return {
+                    id: generateVersionId(),
+                    response: output.text,
+                    provider: choice.provider,
+                    model: choice.model,
+                    usage: toNodeUsage(result.usage),
+                    ...toModerationMetadata(output.verdict),
+                    createdAt: new Date().toISOString(),
+                };
+            })
+        );
+
+        if (answers.some((answer) => !answer)) {
+            return moderationBlocked('output');
+        }
+
+        const comparison = createComparison(answers as NodeVersion[]);
+        const { node: newNode, edge: newEdge } = createStoredNode({
+            parentId: parentId || null,
+            content: input.text,
+            response: comparison.response,
+            metadata: {
+                ...comparison.metadata,
+                // The first answer is active until one is promoted
+                ...toModerationMetadata(input.verdict, files.verdict, answers[0]?.moderation),
+                ...toGenerationMetadata(params),
+                ...(attachments.length > 0 ? { attachments: attachments.map(toAttachmentMeta) } : {}),
+            },
+        });
+
+        await appendNode(mindmap, newNode, newEdge);
+
+        return NextResponse.json(
+            {
+                node: newNode,
+                edge: newEdge,
+            },
+            { status: 200 }
+        );
+    } catch (error) {
+        // The parent was deleted, or the id taken, while the answer was generated
+        const failed = toAppendError(error);
+        if (failed) {
+            return NextResponse.json(failed.body, { status: failed.status });
+        }
+
+        console.error('Compare models error:', error);
+        return generationFailed(error, 'Failed to compare models');
+    }
+}
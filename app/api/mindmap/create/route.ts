@@ -1,8 +1,13 @@
-import { NextRequest, NextResponse } from 'next/server';
-import { getDb } from '@/lib/db';
+import { NextResponse } from 'next/server';
 import { getCurrentUser } from '@/lib/auth';
+import { DEFAULT_MINDMAP_NAME } from '@/lib/persistence';
+import { createMindmap } from '@/lib/mindmapRepository';
 
-export async function POST(request: NextRequest) {
+/**
+ * Create an empty map (legacy; POST /api/mindmaps also takes a name
+ * and a graph).
+ */
+export async function POST() {
     try {
         const user = await getCurrentUser();
 
@@ -13,19 +18,10 @@ export async function POST(request: NextRequest) {
             );
         }
 
-        const db = await getDb();
-        const mindmaps = db.collection('mindmaps');
-
-        const result = await mindmaps.insertOne({
-            userId: user.userId,
-            nodes: [],
-            edges: [],
-            createdAt: new Date(),
-            updatedAt: new Date(),
-        });
+        const mindmap = await createMindmap(user.userId, DEFAULT_MINDMAP_NAME);
 
         return NextResponse.json(
-            { message: 'Mindmap created', mindmapId: result.insertedId },
+            { message: 'Mindmap created', mindmapId: mindmap.id },
             { status: 201 }
         );
     } catch (error) {
@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUser } from '@/lib/auth';
+import {
+    getUserMindmapInfo,
+    deleteSubtree,
+    isMindmapConflictError,
+} from '@/lib/mindmapRepository';
+
+/**
+ * Delete a node and its whole subtree (cascade, like removeNode() in
+ * lib/graph.ts). Related links, map answers' sources and explore jobs
+ * pointing into the subtree are cleaned up too.
+ *
+ * Body: { nodeId, mindmapId? } → { nodeIds, edgeIds }   everything removed
+ */
+export async function POST(request: NextRequest) {
+    try {
+        const user = await getCurrentUser();
+
+        if (!user) {
+            return NextResponse.json(
+                { error: 'Not authenticated' },
+                { status: 401 }
+            );
+        }
+
+        const { nodeId, mindmapId } = await request.json();
+
+        if (!nodeId) {
+            return NextResponse.json(
+                { error: 'nodeId is required' },
+                { status: 400 }
+            );
+        }
+
+        const mindmap = await getUserMindmapInfo(user.userId, mindmapId);
+        const removed = mindmap && (await deleteSubtree(mindmap, nodeId));
+
+        if (!removed) {
+            return NextResponse.json(
+                { error: 'Node not found' },
+                { status: 404 }
+            );
+        }
+
+        return NextResponse.json(removed, { status: 200 });
+    } catch (error) {
+        // Other writes kept changing the map; the tree is unchanged
+        if (isMindmapConflictError(error)) {
+            return NextResponse.json(
+                { error: 'The map is being changed elsewhere. Try again.', code: 'conflict' },
+                { status: 409 }
+            );
+        }
+
+        console.error('Delete node error:', error);
+        return NextResponse.json(
+            { error: 'Failed to delete node' },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,102 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUser } from '@/lib/auth';
+import { usageRecorder } from '@/lib/usageRepository';
+import {
+    moderate,
+    isBlocked,
+    moderationBlocked,
+    getNodeModeration,
+    withQuestionModeration,
+} from '@/lib/moderation';
+import {
+    getUserMindmapInfo,
+    getStoredNode,
+    updateStoredNode,
+    toGraphNode,
+    isMindmapConflictError,
+} from '@/lib/mindmapRepository';
+
+/**
+ * Edit a node's question text. The answer is left as it is (regenerate
+ * it to answer the new question). The new text is moderated like any
+ * question: blocked → 422, redactions are applied.
+ *
+ * Body: { nodeId, content, mindmapId? } → { node }
+ */
+export async function POST(request: NextRequest) {
+    try {
+        const user = await getCurrentUser();
+
+        if (!user) {
+            return NextResponse.json(
+                { error: 'Not authenticated' },
+                { status: 401 }
+            );
+        }
+
+        const { nodeId, content, mindmapId } = await request.json();
+        const text = typeof content === 'string' ? content.trim() : '';
+
+        if (!nodeId || !text) {
+            return NextResponse.json(
+                { error: 'nodeId and content are required' },
+                { status: 400 }
+            );
+        }
+
+        const mindmap = await getUserMindmapInfo(user.userId, mindmapId);
+        const node = mindmap && (await getStoredNode(mindmap, nodeId));
+
+        if (!mindmap || !node) {
+            return NextResponse.json(
+                { error: 'Node not found' },
+                { status: 404 }
+            );
+        }
+
+        const onUsage = usageRecorder(user.userId, mindmap.id);
+        const input = await moderate(text, 'input', { onUsage, signal: request.signal });
+
+        if (isBlocked(input.verdict)) {
+            return moderationBlocked('input');
+        }
+
+        // No moderation findings left: the key is removed
+        const updated = await updateStoredNode(mindmap, nodeId, (current) => ({
+            content: input.text,
+            metadata: {
+                ...current.metadata,
+                moderation: withQuestionModeration(
+                    getNodeModeration(current.metadata),
+                    input.verdict
+                ),
+            },
+        }));
+
+        if (!updated) {
+            return NextResponse.json(
+                { error: 'Node not found' },
+                { status: 404 }
+            );
+        }
+
+        return NextResponse.json(
+            { node: toGraphNode(updated) },
+            { status: 200 }
+        );
+    } catch (error) {
+        // Other updates kept changing the node
+        if (isMindmapConflictError(error)) {
+            return NextResponse.json(
+                { error: 'The node is being changed elsewhere. Try again.', code: 'conflict' },
+                { status: 409 }
+            );
+        }
+
+        console.error('Edit node error:', error);
+        return NextResponse.json(
+            { error: 'Failed to edit node' },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,154 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUser } from '@/lib/auth';
+import { checkGenerationLimit, tooManyRequests } from '@/lib/rateLimit';
+import { resolveModel, generationFailed } from '@/lib/llm';
+import { buildConversationHistory } from '@/lib/history';
+import { generateSubtopics, answerSubtopics } from '@/lib/explode';
+import { buildSystemPrompt } from '@/lib/promptSettings';
+import { toNodeUsage } from '@/lib/pricing';
+import { usageRecorder } from '@/lib/usageRepository';
+import { moderate, isBlocked, toModerationMetadata } from '@/lib/moderation';
+import {
+    getUserMindmapInfo,
+    getStoredLineage,
+    createStoredNode,
+    appendNodes,
+    toAppendError,
+} from '@/lib/mindmapRepository';
+
+/**
+ * Break a node's answer into subtopics and add one answered child per
+ * subtopic. All children are written in a single update.
+ * Subtopics are moderated like answers (lib/moderation); blocked ones
+ * are dropped. Every model call counts against the rate limit: one for
+ * the subtopics, then one per subtopic answer.
+ *
+ * Body: { nodeId, model?, mindmapId? }
+ */
+export async function POST(request: NextRequest) {
+    try {
+        const user = await getCurrentUser();
+
+        if (!user) {
+            return NextResponse.json(
+                { error: 'Not authenticated' },
+                { status: 401 }
+            );
+        }
+
+        const { nodeId, model, mindmapId } = await request.json();
+
+        if (!nodeId) {
+            return NextResponse.json(
+                { error: 'nodeId is required' },
+                { status: 400 }
+            );
+        }
+
+        const choice = resolveModel(model);
+
+        if (!choice) {
+            return NextResponse.json(
+                { error: `Unknown model "${model}"` },
+                { status: 400 }
+            );
+        }
+
+        const mindmap = await getUserMindmapInfo(user.userId, mindmapId);
+
+        if (!mindmap) {
+            return NextResponse.json(
+                { error: 'Mindmap not found' },
+                { status: 404 }
+            );
+        }
+
+        // The node last, after its ancestors
+        const lineage = await getStoredLineage(mindmap, nodeId);
+        const node = lineage[lineage.length - 1];
+
+        if (!node) {
+            return NextResponse.json(
+                { error: 'Node not found' },
+                { status: 404 }
+            );
+        }
+
+        // The call listing the subtopics
+        const limit = await checkGenerationLimit(user.userId);
+
+        if (!limit.allowed) {
+            return tooManyRequests(limit);
+        }
+
+        const onUsage = usageRecorder(user.userId, mindmap.id);
+        const topics = await generateSubtopics(choice, node.content, node.response, {
+            onUsage,
+            signal: request.signal,
+        });
+
+        if (topics.length === 0) {
+            throw new Error('Model returned no subtopics');
+        }
+
+        // One request per subtopic answered
+        const answerLimit = await checkGenerationLimit(user.userId, topics.length);
+
+        if (!answerLimit.allowed) {
+            return tooManyRequests(answerLimit);
+        }
+
+        // Children continue the conversation that led to (and includes) this node
+        const history = buildConversationHistory(lineage, nodeId);
+        const subtopics = await answerSubtopics(choice, topics, history, {
+            systemPrompt: buildSystemPrompt(mindmap.settings),
+            onUsage,
+            signal: request.signal,
+        });
+
+        // The subtopic questions are model output too
+        const moderated = await Promise.all(
+            subtopics.map(async (subtopic) => ({
+                subtopic,
+                question: await moderate(subtopic.question, 'output', { onUsage, signal: request.signal }),
+                answer: await moderate(subtopic.response, 'output', { onUsage, signal: request.signal }),
+            }))
+        );
+
+        const entries = moderated
+            .filter(({ question, answer }) => !isBlocked(question.verdict) && !isBlocked(answer.verdict))
+            .map(({ subtopic, question, answer }) =>
+                createStoredNode({
+                    parentId: nodeId,
+                    content: question.text,
+                    response: answer.text,
+                    metadata: {
+                        provider: choice.provider,
+                        model: choice.model,
+                        usage: toNodeUsage(subtopic.usage),
+                        subtopic: subtopic.title,
+                        ...toModerationMetadata(question.verdict, answer.verdict),
+                    },
+                })
+            );
+
+        await appendNodes(mindmap, entries);
+
+        return NextResponse.json(
+            {
+                nodes: entries.map((e) => e.node),
+                edges: entries.map((e) => e.edge),
+            },
+            { status: 200 }
+        );
+    } catch (error) {
+        // The parent was deleted, or the id taken, while the answer was generated
+        const failed = toAppendError(error);
+        if (failed) {
+            return NextResponse.json(failed.body, { status: failed.status });
+        }
+
+        console.error('Explode node error:', error);
+        return generationFailed(error, 'Failed to explode node');
+    }
+}
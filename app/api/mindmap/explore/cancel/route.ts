@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUser } from '@/lib/auth';
+import { cancelJob } from '@/lib/exploreJobs';
+
+/**
+ * Cancel an auto-explore job. A running job stops before its next
+ * model call; nodes it already created are kept.
+ *
+ * Body: { jobId }
+ */
+export async function POST(request: NextRequest) {
+    try {
+        const user = await getCurrentUser();
+
+        if (!user) {
+            return NextResponse.json(
+                { error: 'Not authenticated' },
+                { status: 401 }
+            );
+        }
+
+        const { jobId } = await request.json();
+
+        if (!jobId) {
+            return NextResponse.json(
+                { error: 'jobId is required' },
+                { status: 400 }
+            );
+        }
+
+        const job = await cancelJob(user.userId, jobId);
+
+        if (!job) {
+            return NextResponse.json(
+                { error: 'Job not found or already finished' },
+                { status: 404 }
+            );
+        }
+
+        return NextResponse.json({ job }, { status: 200 });
+    } catch (error) {
+        console.error('Cancel explore job error:', error);
+        return NextResponse.json(
+            { error: 'Failed to cancel exploration' },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,195 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUser } from '@/lib/auth';
+import { checkGenerationLimit, tooManyRequests } from '@/lib/rateLimit';
+import { resolveModel, toErrorBody } from '@/lib/llm';
+import { encodeSSE, SSE_HEADERS } from '@/lib/sse';
+import { getUserMindmapInfo, getStoredNode } from '@/lib/mindmapRepository';
+import { normalizeExploreLimits, runExploreJob } from '@/lib/explore';
+import {
+    ExploreJob,
+    generateJobId,
+    getJob,
+    getOpenJobs,
+    isJobActive,
+    isJobResumable,
+    startJob,
+} from '@/lib/exploreJobs';
+
+/**
+ * List the user's unfinished auto-explore jobs (newest first), so the
+ * canvas can offer to resume one.
+ *
+ * GET ?mindmapId= → { jobs }   only that map's jobs when given
+ */
+export async function GET(request: NextRequest) {
+    try {
+        const user = await getCurrentUser();
+
+        if (!user) {
+            return NextResponse.json(
+                { error: 'Not authenticated' },
+                { status: 401 }
+            );
+        }
+
+        const mindmapId = request.nextUrl.searchParams.get('mindmapId');
+        const jobs = (await getOpenJobs(user.userId)).filter(
+            (job) => !mindmapId || !job.mindmapId || job.mindmapId === mindmapId
+        );
+
+        return NextResponse.json({ jobs }, { status: 200 });
+    } catch (error) {
+        console.error('List explore jobs error:', error);
+        return NextResponse.json(
+            { error: 'Failed to list explore jobs' },
+            { status: 500 }
+        );
+    }
+}
+
+/**
+ * Start an auto-explore job, or resume one, and stream its progress.
+ *
+ * Body: { nodeId, maxDepth?, maxNodes?, model?, mindmapId? }   start a new job
+ *       { jobId }                                               resume a paused/failed job
+ *
+ * Events:
+ *   job   → { job }           on start and after every change
+ *   node  → { node, edge }    each node as soon as it is persisted
+ *   done  → { job }           completed, cancelled or paused
+ *   error → { error, job }    the job failed (it can be resumed)
+ *
+ * Closing the connection pauses the job; cancel it through
+ * /api/mindmap/explore/cancel. Only one job per user runs at a time.
+ */
+export async function POST(request: NextRequest) {
+    try {
+        const user = await getCurrentUser();
+
+        if (!user) {
+            return NextResponse.json(
+                { error: 'Not authenticated' },
+                { status: 401 }
+            );
+        }
+
+        const { nodeId, jobId, maxDepth, maxNodes, model, mindmapId } = await request.json();
+
+        if (!nodeId && !jobId) {
+            return NextResponse.json(
+                { error: 'nodeId or jobId is required' },
+                { status: 400 }
+            );
+        }
+
+        const limit = await checkGenerationLimit(user.userId);
+
+        if (!limit.allowed) {
+            return tooManyRequests(limit);
+        }
+
+        let job: ExploreJob;
+
+        if (jobId) {
+            const existing = await getJob(user.userId, jobId);
+
+            if (!existing) {
+                return NextResponse.json(
+                    { error: 'Job not found' },
+                    { status: 404 }
+                );
+            }
+
+            if (!isJobResumable(existing)) {
+                return NextResponse.json(
+                    { error: `Job is ${existing.status}` },
+                    { status: 400 }
+                );
+            }
+
+            job = existing;
+        } else {
+            const choice = resolveModel(model);
+
+            if (!choice) {
+                return NextResponse.json(
+                    { error: `Unknown model "${model}"` },
+                    { status: 400 }
+                );
+            }
+
+            const mindmap = await getUserMindmapInfo(user.userId, mindmapId);
+
+            if (!mindmap || !(await getStoredNode(mindmap, nodeId))) {
+                return NextResponse.json(
+                    { error: 'Node not found' },
+                    { status: 404 }
+                );
+            }
+
+            const now = new Date();
+            job = {
+                id: generateJobId(),
+                userId: user.userId,
+                mindmapId: mindmap.id,
+                rootNodeId: nodeId,
+                model: `${choice.provider}:${choice.model}`,
+                ...normalizeExploreLimits({ maxDepth, maxNodes }),
+                frontier: [{ nodeId, depth: 0 }],
+                createdCount: 0,
+                status: 'running',
+                createdAt: now,
+                updatedAt: now,
+            };
+        }
+
+        if (!(await startJob(job))) {
+            const active = (await getOpenJobs(user.userId)).find(isJobActive);
+            return NextResponse.json(
+                { error: 'An exploration is already running', job: active },
+                { status: 409 }
+            );
+        }
+
+        // Either signal of a gone client pauses the job
+        let closed = false;
+        const disconnect = new AbortController();
+        request.signal.addEventListener('abort', () => disconnect.abort());
+
+        const stream = new ReadableStream<Uint8Array>({
+            async start(controller) {
+                const send = (event: string, data: unknown) => {
+                    if (!closed) controller.enqueue(encodeSSE(event, data));
+                };
+
+                try {
+                    for await (const event of runExploreJob(job, disconnect.signal)) {
+                        if (event.type === 'node') {
+                            send('node', { node: event.node, edge: event.edge });
+                        } else {
+                            send('job', { job: event.job });
+                        }
+                    }
+                    send('done', { job });
+                } catch (error) {
+                    console.error('Explore job error:', error);
+                    send('error', { ...toErrorBody(error, 'Exploration failed'), job });
+                }
+
+                if (!closed) controller.close();
+            },
+            cancel() {
+                closed = true;
+                disconnect.abort();
+            },
+        });
+
+        return new Response(stream, { headers: SSE_HEADERS });
+    } catch (error) {
+        console.error('Explore error:', error);
+        return NextResponse.json(
+            { error: 'Failed to start exploration' },
+            { status: 500 }
+        );
+    }
+}
@@ -1,8 +1,17 @@
-import { NextResponse } from 'next/server';
-import { getDb } from '@/lib/db';
+import { NextRequest, NextResponse } from 'next/server';
 import { getCurrentUser } from '@/lib/auth';
+import { DEFAULT_MINDMAP_NAME } from '@/lib/persistence';
+import { getUserMindmapInfo, createMindmap, openMindmap } from '@/lib/mindmapRepository';
 
-export async function GET() {
+/**
+ * Load the map the canvas opens with: ?id= if it still exists,
+ * otherwise the user's most recently updated map. A first map is
+ * created for users who have none.
+ *
+ * → OpenMindmapResponse: the map and its first page of nodes; the
+ *   rest come from /api/mindmap/nodes
+ */
+export async function GET(request: NextRequest) {
     try {
         const user = await getCurrentUser();
 
@@ -13,31 +22,18 @@ export async function GET() {
             );
         }
 
-        const db = await getDb();
-        const mindmaps = db.collection('mindmaps');
+        const requestedId = request.nextUrl.searchParams.get('id');
 
-        let mindmap = await mindmaps.findOne({ userId: user.userId });
+        let mindmap =
+            (requestedId && (await getUserMindmapInfo(user.userId, requestedId))) ||
+            (await getUserMindmapInfo(user.userId));
 
         // Create default mindmap if none exists
         if (!mindmap) {
-            const result = await mindmaps.insertOne({
-                userId: user.userId,
-                nodes: [],
-                edges: [],
-                createdAt: new Date(),
-                updatedAt: new Date(),
-            });
-
-            mindmap = await mindmaps.findOne({ _id: result.insertedId });
+            mindmap = await createMindmap(user.userId, DEFAULT_MINDMAP_NAME);
         }
 
-        return NextResponse.json(
-            {
-                nodes: mindmap?.nodes || [],
-                edges: mindmap?.edges || [],
-            },
-            { status: 200 }
-        );
+        return NextResponse.json(await openMindmap(mindmap), { status: 200 });
     } catch (error) {
         console.error('Load mindmap error:', error);
         return NextResponse.json(
@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUser } from '@/lib/auth';
+import {
+    getUserMindmapInfo,
+    getStoredNode,
+    moveStoredNode,
+    toGraphNode,
+    isMindmapConflictError,
+} from '@/lib/mindmapRepository';
+
+/**
+ * Move a node, with its subtree, under another parent; parentId null
+ * makes it a root. The new parent must exist and must not be inside the
+ * node's own subtree (see canMoveNode() in lib/graph.ts).
+ *
+ * Body: { nodeId, parentId, mindmapId? }
+ *   → { node, edge, removedEdgeId }   edge null for a root, removedEdgeId
+ *                                     null if there was no edge to replace
+ */
+export async function POST(request: NextRequest) {
+    try {
+        const user = await getCurrentUser();
+
+        if (!user) {
+            return NextResponse.json(
+                { error: 'Not authenticated' },
+                { status: 401 }
+            );
+        }
+
+        const { nodeId, parentId, mindmapId } = await request.json();
+
+        if (!nodeId || parentId === undefined || (parentId !== null && typeof parentId !== 'string')) {
+            return NextResponse.json(
+                { error: 'nodeId and parentId (or null) are required' },
+                { status: 400 }
+            );
+        }
+
+        const mindmap = await getUserMindmapInfo(user.userId, mindmapId);
+
+        if (!mindmap || !(await getStoredNode(mindmap, nodeId))) {
+            return NextResponse.json(
+                { error: 'Node not found' },
+                { status: 404 }
+            );
+        }
+
+        const moved = await moveStoredNode(mindmap, nodeId, parentId);
+
+        if (!moved) {
+            return NextResponse.json(
+                { error: 'The new parent must exist and be outside the node\'s own branch' },
+                { status: 400 }
+            );
+        }
+
+        return NextResponse.json(
+            { ...moved, node: toGraphNode(moved.node) },
+            { status: 200 }
+        );
+    } catch (error) {
+        // Other writes kept changing the map; the tree is unchanged
+        if (isMindmapConflictError(error)) {
+            return NextResponse.json(
+                { error: 'The map is being changed elsewhere. Try again.', code: 'conflict' },
+                { status: 409 }
+            );
+        }
+
+        console.error('Move node error:', error);
+        return NextResponse.json(
+            { error: 'Failed to move node' },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUser } from '@/lib/auth';
+import {
+    getUserMindmapInfo,
+    getNodePage,
+    parseNodeCursor,
+    NODE_PAGE_SIZE,
+    MAX_NODE_PAGE_SIZE,
+} from '@/lib/mindmapRepository';
+
+/**
+ * A map's nodes, one page at a time, oldest first. /api/mindmap/load
+ * returns the first page; pass each page's nextCursor to get the next.
+ *
+ * GET /api/mindmap/nodes?mindmapId=<id>&cursor=<nextCursor>&limit=<n>
+ *   → NodePage { nodes, nextCursor }   nextCursor null on the last page
+ */
+export async function GET(request: NextRequest) {
+    try {
+        const user = await getCurrentUser();
+
+        if (!user) {
+            return NextResponse.json(
+                { error: 'Not authenticated' },
+                { status: 401 }
+            );
+        }
+
+        const params = request.nextUrl.searchParams;
+        const cursor = params.get('cursor');
+        const after = cursor ? parseNodeCursor(cursor) : null;
+        const limit = Math.min(Number(params.get('limit')) || NODE_PAGE_SIZE, MAX_NODE_PAGE_SIZE);
+
+        if (cursor && !after) {
+            return NextResponse.json(
+                { error: 'Invalid cursor' },
+                { status: 400 }
+            );
+        }
+
+        const mindmap = await getUserMindmapInfo(user.userId, params.get('mindmapId'));
+
+        if (!mindmap) {
+            return NextResponse.json(
+                { error: 'Mindmap not found' },
+                { status: 404 }
+            );
+        }
+
+        const page = await getNodePage(mindmap, after, Math.max(1, Math.floor(limit)));
+
+        return NextResponse.json(page, { status: 200 });
+    } catch (error) {
+        console.error('Load nodes error:', error);
+        return NextResponse.json(
+            { error: 'Failed to load nodes' },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,165 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUser } from '@/lib/auth';
+import { checkGenerationLimit, tooManyRequests } from '@/lib/rateLimit';
+import { generateResponse, resolveModel, generationFailed } from '@/lib/llm';
+import { buildConversationHistory } from '@/lib/history';
+import { buildSystemPrompt } from '@/lib/promptSettings';
+import { toNodeUsage } from '@/lib/pricing';
+import { usageRecorder } from '@/lib/usageRepository';
+import {
+    moderate,
+    moderateAttachments,
+    isBlocked,
+    moderationBlocked,
+    toModerationMetadata,
+} from '@/lib/moderation';
+import { addVersion, generateVersionId } from '@/lib/versions';
+import { isComparison } from '@/lib/comparison';
+import { getNodeGenerationParams } from '@/lib/generationParams';
+import { buildPromptWithAttachments, getNodeAttachments } from '@/lib/attachments';
+import { getAttachments } from '@/lib/attachmentRepository';
+import {
+    getUserMindmapInfo,
+    getStoredLineage,
+    updateStoredNode,
+    toGraphNode,
+    isMindmapConflictError,
+} from '@/lib/mindmapRepository';
+
+/**
+ * Re-roll a node's answer without branching.
+ * The new answer is stored as a version and becomes the active one.
+ *
+ * Body: { nodeId, model?, mindmapId? } — model defaults to the one that produced
+ * the node's current answer; temperature and max tokens are the ones
+ * the node was created with. The response cache is always bypassed:
+ * re-rolling should never hand back the same cached answer. The new
+ * answer is moderated (lib/moderation); a blocked one isn't stored, and
+ * the attached files are checked again before they reach the model.
+ */
+export async function POST(request: NextRequest) {
+    try {
+        const user = await getCurrentUser();
+
+        if (!user) {
+            return NextResponse.json(
+                { error: 'Not authenticated' },
+                { status: 401 }
+            );
+        }
+
+        const { nodeId, model, mindmapId } = await request.json();
+
+        if (!nodeId) {
+            return NextResponse.json(
+                { error: 'nodeId is required' },
+                { status: 400 }
+            );
+        }
+
+        const mindmap = await getUserMindmapInfo(user.userId, mindmapId);
+        // The node last, after its ancestors
+        const lineage = mindmap ? await getStoredLineage(mindmap, nodeId) : [];
+        const node = lineage[lineage.length - 1];
+
+        if (!mindmap || !node) {
+            return NextResponse.json(
+                { error: 'Node not found' },
+                { status: 404 }
+            );
+        }
+
+        // Its answers are tied to the compared models; promote one instead
+        if (isComparison(node)) {
+            return NextResponse.json(
+                { error: 'Comparison nodes cannot be regenerated' },
+                { status: 400 }
+            );
+        }
+
+        const previous = node.metadata?.provider
+            ? `${node.metadata.provider}:${node.metadata.model || ''}`
+            : undefined;
+        const choice = resolveModel(model || previous);
+
+        if (!choice) {
+            return NextResponse.json(
+                { error: `Unknown model "${model}"` },
+                { status: 400 }
+            );
+        }
+
+        const limit = await checkGenerationLimit(user.userId);
+
+        if (!limit.allowed) {
+            return tooManyRequests(limit);
+        }
+
+        // Same question, same lineage — only the answer changes
+        const history = buildConversationHistory(lineage, node.parentId);
+        const attachments = await getAttachments(
+            user.userId,
+            getNodeAttachments(node.metadata).map((attachment) => attachment.id)
+        );
+        const onUsage = usageRecorder(user.userId, mindmap.id);
+        const files = await moderateAttachments(attachments, { onUsage, signal: request.signal });
+
+        if (isBlocked(files.verdict)) {
+            return moderationBlocked('input');
+        }
+
+        const prompt = buildPromptWithAttachments(node.content, files.attachments);
+        const params = getNodeGenerationParams(node.metadata);
+        const aiResponse = await generateResponse(choice, prompt, history, {
+            systemPrompt: buildSystemPrompt(mindmap.settings),
+            temperature: params.temperature,
+            maxOutputTokens: params.maxOutputTokens,
+            onUsage,
+            signal: request.signal,
+            bypassCache: true,
+        });
+        const output = await moderate(aiResponse.text, 'output', { onUsage, signal: request.signal });
+
+        if (isBlocked(output.verdict)) {
+            return moderationBlocked('output');
+        }
+
+        const version = {
+            id: generateVersionId(),
+            response: output.text,
+            provider: choice.provider,
+            model: choice.model,
+            usage: toNodeUsage(aiResponse.usage),
+            ...toModerationMetadata(output.verdict),
+            createdAt: new Date().toISOString(),
+        };
+
+        // Added to the node as it is now: other versions may have come meanwhile
+        const updated = await updateStoredNode(mindmap, nodeId, (current) =>
+            addVersion(current, version)
+        );
+
+        if (!updated) {
+            return NextResponse.json(
+                { error: 'Node not found' },
+                { status: 404 }
+            );
+        }
+
+        return NextResponse.json(
+            { node: toGraphNode(updated) },
+            { status: 200 }
+        );
+    } catch (error) {
+        // Other updates kept changing the node
+        if (isMindmapConflictError(error)) {
+            return NextResponse.json(
+                { error: 'The node is being changed elsewhere. Try again.', code: 'conflict' },
+                { status: 409 }
+            );
+        }
+
+        console.error('Regenerate node error:', error);
+        return generationFailed(error, 'Failed to regenerate response');
+    }
+}
@@ -0,0 +1,111 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUser } from '@/lib/auth';
+import { relatedEdgeId } from '@/lib/graph';
+import { getRelatedLinks, getLinkScore } from '@/lib/related';
+import {
+    getUserMindmap,
+    getUserMindmapInfo,
+    getStoredNodes,
+    saveRelatedLink,
+} from '@/lib/mindmapRepository';
+
+/**
+ * Related (cross-thread) links: accepted ones plus fresh suggestions.
+ *
+ * GET ?mindmapId= → { links: [{ id, source, target, status: 'suggested' | 'accepted', score? }] }
+ */
+export async function GET(request: NextRequest) {
+    try {
+        const user = await getCurrentUser();
+
+        if (!user) {
+            return NextResponse.json(
+                { error: 'Not authenticated' },
+                { status: 401 }
+            );
+        }
+
+        const mindmapId = request.nextUrl.searchParams.get('mindmapId') || undefined;
+        const mindmap = await getUserMindmap(user.userId, mindmapId);
+
+        if (!mindmap) {
+            return NextResponse.json({ links: [] }, { status: 200 });
+        }
+
+        const links = await getRelatedLinks(mindmap);
+
+        return NextResponse.json({ links }, { status: 200 });
+    } catch (error) {
+        console.error('Related links error:', error);
+        return NextResponse.json(
+            { error: 'Failed to compute related links' },
+            { status: 500 }
+        );
+    }
+}
+
+/**
+ * Accept or dismiss a related link.
+ *
+ * Body: { source, target, action: 'accept' | 'dismiss', mindmapId? } → { link }
+ */
+export async function POST(request: NextRequest) {
+    try {
+        const user = await getCurrentUser();
+
+        if (!user) {
+            return NextResponse.json(
+                { error: 'Not authenticated' },
+                { status: 401 }
+            );
+        }
+
+        const { source, target, action, mindmapId } = await request.json();
+
+        if (!source || !target || source === target) {
+            return NextResponse.json(
+                { error: 'Two different node ids are required' },
+                { status: 400 }
+            );
+        }
+
+        if (action !== 'accept' && action !== 'dismiss') {
+            return NextResponse.json(
+                { error: 'action must be "accept" or "dismiss"' },
+                { status: 400 }
+            );
+        }
+
+        const mindmap = await getUserMindmapInfo(user.userId, mindmapId);
+        // With their embeddings, for the score
+        const pair = mindmap ? await getStoredNodes(mindmap, [source, target], { embeddings: true }) : [];
+        const sourceNode = pair.find((n) => n.id === source);
+        const targetNode = pair.find((n) => n.id === target);
+
+        if (!mindmap || !sourceNode || !targetNode) {
+            return NextResponse.json(
+                { error: 'Node not found' },
+                { status: 404 }
+            );
+        }
+
+        const link = {
+            id: relatedEdgeId(source, target),
+            source,
+            target,
+            status: action === 'accept' ? ('accepted' as const) : ('dismissed' as const),
+            score: getLinkScore(sourceNode, targetNode),
+            updatedAt: new Date(),
+        };
+
+        await saveRelatedLink(mindmap, link);
+
+        return NextResponse.json({ link }, { status: 200 });
+    } catch (error) {
+        console.error('Update related link error:', error);
+        return NextResponse.json(
+            { error: 'Failed to update related link' },
+            { status: 500 }
+        );
+    }
+}
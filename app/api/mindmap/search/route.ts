@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUser } from '@/lib/auth';
+import { getUserMindmap } from '@/lib/mindmapRepository';
+import { searchNodes, DEFAULT_SEARCH_LIMIT } from '@/lib/search';
+
+/**
+ * Rank the user's nodes by semantic similarity to a query.
+ *
+ * GET /api/mindmap/search?q=<text>&limit=<n>&mindmapId=<id>
+ *   → { results: [{ id, content, snippet, score }] }   best first
+ */
+export async function GET(request: NextRequest) {
+    try {
+        const user = await getCurrentUser();
+
+        if (!user) {
+            return NextResponse.json(
+                { error: 'Not authenticated' },
+                { status: 401 }
+            );
+        }
+
+        const query = request.nextUrl.searchParams.get('q')?.trim();
+        const limit = Number(request.nextUrl.searchParams.get('limit')) || DEFAULT_SEARCH_LIMIT;
+
+        if (!query) {
+            return NextResponse.json(
+                { error: 'q is required' },
+                { status: 400 }
+            );
+        }
+
+        const mindmapId = request.nextUrl.searchParams.get('mindmapId') || undefined;
+        const mindmap = await getUserMindmap(user.userId, mindmapId);
+
+        if (!mindmap) {
+            return NextResponse.json({ results: [] }, { status: 200 });
+        }
+
+        const results = await searchNodes(mindmap, query, limit);
+
+        return NextResponse.json({ results }, { status: 200 });
+    } catch (error) {
+        console.error('Search mindmap error:', error);
+        return NextResponse.json(
+            { error: 'Failed to search mindmap' },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUser } from '@/lib/auth';
+import { getUserMindmapInfo, saveMindmapSettings } from '@/lib/mindmapRepository';
+import { DEFAULT_PROMPT_SETTINGS, parsePromptSettings } from '@/lib/promptSettings';
+
+/**
+ * The mindmap's prompt settings (persona, tone, length, language,
+ * instructions), sent as the system prompt with every answer.
+ *
+ * GET  ?mindmapId= → { settings }
+ * PUT  { settings, mindmapId? } → { settings }
+ */
+export async function GET(request: NextRequest) {
+    try {
+        const user = await getCurrentUser();
+
+        if (!user) {
+            return NextResponse.json(
+                { error: 'Not authenticated' },
+                { status: 401 }
+            );
+        }
+
+        const mindmapId = request.nextUrl.searchParams.get('mindmapId') || undefined;
+        const mindmap = await getUserMindmapInfo(user.userId, mindmapId);
+
+        return NextResponse.json(
+            { settings: mindmap?.settings ?? DEFAULT_PROMPT_SETTINGS },
+            { status: 200 }
+        );
+    } catch (error) {
+        console.error('Load settings error:', error);
+        return NextResponse.json(
+            { error: 'Failed to load settings' },
+            { status: 500 }
+        );
+    }
+}
+
+export async function PUT(request: NextRequest) {
+    try {
+        const user = await getCurrentUser();
+
+        if (!user) {
+            return NextResponse.json(
+                { error: 'Not authenticated' },
+                { status: 401 }
+            );
+        }
+
+        const body = await request.json();
+        const settings = parsePromptSettings(body.settings);
+
+        if (!settings) {
+            return NextResponse.json(
+                { error: 'Invalid settings' },
+                { status: 400 }
+            );
+        }
+
+        const mindmap = await getUserMindmapInfo(user.userId, body.mindmapId);
+
+        if (!mindmap) {
+            return NextResponse.json(
+                { error: 'Mindmap not found' },
+                { status: 404 }
+            );
+        }
+
+        await saveMindmapSettings(mindmap, settings);
+
+        return NextResponse.json({ settings }, { status: 200 });
+    } catch (error) {
+        console.error('Save settings error:', error);
+        return NextResponse.json(
+            { error: 'Failed to save settings' },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,292 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUser } from '@/lib/auth';
+import { checkGenerationLimit, tooManyRequests } from '@/lib/rateLimit';
+import { streamResponse, resolveModel, toErrorBody } from '@/lib/llm';
+import { buildConversationHistory } from '@/lib/history';
+import { buildSystemPrompt } from '@/lib/promptSettings';
+import {
+    parseGenerationParams,
+    inheritGenerationParams,
+    toGenerationMetadata,
+} from '@/lib/generationParams';
+import { toNodeUsage } from '@/lib/pricing';
+import { usageRecorder } from '@/lib/usageRepository';
+import {
+    moderate,
+    moderateAttachments,
+    isBlocked,
+    moderationBlocked,
+    toBlockedBody,
+    toModerationMetadata,
+} from '@/lib/moderation';
+import type { LLMUsage } from '@/lib/llm';
+import { generateFollowUpSuggestions } from '@/lib/suggestions';
+import { buildPromptWithAttachments } from '@/lib/attachments';
+import { resolveQueryAttachments, toAttachmentMeta } from '@/lib/attachmentRepository';
+import { encodeSSE, SSE_HEADERS } from '@/lib/sse';
+import {
+    getUserMindmapInfo,
+    getStoredLineage,
+    createStoredNode,
+    appendNode,
+    generateNodeId,
+    toAppendError,
+} from '@/lib/mindmapRepository';
+
+/**
+ * Streaming variant of /api/mindmap/update.
+ *
+ * Body: { query, parentId?, attachmentIds?, model?, temperature?,
+ *         maxOutputTokens?, inheritParams?, bypassCache?, mindmapId? } — unset
+ * parameters are inherited from the parent unless inheritParams is false
+ * (see lib/generationParams.ts); bypassCache skips the response cache
+ * (lib/responseCache). An unknown parentId is a 404, before anything is
+ * moderated or generated. A parent deleted while streaming ends with an
+ * `error` event (see toAppendError()).
+ *
+ * Events:
+ *   node  → { id, parentId, content, createdAt, metadata }  sent before generation starts
+ *   token → { text }                                      one per generated chunk
+ *   done  → { node, edge }                                after the node is persisted
+ *   error → { error, code? }                              generation, moderation or saving
+ *                                                         failed; nothing persisted
+ *
+ * The node is persisted only once the stream completes, or with the
+ * partial answer (metadata.status = 'cancelled') if the client disconnects
+ * or aborts. Either way the provider call is aborted with the request.
+ * `code` is the GenerationErrorKind (lib/llm/errors.ts) when known; the
+ * `error` message is then meant for the user.
+ *
+ * The question and its attached files are moderated before streaming
+ * starts (blocked → 422).
+ * The answer is moderated once complete: the `done` node carries any
+ * redactions, and a blocked answer ends with an `error` event
+ * (code 'moderation') instead of being persisted.
+ */
+export async function POST(request: NextRequest) {
+    try {
+        const user = await getCurrentUser();
+
+        if (!user) {
+            return NextResponse.json(
+                { error: 'Not authenticated' },
+                { status: 401 }
+            );
+        }
+
+        const body = await request.json();
+        const { query, parentId, attachmentIds, inheritParams, bypassCache, mindmapId } = body;
+
+        if (!query) {
+            return NextResponse.json(
+                { error: 'Query is required' },
+                { status: 400 }
+            );
+        }
+
+        const ownParams = parseGenerationParams(body);
+
+        if (!ownParams) {
+            return NextResponse.json(
+                { error: 'Invalid generation settings' },
+                { status: 400 }
+            );
+        }
+
+        if (ownParams.model && !resolveModel(ownParams.model)) {
+            return NextResponse.json(
+                { error: `Unknown model "${ownParams.model}"` },
+                { status: 400 }
+            );
+        }
+
+        const attachments = await resolveQueryAttachments(user.userId, attachmentIds);
+
+        if (!attachments) {
+            return NextResponse.json(
+                { error: 'Invalid attachmentIds' },
+                { status: 400 }
+            );
+        }
+
+        const mindmap = await getUserMindmapInfo(user.userId, mindmapId);
+
+        if (!mindmap) {
+            return NextResponse.json(
+                { error: 'Mindmap not found' },
+                { status: 404 }
+            );
+        }
+
+        // The parent last; empty for a new root or an unknown parent
+        const lineage = parentId ? await getStoredLineage(mindmap, parentId) : [];
+        const parent = lineage[lineage.length - 1];
+
+        if (parentId && !parent) {
+            return NextResponse.json(
+                { error: 'Parent node not found' },
+                { status: 404 }
+            );
+        }
+
+        // "Branch with same settings": follow-ups inherit the parent's parameters
+        const params = inheritParams === false
+            ? ownParams
+            : inheritGenerationParams(parent?.metadata, ownParams);
+        const choice = resolveModel(params.model);
+
+        if (!choice) {
+            return NextResponse.json(
+                { error: `Unknown model "${params.model}"` },
+                { status: 400 }
+            );
+        }
+
+        const limit = await checkGenerationLimit(user.userId);
+
+        if (!limit.allowed) {
+            return tooManyRequests(limit);
+        }
+
+        const recordUsage = usageRecorder(user.userId, mindmap.id);
+        const input = await moderate(query, 'input', {
+            onUsage: recordUsage,
+            signal: request.signal,
+        });
+
+        const files = await moderateAttachments(attachments, {
+            onUsage: recordUsage,
+            signal: request.signal,
+        });
+
+        if (isBlocked(input.verdict) || isBlocked(files.verdict)) {
+            return moderationBlocked('input');
+        }
+
+        const history = buildConversationHistory(lineage, parentId || null);
+        const prompt = buildPromptWithAttachments(input.text, files.attachments);
+        const systemPrompt = buildSystemPrompt(mindmap.settings);
+        const attachmentMeta = attachments.length > 0
+            ? { attachments: attachments.map(toAttachmentMeta) }
+            : {};
+        const generationMeta = toGenerationMetadata(params);
+        const nodeId = generateNodeId();
+        const createdAt = new Date();
+
+        let cancelled = false;
+        request.signal.addEventListener('abort', () => {
+            cancelled = true;
+        });
+
+        const stream = new ReadableStream<Uint8Array>({
+            async start(controller) {
+                const send = (event: string, data: unknown) => {
+                    if (!cancelled) controller.enqueue(encodeSSE(event, data));
+                };
+
+                send('node', {
+                    id: nodeId,
+                    parentId: parentId || null,
+                    content: input.text,
+                    createdAt,
+                    metadata: {
+                        provider: choice.provider,
+                        model: choice.model,
+                        ...generationMeta,
+                        ...attachmentMeta,
+                    },
+                });
+
+                let text = '';
+                let answerUsage: LLMUsage | null = null;
+                const onUsage = (usage: LLMUsage) => {
+                    answerUsage = usage;
+                    recordUsage(usage);
+                };
+
+                try {
+                    const chunks = streamResponse(choice, prompt, history, {
+                        systemPrompt,
+                        temperature: params.temperature,
+                        maxOutputTokens: params.maxOutputTokens,
+                        onUsage,
+                        signal: request.signal,
+                        bypassCache: bypassCache === true,
+                    });
+                    for await (const chunk of chunks) {
+                        if (cancelled) break;
+                        text += chunk;
+                        send('token', { text: chunk });
+                    }
+                } catch (error) {
+                    // Aborted by the client: keep the partial answer below
+                    if (!cancelled) {
+                        console.error('Stream mindmap error:', error);
+                        send('error', toErrorBody(error, 'Failed to generate AI response'));
+                        controller.close();
+                        return;
+                    }
+                }
+
+                // A cancelled stream with no output has nothing worth keeping
+                if (cancelled && !text) return;
+
+                try {
+                    // Not tied to the request: a cancelled answer is still checked before it's kept
+                    const output = await moderate(text, 'output', { onUsage: recordUsage });
+
+                    if (isBlocked(output.verdict)) {
+                        send('error', toBlockedBody('output'));
+                        if (!cancelled) controller.close();
+                        return;
+                    }
+
+                    // Follow-ups (ghost children) only for answers that finished
+                    const suggestions = cancelled
+                        ? []
+                        : await generateFollowUpSuggestions(choice, input.text, output.text, {
+                            onUsage: recordUsage,
+                        });
+
+                    const { node, edge } = createStoredNode({
+                        id: nodeId,
+                        parentId: parentId || null,
+                        content: input.text,
+                        response: output.text,
+                        createdAt,
+                        metadata: {
+                            provider: choice.provider,
+                            model: choice.model,
+                            ...(answerUsage ? { usage: toNodeUsage(answerUsage) } : {}),
+                            ...generationMeta,
+                            ...attachmentMeta,
+                            ...toModerationMetadata(input.verdict, files.verdict, output.verdict),
+                            ...(cancelled ? { status: 'cancelled' } : {}),
+                            ...(suggestions.length > 0 ? { suggestions } : {}),
+                        },
+                    });
+
+                    await appendNode(mindmap, node, edge);
+                    send('done', { node, edge });
+                } catch (error) {
+                    console.error('Stream mindmap finish error:', error);
+                    // The parent was deleted, or the id taken, while streaming
+                    send('error', toAppendError(error)?.body ?? toErrorBody(error, 'Failed to save node'));
+                }
+
+                if (!cancelled) controller.close();
+            },
+            cancel() {
+                cancelled = true;
+            },
+        });
+
+        return new Response(stream, { headers: SSE_HEADERS });
+    } catch (error) {
+        console.error('Stream mindmap error:', error);
+        return NextResponse.json(
+            { error: 'Failed to update mindmap' },
+            { status: 500 }
+        );
+    }
+}
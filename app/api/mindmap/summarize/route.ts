@@ -0,0 +1,132 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUser } from '@/lib/auth';
+import { checkGenerationLimit, tooManyRequests } from '@/lib/rateLimit';
+import { resolveModel, generationFailed } from '@/lib/llm';
+import { summarizeBranch } from '@/lib/summarize';
+import { buildSystemPrompt } from '@/lib/promptSettings';
+import { toNodeUsage } from '@/lib/pricing';
+import { usageRecorder } from '@/lib/usageRepository';
+import { moderate, isBlocked, moderationBlocked, toModerationMetadata } from '@/lib/moderation';
+import {
+    getUserMindmapInfo,
+    getStoredSubtree,
+    createStoredNode,
+    appendNode,
+    toGraph,
+    toAppendError,
+} from '@/lib/mindmapRepository';
+
+/**
+ * Summarize a node and all its descendants into a synthesis node,
+ * attached as a new child of that node (metadata.kind = 'summary').
+ * The summary is moderated like any answer (lib/moderation).
+ *
+ * Body: { nodeId, model?, mindmapId? }
+ */
+export async function POST(request: NextRequest) {
+    try {
+        const user = await getCurrentUser();
+
+        if (!user) {
+            return NextResponse.json(
+                { error: 'Not authenticated' },
+                { status: 401 }
+            );
+        }
+
+        const { nodeId, model, mindmapId } = await request.json();
+
+        if (!nodeId) {
+            return NextResponse.json(
+                { error: 'nodeId is required' },
+                { status: 400 }
+            );
+        }
+
+        const choice = resolveModel(model);
+
+        if (!choice) {
+            return NextResponse.json(
+                { error: `Unknown model "${model}"` },
+                { status: 400 }
+            );
+        }
+
+        const mindmap = await getUserMindmapInfo(user.userId, mindmapId);
+
+        if (!mindmap) {
+            return NextResponse.json(
+                { error: 'Mindmap not found' },
+                { status: 404 }
+            );
+        }
+
+        const subtree = await getStoredSubtree(mindmap, nodeId);
+
+        if (subtree.length === 0) {
+            return NextResponse.json(
+                { error: 'Node not found' },
+                { status: 404 }
+            );
+        }
+
+        const limit = await checkGenerationLimit(user.userId);
+
+        if (!limit.allowed) {
+            return tooManyRequests(limit);
+        }
+
+        const onUsage = usageRecorder(user.userId, mindmap.id);
+        const summary = await summarizeBranch(choice, toGraph(subtree), nodeId, {
+            systemPrompt: buildSystemPrompt(mindmap.settings),
+            onUsage,
+            signal: request.signal,
+        });
+
+        if (!summary) {
+            return NextResponse.json(
+                { error: 'Node not found' },
+                { status: 404 }
+            );
+        }
+
+        const output = await moderate(summary.response, 'output', { onUsage, signal: request.signal });
+
+        if (isBlocked(output.verdict)) {
+            return moderationBlocked('output');
+        }
+
+        const { node: newNode, edge: newEdge } = createStoredNode({
+            parentId: nodeId,
+            content: summary.query,
+            response: output.text,
+            metadata: {
+                kind: 'summary',
+                provider: choice.provider,
+                model: choice.model,
+                usage: toNodeUsage(summary.usage),
+                summarizedNodeCount: summary.nodeCount,
+                ...toModerationMetadata(output.verdict),
+            },
+        });
+
+        await appendNode(mindmap, newNode, newEdge);
+
+        return NextResponse.json(
+            {
+                node: newNode,
+                edge: newEdge,
+            },
+            { status: 200 }
+        );
+    } catch (error) {
+        // The parent was deleted, or the id taken, while the answer was generated
+        const failed = toAppendError(error);
+        if (failed) {
+            return NextResponse.json(failed.body, { status: failed.status });
+        }
+
+        console.error('Summarize branch error:', error);
+        return generationFailed(error, 'Failed to summarize branch');
+    }
+}
@@ -1,8 +1,49 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getDb } from '@/lib/db';
 import { getCurrentUser } from '@/lib/auth';
-import { generateResponse } from '@/lib/gemini';
-
+import { checkGenerationLimit, tooManyRequests } from '@/lib/rateLimit';
+import { generateResponse, resolveModel, generationFailed } from '@/lib/llm';
+import { buildConversationHistory } from '@/lib/history';
+import { buildSystemPrompt } from '@/lib/promptSettings';
+import {
+    parseGenerationParams,
+    inheritGenerationParams,
+    toGenerationMetadata,
+} from '@/lib/generationParams';
+import { toNodeUsage } from '@/lib/pricing';
+import { usageRecorder } from '@/lib/usageRepository';
+import {
+    moderate,
+    moderateAttachments,
+    isBlocked,
+    moderationBlocked,
+    toModerationMetadata,
+} from '@/lib/moderation';
+import { generateFollowUpSuggestions } from '@/lib/suggestions';
+import { buildPromptWithAttachments } from '@/lib/attachments';
+import { resolveQueryAttachments, toAttachmentMeta } from '@/lib/attachmentRepository';
+import {
+    getUserMindmapInfo,
+    getStoredLineage,
+    createStoredNode,
+    appendNode,
+    toAppendError,
+} from '@/lib/mindmapRepository';
+
+/**
+ * Answer a query as a new node (a root, or a child of parentId).
+ *
+ * Body: { query, parentId?, attachmentIds?, model?, temperature?,
+ *         maxOutputTokens?, inheritParams?, bypassCache?, mindmapId? } — unset
+ * parameters are inherited from the parent unless inheritParams is false
+ * (see lib/generationParams.ts); bypassCache skips the response cache
+ * (lib/responseCache). An unknown parentId is a 404, before anything is
+ * moderated or generated; a parent deleted while the answer was
+ * generated is a 404 too (see toAppendError()).
+ *
+ * The question, its attached files and the answer are moderated
+ * (lib/moderation): blocked content gets a 422, redactions are stored,
+ * findings are recorded.
+ */
 export async function POST(request: NextRequest) {
     try {
         const user = await getCurrentUser();
@@ -14,7 +55,8 @@ export async function POST(request: NextRequest) {
             );
         }
 
-        const { query, parentId } = await request.json();
+        const body = await request.json();
+        const { query, parentId, attachmentIds, inheritParams, bypassCache, mindmapId } = body;
 
         if (!query) {
             return NextResponse.json(
@@ -23,13 +65,32 @@ export async function POST(request: NextRequest) {
             );
         }
 
-        // Generate AI response
-        const aiResponse = await generateResponse(query);
+        const ownParams = parseGenerationParams(body);
+
+        if (!ownParams) {
+            return NextResponse.json(
+                { error: 'Invalid generation settings' },
+                { status: 400 }
+            );
+        }
+
+        if (ownParams.model && !resolveModel(ownParams.model)) {
+            return NextResponse.json(
+                { error: `Unknown model "${ownParams.model}"` },
+                { status: 400 }
+            );
+        }
+
+        const attachments = await resolveQueryAttachments(user.userId, attachmentIds);
 
-        const db = await getDb();
-        const mindmaps = db.collection('mindmaps');
+        if (!attachments) {
+            return NextResponse.json(
+                { error: 'Invalid attachmentIds' },
+                { status: 400 }
+            );
+        }
 
-        const mindmap = await mindmaps.findOne({ userId: user.userId });
+        const mindmap = await getUserMindmapInfo(user.userId, mindmapId);
 
         if (!mindmap) {
             return NextResponse.json(
@@ -38,86 +99,84 @@ export async function POST(request: NextRequest) {
             );
         }
 
-        const nodes = mindmap.nodes as any[] || [];
-        const edges = mindmap.edges as any[] || [];
-
-        // Calculate position based on chain logic
-        let position = { x: 0, y: 0 };
-        let chainId = '';
-
-        if (parentId) {
-            // Branching: create child node
-            const parent = nodes.find((n: any) => n.id === parentId);
-            if (parent) {
-                position = {
-                    x: parent.position.x + 300,
-                    y: parent.position.y,
-                };
-                chainId = parent.chainId;
-            }
-        } else {
-            // New chain: find the bottom-most chain and place below
-            if (nodes.length > 0) {
-                const chains = new Map<string, { maxY: number; x: number }>();
-
-                nodes.forEach((node: any) => {
-                    const current = chains.get(node.chainId) || { maxY: -Infinity, x: 0 };
-                    if (node.position.y > current.maxY) {
-                        chains.set(node.chainId, { maxY: node.position.y, x: node.position.x });
-                    }
-                });
-
-                let maxChainY = -Infinity;
-                let chainX = 0;
-
-                chains.forEach((value) => {
-                    if (value.maxY > maxChainY) {
-                        maxChainY = value.maxY;
-                        chainX = value.x;
-                    }
-                });
-
-                position = { x: chainX, y: maxChainY + 250 };
-            }
-
-            chainId = `chain-${Date.now()}`;
+        // The parent last; empty for a new root or an unknown parent
+        const lineage = parentId ? await getStoredLineage(mindmap, parentId) : [];
+        const parent = lineage[lineage.length - 1];
+
+        if (parentId && !parent) {
+            return NextResponse.json(
+                { error: 'Parent node not found' },
+                { status: 404 }
+            );
+        }
+
+        // "Branch with same settings": follow-ups inherit the parent's parameters
+        const params = inheritParams === false
+            ? ownParams
+            : inheritGenerationParams(parent?.metadata, ownParams);
+        const choice = resolveModel(params.model);
+
+        if (!choice) {
+            return NextResponse.json(
+                { error: `Unknown model "${params.model}"` },
+                { status: 400 }
+            );
         }
 
-        // Create new node
-        const newNode = {
-            id: `node-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
-            parentId: parentId || null,
-            query,
-            response: aiResponse,
-            position,
-            chainId,
-            createdAt: new Date(),
-        };
-
-        // Create edge if there's a parent
-        let newEdge = null;
-        if (parentId) {
-            newEdge = {
-                id: `edge-${Date.now()}`,
-                source: parentId,
-                target: newNode.id,
-            };
+        const limit = await checkGenerationLimit(user.userId);
+
+        if (!limit.allowed) {
+            return tooManyRequests(limit);
         }
 
-        // Update mindmap
-        const updateData: any = {
-            nodes: [...nodes, newNode],
-            updatedAt: new Date(),
-        };
+        const onUsage = usageRecorder(user.userId, mindmap.id);
+        const input = await moderate(query, 'input', { onUsage, signal: request.signal });
 
-        if (newEdge) {
-            updateData.edges = [...edges, newEdge];
+        const files = await moderateAttachments(attachments, { onUsage, signal: request.signal });
+
+        if (isBlocked(input.verdict) || isBlocked(files.verdict)) {
+            return moderationBlocked('input');
         }
 
-        await mindmaps.updateOne(
-            { userId: user.userId },
-            { $set: updateData }
-        );
+        // Generate AI response with the branch's ancestor chain as history
+        const history = buildConversationHistory(lineage, parentId || null);
+        const prompt = buildPromptWithAttachments(input.text, files.attachments);
+        const aiResponse = await generateResponse(choice, prompt, history, {
+            systemPrompt: buildSystemPrompt(mindmap.settings),
+            temperature: params.temperature,
+            maxOutputTokens: params.maxOutputTokens,
+            onUsage,
+            signal: request.signal,
+            bypassCache: bypassCache === true,
+        });
+        const output = await moderate(aiResponse.text, 'output', { onUsage, signal: request.signal });
+
+        if (isBlocked(output.verdict)) {
+            return moderationBlocked('output');
+        }
+
+        const suggestions = await generateFollowUpSuggestions(choice, input.text, output.text, {
+            onUsage,
+            signal: request.signal,
+        });
+
+        // Create new node (+ edge if there's a parent) and persist
+        const { node: newNode, edge: newEdge } = createStoredNode({
+            parentId: parentId || null,
+            content: input.text,
+            response: output.text,
+            metadata: {
+                provider: choice.provider,
+                model: choice.model,
+                usage: toNodeUsage(aiResponse.usage),
+                ...toGenerationMetadata(params),
+                ...toModerationMetadata(input.verdict, files.verdict, output.verdict),
+                ...(attachments.length > 0 ? { attachments: attachments.map(toAttachmentMeta) } : {}),
+                ...(suggestions.length > 0 ? { suggestions } : {}),
+            },
+        });
+
+        await appendNode(mindmap, newNode, newEdge);
 
         return NextResponse.json(
             {
@@ -127,10 +186,13 @@ export async function POST(request: NextRequest) {
             { status: 200 }
         );
     } catch (error) {
+        // The parent was deleted, or the id taken, while the answer was generated
+        const failed = toAppendError(error);
+        if (failed) {
+            return NextResponse.json(failed.body, { status: failed.status });
+        }
+
         console.error('Update mindmap error:', error);
-        return NextResponse.json(
-            { error: 'Failed to update mindmap' },
-            { status: 500 }
-        );
+        return generationFailed(error, 'Failed to update mindmap');
     }
 }
@@ -0,0 +1,180 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUser } from '@/lib/auth';
+import { MindmapConflictResponse } from '@/lib/persistence';
+import {
+    getUserMindmapInfo,
+    saveMindmap,
+    deleteMindmap,
+    fromGraphNodes,
+    parseMindmapName,
+    openMindmap,
+    isMindmapConflictError,
+    StoredMindmapInfo,
+} from '@/lib/mindmapRepository';
+
+/**
+ * GET                       → OpenMindmapResponse
+ * PATCH SaveMindmapRequest  → OpenMindmapResponse
+ *       Both return the first page of nodes, like /api/mindmap/load;
+ *       get the rest from /api/mindmap/nodes.
+ *       name and graphData are each optional; graphData replaces the
+ *       whole graph (edges are rebuilt from parentId) and needs the
+ *       `version` it was loaded at. If the map changed since (another
+ *       tab added a node, ...) nothing is saved: 409 with the current
+ *       map, see MindmapConflictResponse
+ * DELETE                    → { success: true }
+ */
+
+async function conflict(mindmap: StoredMindmapInfo) {
+    const body: MindmapConflictResponse = {
+        error: 'This map was changed in another tab or window. Reload it and try again.',
+        code: 'conflict',
+        version: mindmap.version,
+        mindmap: await openMindmap(mindmap),
+    };
+    return NextResponse.json(body, { status: 409 });
+}
+
+export async function GET(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const user = await getCurrentUser();
+
+        if (!user) {
+            return NextResponse.json(
+                { error: 'Not authenticated' },
+                { status: 401 }
+            );
+        }
+
+        const { id } = await params;
+        const mindmap = await getUserMindmapInfo(user.userId, id);
+
+        if (!mindmap) {
+            return NextResponse.json(
+                { error: 'Mindmap not found' },
+                { status: 404 }
+            );
+        }
+
+        return NextResponse.json(await openMindmap(mindmap), { status: 200 });
+    } catch (error) {
+        console.error('Load mindmap error:', error);
+        return NextResponse.json(
+            { error: 'Failed to load mindmap' },
+            { status: 500 }
+        );
+    }
+}
+
+export async function PATCH(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const user = await getCurrentUser();
+
+        if (!user) {
+            return NextResponse.json(
+                { error: 'Not authenticated' },
+                { status: 401 }
+            );
+        }
+
+        const { id } = await params;
+        const { name, graphData, version } = await request.json();
+        const mindmapName = name === undefined ? undefined : parseMindmapName(name);
+
+        if (mindmapName === null) {
+            return NextResponse.json(
+                { error: 'Invalid name' },
+                { status: 400 }
+            );
+        }
+
+        if (graphData !== undefined && !Number.isInteger(version)) {
+            return NextResponse.json(
+                { error: 'version is required with graphData' },
+                { status: 400 }
+            );
+        }
+
+        const mindmap = await getUserMindmapInfo(user.userId, id);
+
+        if (!mindmap) {
+            return NextResponse.json(
+                { error: 'Mindmap not found' },
+                { status: 404 }
+            );
+        }
+
+        const graph = graphData === undefined
+            ? undefined
+            : fromGraphNodes(graphData?.nodes);
+
+        if (graph === null) {
+            return NextResponse.json(
+                { error: 'Invalid graphData' },
+                { status: 400 }
+            );
+        }
+
+        if (graph && version !== mindmap.version) {
+            return conflict(mindmap);
+        }
+
+        try {
+            const saved = await saveMindmap(mindmap, { name: mindmapName, graph });
+            return NextResponse.json(await openMindmap(saved), { status: 200 });
+        } catch (error) {
+            // Another write got in between loading the map and saving it
+            const current = isMindmapConflictError(error) && (await getUserMindmapInfo(user.userId, id));
+            if (current) return conflict(current);
+            throw error;
+        }
+    } catch (error) {
+        console.error('Save mindmap error:', error);
+        return NextResponse.json(
+            { error: 'Failed to save mindmap' },
+            { status: 500 }
+        );
+    }
+}
+
+export async function DELETE(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const user = await getCurrentUser();
+
+        if (!user) {
+            return NextResponse.json(
+                { error: 'Not authenticated' },
+                { status: 401 }
+            );
+        }
+
+        const { id } = await params;
+        const mindmap = await getUserMindmapInfo(user.userId, id);
+
+        if (!mindmap) {
+            return NextResponse.json(
+                { error: 'Mindmap not found' },
+                { status: 404 }
+            );
+        }
+
+        await deleteMindmap(mindmap);
+
+        return NextResponse.json({ success: true }, { status: 200 });
+    } catch (error) {
+        console.error('Delete mindmap error:', error);
+        return NextResponse.json(
+            { error: 'Failed to delete mindmap' },
+            { status: 500 }
+        );
+    }
+}
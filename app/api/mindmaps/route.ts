@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUser } from '@/lib/auth';
+import { DEFAULT_MINDMAP_NAME } from '@/lib/persistence';
+import {
+    listUserMindmaps,
+    createMindmap,
+    fromGraphNodes,
+    parseMindmapName,
+} from '@/lib/mindmapRepository';
+
+/**
+ * The user's mind maps.
+ *
+ * GET  → { mindmaps: MindmapSummary[] }   most recently updated first
+ * POST SaveMindmapRequest → { id, createdAt }
+ *      `id` is assigned here; without graphData the map starts empty
+ *      (see lib/persistence.ts)
+ */
+export async function GET() {
+    try {
+        const user = await getCurrentUser();
+
+        if (!user) {
+            return NextResponse.json(
+                { error: 'Not authenticated' },
+                { status: 401 }
+            );
+        }
+
+        const mindmaps = await listUserMindmaps(user.userId);
+
+        return NextResponse.json({ mindmaps }, { status: 200 });
+    } catch (error) {
+        console.error('List mindmaps error:', error);
+        return NextResponse.json(
+            { error: 'Failed to load mindmaps' },
+            { status: 500 }
+        );
+    }
+}
+
+export async function POST(request: NextRequest) {
+    try {
+        const user = await getCurrentUser();
+
+        if (!user) {
+            return NextResponse.json(
+                { error: 'Not authenticated' },
+                { status: 401 }
+            );
+        }
+
+        const { name, graphData } = await request.json();
+        const mindmapName = name === undefined ? DEFAULT_MINDMAP_NAME : parseMindmapName(name);
+
+        if (!mindmapName) {
+            return NextResponse.json(
+                { error: 'Invalid name' },
+                { status: 400 }
+            );
+        }
+
+        const graph = graphData === undefined ? undefined : fromGraphNodes(graphData?.nodes);
+
+        if (graph === null) {
+            return NextResponse.json(
+                { error: 'Invalid graphData' },
+                { status: 400 }
+            );
+        }
+
+        const mindmap = await createMindmap(user.userId, mindmapName, graph);
+
+        return NextResponse.json(
+            { id: mindmap.id, createdAt: mindmap.createdAt.toISOString() },
+            { status: 201 }
+        );
+    } catch (error) {
+        console.error('Create mindmap error:', error);
+        return NextResponse.json(
+            { error: 'Failed to create mindmap' },
+            { status: 500 }
+        );
+    }
+}
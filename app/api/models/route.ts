@@ -0,0 +1,43 @@
+import { NextResponse } from 'next/server';
+import { getCurrentUser } from '@/lib/auth';
+import { getProvider, listProviders, resolveModel } from '@/lib/llm';
+
+/**
+ * The models a query can pick (QueryBar's advanced settings).
+ *
+ * GET /api/models
+ *   → { default: "provider:model" | null, models: ["provider:model", ...] }
+ *   models lists each provider with its default model; any other model
+ *   id of a listed provider works too.
+ */
+export async function GET() {
+    try {
+        const user = await getCurrentUser();
+
+        if (!user) {
+            return NextResponse.json(
+                { error: 'Not authenticated' },
+                { status: 401 }
+            );
+        }
+
+        const fallback = resolveModel(null);
+        const models = listProviders().map(
+            (name) => `${name}:${getProvider(name).defaultModel}`
+        );
+
+        return NextResponse.json(
+            {
+                default: fallback ? `${fallback.provider}:${fallback.model}` : null,
+                models,
+            },
+            { status: 200 }
+        );
+    } catch (error) {
+        console.error('List models error:', error);
+        return NextResponse.json(
+            { error: 'Failed to list models' },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUser } from '@/lib/auth';
+import { validateTemplate } from '@/lib/promptTemplates';
+import { updateTemplate, deleteTemplate } from '@/lib/templateRepository';
+
+/**
+ * PATCH  { name, body } → { template }
+ * DELETE               → { success: true }
+ */
+export async function PATCH(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const user = await getCurrentUser();
+
+        if (!user) {
+            return NextResponse.json(
+                { error: 'Not authenticated' },
+                { status: 401 }
+            );
+        }
+
+        const { id } = await params;
+        const { name, body } = await request.json();
+        const invalid = validateTemplate({ name, body });
+
+        if (invalid) {
+            return NextResponse.json(
+                { error: invalid },
+                { status: 400 }
+            );
+        }
+
+        const template = await updateTemplate(user.userId, id, { name, body });
+
+        if (!template) {
+            return NextResponse.json(
+                { error: 'Template not found' },
+                { status: 404 }
+            );
+        }
+
+        return NextResponse.json({ template }, { status: 200 });
+    } catch (error) {
+        console.error('Update template error:', error);
+        return NextResponse.json(
+            { error: 'Failed to update template' },
+            { status: 500 }
+        );
+    }
+}
+
+export async function DELETE(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const user = await getCurrentUser();
+
+        if (!user) {
+            return NextResponse.json(
+                { error: 'Not authenticated' },
+                { status: 401 }
+            );
+        }
+
+        const { id } = await params;
+
+        if (!(await deleteTemplate(user.userId, id))) {
+            return NextResponse.json(
+                { error: 'Template not found' },
+                { status: 404 }
+            );
+        }
+
+        return NextResponse.json({ success: true }, { status: 200 });
+    } catch (error) {
+        console.error('Delete template error:', error);
+        return NextResponse.json(
+            { error: 'Failed to delete template' },
+            { status: 500 }
+        );
+    }
+}
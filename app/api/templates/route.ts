@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUser } from '@/lib/auth';
+import { MAX_TEMPLATES_PER_USER, validateTemplate } from '@/lib/promptTemplates';
+import { listTemplates, countTemplates, createTemplate } from '@/lib/templateRepository';
+
+/**
+ * The user's prompt templates (shared by all their mindmaps).
+ *
+ * GET  → { templates }
+ * POST { name, body } → { template }
+ */
+export async function GET() {
+    try {
+        const user = await getCurrentUser();
+
+        if (!user) {
+            return NextResponse.json(
+                { error: 'Not authenticated' },
+                { status: 401 }
+            );
+        }
+
+        const templates = await listTemplates(user.userId);
+
+        return NextResponse.json({ templates }, { status: 200 });
+    } catch (error) {
+        console.error('List templates error:', error);
+        return NextResponse.json(
+            { error: 'Failed to load templates' },
+            { status: 500 }
+        );
+    }
+}
+
+export async function POST(request: NextRequest) {
+    try {
+        const user = await getCurrentUser();
+
+        if (!user) {
+            return NextResponse.json(
+                { error: 'Not authenticated' },
+                { status: 401 }
+            );
+        }
+
+        const { name, body } = await request.json();
+        const invalid = validateTemplate({ name, body });
+
+        if (invalid) {
+            return NextResponse.json(
+                { error: invalid },
+                { status: 400 }
+            );
+        }
+
+        if ((await countTemplates(user.userId)) >= MAX_TEMPLATES_PER_USER) {
+            return NextResponse.json(
+                { error: `You can save up to ${MAX_TEMPLATES_PER_USER} templates` },
+                { status: 400 }
+            );
+        }
+
+        const template = await createTemplate(user.userId, { name, body });
+
+        return NextResponse.json({ template }, { status: 201 });
+    } catch (error) {
+        console.error('Create template error:', error);
+        return NextResponse.json(
+            { error: 'Failed to save template' },
+            { status: 500 }
+        );
+    }
+}
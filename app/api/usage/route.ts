@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUser } from '@/lib/auth';
+import { getUsageReport } from '@/lib/usageRepository';
+import { DEFAULT_USAGE_DAYS, MAX_USAGE_DAYS } from '@/lib/usage';
+
+/**
+ * The user's token usage and cost, rolled up per day, mindmap and model.
+ *
+ * GET /api/usage?days=<n>&mindmapId=<id>
+ *   days       — window ending today (default 30, max 365)
+ *   mindmapId  — restrict to one mindmap
+ *   → UsageReport (see lib/usage.ts)
+ */
+export async function GET(request: NextRequest) {
+    try {
+        const user = await getCurrentUser();
+
+        if (!user) {
+            return NextResponse.json(
+                { error: 'Not authenticated' },
+                { status: 401 }
+            );
+        }
+
+        const params = request.nextUrl.searchParams;
+        const days = Math.min(
+            MAX_USAGE_DAYS,
+            Math.max(1, Math.floor(Number(params.get('days')) || DEFAULT_USAGE_DAYS))
+        );
+        const mindmapId = params.get('mindmapId') || undefined;
+
+        const report = await getUsageReport(user.userId, days, mindmapId);
+
+        return NextResponse.json(report, { status: 200 });
+    } catch (error) {
+        console.error('Usage report error:', error);
+        return NextResponse.json(
+            { error: 'Failed to load usage' },
+            { status: 500 }
+        );
+    }
+}
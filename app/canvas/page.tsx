@@ -2,7 +2,8 @@
 
 import React, { useEffect, useState } from 'react';
 import { useRouter } from 'next/navigation';
-import { LogOut } from 'lucide-react';
+import Link from 'next/link';
+import { LogOut, BarChart3 } from 'lucide-react';
 import Canvas from '@/components/Canvas';
 import QueryBar from '@/components/QueryBar';
 
@@ -70,8 +71,16 @@ export default function CanvasPage() {
 
     return (
         <div className="relative w-screen h-screen overflow-hidden">
-            {/* Logout Button */}
-            <div className="absolute top-6 right-6 z-[1000]">
+            {/* Usage + Logout */}
+            <div className="absolute top-6 right-6 z-[1000] flex items-center gap-2">
+                <Link
+                    href="/usage"
+                    className="flex items-center gap-2 px-4 py-2.5 bg-white hover:bg-slate-50 text-slate-700 rounded-2xl text-sm font-bold shadow-lg transition-all border border-slate-200"
+                    title="Token usage and cost"
+                >
+                    <BarChart3 size={16} />
+                    <span>Usage</span>
+                </Link>
                 <button
                     onClick={handleLogout}
                     disabled={isLoggingOut}
@@ -0,0 +1,216 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { ArrowLeft, Loader2 } from 'lucide-react';
+import {
+    UsageReport,
+    UsageTotals,
+    formatCost,
+    formatLatency,
+    formatTokens,
+} from '@/lib/usage';
+
+const RANGES = [7, 30, 90];
+
+function totalTokens(totals: UsageTotals): number {
+    return totals.promptTokens + totals.completionTokens;
+}
+
+function StatCard({ label, value, detail }: { label: string; value: string; detail?: string }) {
+    return (
+        <div className="rounded-xl border border-slate-200 bg-white p-4 shadow-sm">
+            <p className="text-[10px] uppercase tracking-wider font-bold text-slate-400">{label}</p>
+            <p className="mt-1 text-2xl font-bold text-slate-800">{value}</p>
+            {detail && <p className="mt-0.5 text-xs text-slate-500">{detail}</p>}
+        </div>
+    );
+}
+
+function BreakdownTable({
+    title,
+    rows,
+}: {
+    title: string;
+    rows: Array<{ key: string; label: string; totals: UsageTotals }>;
+}) {
+    return (
+        <section className="rounded-xl border border-slate-200 bg-white shadow-sm overflow-hidden">
+            <h2 className="px-4 py-3 border-b border-slate-100 text-sm font-bold text-slate-700">{title}</h2>
+            {rows.length === 0 ? (
+                <p className="px-4 py-3 text-xs text-slate-400">No usage in this period.</p>
+            ) : (
+                <table className="w-full text-sm">
+                    <thead>
+                        <tr className="text-left text-[10px] uppercase tracking-wider text-slate-400">
+                            <th className="px-4 py-2 font-bold"></th>
+                            <th className="px-4 py-2 font-bold text-right">Calls</th>
+                            <th className="px-4 py-2 font-bold text-right">Tokens</th>
+                            <th className="px-4 py-2 font-bold text-right">Cost</th>
+                        </tr>
+                    </thead>
+                    <tbody className="divide-y divide-slate-100">
+                        {rows.map(({ key, label, totals }) => (
+                            <tr key={key} className="text-slate-600">
+                                <td className="px-4 py-2 font-medium text-slate-700 truncate max-w-[240px]">{label}</td>
+                                <td className="px-4 py-2 text-right font-mono">{totals.calls}</td>
+                                <td className="px-4 py-2 text-right font-mono">{formatTokens(totalTokens(totals))}</td>
+                                <td className="px-4 py-2 text-right font-mono">{formatCost(totals.costUsd)}</td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            )}
+        </section>
+    );
+}
+
+/**
+ * Token usage and cost dashboard (/api/usage): totals for the period,
+ * tokens per day, and breakdowns per mindmap and per model.
+ */
+export default function UsagePage() {
+    const router = useRouter();
+    const [days, setDays] = useState(30);
+    const [report, setReport] = useState<UsageReport | null>(null);
+    const [isLoading, setIsLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        const loadUsage = async () => {
+            setIsLoading(true);
+            try {
+                const response = await fetch(`/api/usage?days=${days}`);
+
+                if (response.status === 401) {
+                    router.push('/login');
+                    return;
+                }
+                if (!response.ok) throw new Error(`Failed to load usage: ${response.status}`);
+
+                setReport(await response.json());
+                setError(null);
+            } catch (err) {
+                console.error('Usage load error:', err);
+                setError('Could not load usage.');
+            } finally {
+                setIsLoading(false);
+            }
+        };
+
+        loadUsage();
+    }, [days, router]);
+
+    const peak = report ? Math.max(1, ...report.byDay.map(totalTokens)) : 1;
+
+    return (
+        <div className="min-h-screen bg-gray-50">
+            <div className="mx-auto max-w-5xl px-6 py-10 space-y-6">
+                <div className="flex items-center justify-between">
+                    <div className="flex items-center gap-3">
+                        <Link
+                            href="/canvas"
+                            className="p-2 rounded-lg text-slate-500 hover:bg-white hover:text-slate-800 transition-colors"
+                            title="Back to canvas"
+                        >
+                            <ArrowLeft size={18} />
+                        </Link>
+                        <h1 className="text-xl font-bold text-slate-800">Usage</h1>
+                        {isLoading && <Loader2 size={16} className="animate-spin text-slate-400" />}
+                    </div>
+                    <div className="flex rounded-lg border border-slate-200 bg-white p-0.5">
+                        {RANGES.map((range) => (
+                            <button
+                                key={range}
+                                onClick={() => setDays(range)}
+                                className={`px-3 py-1.5 rounded-md text-xs font-semibold transition-colors ${
+                                    days === range ? 'bg-slate-900 text-white' : 'text-slate-500 hover:text-slate-800'
+                                }`}
+                            >
+                                {range} days
+                            </button>
+                        ))}
+                    </div>
+                </div>
+
+                {error && <p className="text-sm font-medium text-red-600">{error}</p>}
+
+                {report && (
+                    <>
+                        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                            <StatCard
+                                label="Cost"
+                                value={formatCost(report.totals.costUsd)}
+                                detail="Models without a known price count as $0"
+                            />
+                            <StatCard
+                                label="Tokens"
+                                value={formatTokens(totalTokens(report.totals))}
+                                detail={`${formatTokens(report.totals.promptTokens)} in · ${formatTokens(report.totals.completionTokens)} out`}
+                            />
+                            <StatCard
+                                label="Model calls"
+                                value={String(report.totals.calls)}
+                                detail={
+                                    report.totals.estimatedCalls > 0
+                                        ? `${report.totals.estimatedCalls} with estimated tokens`
+                                        : undefined
+                                }
+                            />
+                            <StatCard
+                                label="Avg latency"
+                                value={
+                                    report.totals.calls > 0
+                                        ? formatLatency(report.totals.latencyMs / report.totals.calls)
+                                        : '—'
+                                }
+                            />
+                        </div>
+
+                        <section className="rounded-xl border border-slate-200 bg-white p-4 shadow-sm">
+                            <h2 className="text-sm font-bold text-slate-700 mb-4">Tokens per day</h2>
+                            <div className="flex items-end gap-[2px] h-40">
+                                {report.byDay.map((day) => (
+                                    <div
+                                        key={day.day}
+                                        className="flex-1 h-full flex flex-col justify-end group"
+                                        title={`${day.day}: ${formatTokens(totalTokens(day))} tokens, ${formatCost(day.costUsd)}, ${day.calls} calls`}
+                                    >
+                                        <div
+                                            className="w-full rounded-t bg-blue-500/80 group-hover:bg-blue-600 transition-colors"
+                                            style={{ height: `${(totalTokens(day) / peak) * 100}%` }}
+                                        />
+                                    </div>
+                                ))}
+                            </div>
+                            <div className="mt-2 flex justify-between text-[10px] font-mono text-slate-400">
+                                <span>{report.byDay[0]?.day}</span>
+                                <span>{report.byDay[report.byDay.length - 1]?.day}</span>
+                            </div>
+                        </section>
+
+                        <div className="grid md:grid-cols-2 gap-4">
+                            <BreakdownTable
+                                title="By mind map"
+                                rows={report.byMindmap.map((map) => ({
+                                    key: map.mindmapId,
+                                    label: map.mindmapId,
+                                    totals: map,
+                                }))}
+                            />
+                            <BreakdownTable
+                                title="By model"
+                                rows={report.byModel.map((model) => ({
+                                    key: `${model.provider}:${model.model}`,
+                                    label: `${model.provider}:${model.model}`,
+                                    totals: model,
+                                }))}
+                            />
+                        </div>
+                    </>
+                )}
+            </div>
+        </div>
+    );
+}
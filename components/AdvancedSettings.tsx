@@ -0,0 +1,235 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { RotateCcw, X } from 'lucide-react';
+import {
+  GenerationParams,
+  MAX_OUTPUT_TOKENS_LIMIT,
+  TEMPERATURE_MAX,
+  TEMPERATURE_MIN,
+  hasGenerationParams,
+} from '../lib/generationParams';
+
+interface AdvancedSettingsProps {
+  params: GenerationParams;
+  inherit: boolean; // "Branch with same settings"
+  onChange: (params: GenerationParams) => void;
+  onInheritChange: (inherit: boolean) => void;
+  bypassCache: boolean; // "Skip response cache"
+  onBypassCacheChange: (bypass: boolean) => void;
+  onClose: () => void;
+}
+
+// Where the temperature slider sits while the provider default is used
+const DEFAULT_SLIDER_TEMPERATURE = 1;
+
+/**
+ * Model, temperature and max output tokens for the next queries, opened
+ * from the QueryBar. Empty fields use the provider's defaults (or, with
+ * "Branch with same settings", the parent node's values).
+ * "Skip response cache" asks for fresh answers even when an identical
+ * question was answered recently (see lib/responseCache).
+ */
+const AdvancedSettings: React.FC<AdvancedSettingsProps> = ({
+  params,
+  inherit,
+  onChange,
+  onInheritChange,
+  bypassCache,
+  onBypassCacheChange,
+  onClose,
+}) => {
+  const [models, setModels] = useState<string[]>([]);
+  const [defaultModel, setDefaultModel] = useState<string | null>(null);
+
+  // Kept as typed so a half-typed number isn't thrown away
+  const [maxTokensText, setMaxTokensText] = useState(
+    params.maxOutputTokens !== undefined ? String(params.maxOutputTokens) : ''
+  );
+
+  useEffect(() => {
+    const handleEsc = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleEsc);
+    return () => window.removeEventListener('keydown', handleEsc);
+  }, [onClose]);
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        const res = await fetch('/api/models');
+        if (!res.ok) throw new Error(`Failed to load models: ${res.status}`);
+        const data: { default: string | null; models: string[] } = await res.json();
+        setModels(data.models);
+        setDefaultModel(data.default);
+      } catch (err) {
+        // The model field still takes free text
+        console.error('[AdvancedSettings] Load models error:', err);
+      }
+    };
+
+    load();
+  }, []);
+
+  const maxTokens = Number(maxTokensText);
+  const isMaxTokensValid =
+    maxTokensText.trim() === '' ||
+    (Number.isInteger(maxTokens) && maxTokens >= 1 && maxTokens <= MAX_OUTPUT_TOKENS_LIMIT);
+
+  const update = (changes: GenerationParams) => {
+    const next: GenerationParams = { ...params, ...changes };
+    // Unset fields are dropped, not sent as undefined
+    (Object.keys(next) as Array<keyof GenerationParams>).forEach((key) => {
+      if (next[key] === undefined) delete next[key];
+    });
+    onChange(next);
+  };
+
+  const handleMaxTokensChange = (text: string) => {
+    setMaxTokensText(text);
+    const value = Number(text);
+    if (text.trim() === '') {
+      update({ maxOutputTokens: undefined });
+    } else if (Number.isInteger(value) && value >= 1 && value <= MAX_OUTPUT_TOKENS_LIMIT) {
+      update({ maxOutputTokens: value });
+    }
+  };
+
+  const handleReset = () => {
+    setMaxTokensText('');
+    onChange({});
+  };
+
+  return (
+    <div className="absolute bottom-full right-4 mb-3 w-80 rounded-xl border border-slate-200 bg-white/95 backdrop-blur shadow-xl overflow-hidden">
+      <div className="flex items-center justify-between px-4 py-2.5 border-b border-slate-100">
+        <span className="text-xs font-bold text-slate-700">Advanced settings</span>
+        <div className="flex items-center gap-1">
+          {hasGenerationParams(params) && (
+            <button
+              type="button"
+              onClick={handleReset}
+              className="p-1 rounded text-slate-400 hover:text-slate-700 hover:bg-slate-100"
+              title="Reset to defaults"
+            >
+              <RotateCcw className="w-3.5 h-3.5" />
+            </button>
+          )}
+          <button
+            type="button"
+            onClick={onClose}
+            className="p-1 rounded text-slate-400 hover:text-slate-700 hover:bg-slate-100"
+            title="Close advanced settings"
+          >
+            <X className="w-3.5 h-3.5" />
+          </button>
+        </div>
+      </div>
+
+      <div className="p-4 space-y-4">
+        <label className="block">
+          <span className="block text-[10px] uppercase tracking-wider font-bold text-slate-400 mb-1">
+            Model
+          </span>
+          <input
+            type="text"
+            list="advanced-settings-models"
+            value={params.model ?? ''}
+            onChange={(e) => update({ model: e.target.value.trim() || undefined })}
+            placeholder={defaultModel ? `Default (${defaultModel})` : 'Default'}
+            className="w-full rounded-lg border border-slate-200 px-3 py-1.5 text-sm text-slate-700 outline-none focus:border-blue-400"
+          />
+          <datalist id="advanced-settings-models">
+            {models.map((model) => (
+              <option key={model} value={model} />
+            ))}
+          </datalist>
+        </label>
+
+        <div>
+          <div className="flex items-center justify-between mb-1">
+            <span className="text-[10px] uppercase tracking-wider font-bold text-slate-400">
+              Temperature
+            </span>
+            {params.temperature !== undefined ? (
+              <button
+                type="button"
+                onClick={() => update({ temperature: undefined })}
+                className="text-[11px] font-semibold text-slate-600 hover:text-slate-900"
+                title="Use the default"
+              >
+                {params.temperature.toFixed(1)} ×
+              </button>
+            ) : (
+              <span className="text-[11px] font-semibold text-slate-400">Default</span>
+            )}
+          </div>
+          <input
+            type="range"
+            min={TEMPERATURE_MIN}
+            max={TEMPERATURE_MAX}
+            step={0.1}
+            value={params.temperature ?? DEFAULT_SLIDER_TEMPERATURE}
+            onChange={(e) => update({ temperature: Number(e.target.value) })}
+            className={`w-full accent-blue-600 ${params.temperature === undefined ? 'opacity-40' : ''}`}
+          />
+        </div>
+
+        <label className="block">
+          <span className="block text-[10px] uppercase tracking-wider font-bold text-slate-400 mb-1">
+            Max output tokens
+          </span>
+          <input
+            type="number"
+            min={1}
+            max={MAX_OUTPUT_TOKENS_LIMIT}
+            value={maxTokensText}
+            onChange={(e) => handleMaxTokensChange(e.target.value)}
+            placeholder="Default"
+            className={`w-full rounded-lg border px-3 py-1.5 text-sm text-slate-700 outline-none ${
+              isMaxTokensValid ? 'border-slate-200 focus:border-blue-400' : 'border-red-300'
+            }`}
+          />
+          {!isMaxTokensValid && (
+            <span className="block mt-1 text-[11px] text-red-600">
+              A whole number from 1 to {MAX_OUTPUT_TOKENS_LIMIT}
+            </span>
+          )}
+        </label>
+
+        <label className="flex items-start gap-2 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={inherit}
+            onChange={(e) => onInheritChange(e.target.checked)}
+            className="mt-0.5 accent-blue-600"
+          />
+          <span>
+            <span className="block text-sm font-semibold text-slate-700">Branch with same settings</span>
+            <span className="block text-xs text-slate-500">
+              Follow-ups use their parent&apos;s settings for anything left empty here.
+            </span>
+          </span>
+        </label>
+
+        <label className="flex items-start gap-2 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={bypassCache}
+            onChange={(e) => onBypassCacheChange(e.target.checked)}
+            className="mt-0.5 accent-blue-600"
+          />
+          <span>
+            <span className="block text-sm font-semibold text-slate-700">Skip response cache</span>
+            <span className="block text-xs text-slate-500">
+              Always ask the model, even for a question it answered recently.
+            </span>
+          </span>
+        </label>
+      </div>
+    </div>
+  );
+};
+
+export default AdvancedSettings;
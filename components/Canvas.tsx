@@ -256,6 +256,7 @@ import React, { useCallback, useEffect, useState, useMemo, useRef } from 'react'
 import ReactFlow, {
   Background,
   Controls,
+  ControlButton,
   Node,
   Edge,
   ReactFlowInstance,
@@ -265,8 +266,17 @@ import ReactFlow, {
 } from 'reactflow';
 import 'reactflow/dist/style.css';
 
+import { Sparkles, Search, Link2, Settings2 } from 'lucide-react';
+
 import MindmapNode from './MindmapNode';
+import GhostNode from './GhostNode';
 import ExpansionModal from './ExpansionModal';
+import ExplorePanel from './ExplorePanel';
+import SearchPanel from './SearchPanel';
+import SettingsPanel from './SettingsPanel';
+import MindmapPicker from './MindmapPicker';
+import RelatedEdge from './RelatedEdge';
+import NodeContextMenu from './NodeContextMenu';
 
 import { useMindmapStore } from '../store/mindmapStore';
 import {
@@ -274,7 +284,17 @@ import {
   filterToViewport,
   computeViewportBounds,
   AIMindmapNodeData,
+  CanvasNodeData,
+  NodeActions,
 } from '../lib/reactFlowIntegration';
+import { setActiveVersion } from '../lib/versions';
+import { promoteAnswer } from '../lib/comparison';
+import { GhostNode as Ghost, isGhostId, withGhostNodes } from '../lib/ghosts';
+import { readSSE } from '../lib/sse';
+import { toApiError, getErrorMessage } from '../lib/apiErrors';
+import { GraphEdge, GraphNode, canMoveNode, getSubtreeSize } from '../lib/graph';
+import type { NodePage, OpenMindmapResponse } from '../lib/persistence';
+import type { ExploreJob } from '../lib/exploreJobs';
 
 /* ============================================================
    NODE TYPES — registered once, stable reference
@@ -282,69 +302,550 @@ import {
 
 const nodeTypes = {
   mindmap: MindmapNode,
+  ghost: GhostNode,
+};
+
+const edgeTypes = {
+  related: RelatedEdge,
 };
 
+/* ============================================================
+   HELPERS — immutable Set updates for pending-request state
+============================================================ */
+
+const withId = (ids: Set<string>, id: string) => new Set(ids).add(id);
+
+const withoutId = (ids: Set<string>, id: string) => {
+  const next = new Set(ids);
+  next.delete(id);
+  return next;
+};
+
+/**
+ * Loaded nodes that can go on the canvas now (parent in `known` or
+ * earlier in the list) and those still waiting for their parent.
+ * Adds the ready ones to `known`.
+ */
+function splitByParent(
+  known: Set<string>,
+  nodes: GraphNode[]
+): { ready: GraphNode[]; waiting: GraphNode[] } {
+  const ready: GraphNode[] = [];
+  let waiting = nodes;
+  let progress = true;
+
+  while (progress) {
+    progress = false;
+    const next: GraphNode[] = [];
+    for (const node of waiting) {
+      if (node.parentId === null || known.has(node.parentId)) {
+        ready.push(node);
+        known.add(node.id);
+        progress = true;
+      } else {
+        next.push(node);
+      }
+    }
+    waiting = next;
+  }
+
+  return { ready, waiting };
+}
+
+/** The map on screen, sent with every mindmap API call. */
+const currentMindmapId = () => useMindmapStore.getState().mindmapId;
+
+// The last opened map, reopened on the next visit
+const MINDMAP_STORAGE_KEY = 'mindmapId';
+
 /* ============================================================
    CANVAS
 ============================================================ */
 
 export default function Canvas() {
   // --- Store access ---
-  const { graph, layout, ui, hydrate, selectNode, deselectAll, expandNode } =
-    useMindmapStore();
+  const {
+    graph,
+    layout,
+    ui,
+    mindmapId,
+    hydrate,
+    setMindmapId,
+    addNode,
+    addNodes,
+    removeNode,
+    updateNode,
+    moveNode,
+    selectNode,
+    deselectAll,
+    expandNode,
+    toggleGhosts,
+    setRelatedEdges,
+    updateRelatedEdge,
+    toggleRelated,
+  } = useMindmapStore();
 
   // --- React Flow controlled state (what actually renders) ---
-  const [localNodes, setLocalNodes, onNodesChange] = useNodesState<AIMindmapNodeData>([]);
+  const [localNodes, setLocalNodes, onNodesChange] = useNodesState<CanvasNodeData>([]);
   const [localEdges, setLocalEdges, onEdgesChange] = useEdgesState([]);
 
   // --- React Flow instance (for viewport reading) ---
   const [rfInstance, setRfInstance] = useState<ReactFlowInstance | null>(null);
 
-  // --- Expansion modal ---
-  const [expandedNodeData, setExpandedNodeData] = useState<AIMindmapNodeData | null>(null);
-
   // --- Viewport change trigger (increments on pan/zoom to re-run visibility filter) ---
   const [viewportTick, setViewportTick] = useState(0);
   const viewportTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
 
+  // --- Ghost nodes whose question is being asked right now ---
+  const [pendingGhostIds, setPendingGhostIds] = useState<Set<string>>(new Set());
+
+  // --- Nodes whose branch is being summarized right now ---
+  const [pendingSummaryIds, setPendingSummaryIds] = useState<Set<string>>(new Set());
+
+  // --- Nodes being exploded into subtopics right now ---
+  const [pendingExplodeIds, setPendingExplodeIds] = useState<Set<string>>(new Set());
+
+  // --- Auto-explore job shown in the panel, and its open stream (if any) ---
+  const [exploreJob, setExploreJob] = useState<ExploreJob | null>(null);
+  const [exploreController, setExploreController] = useState<AbortController | null>(null);
+  const isExploring = exploreController !== null;
+
+  /* =================================================================
+     RELATED LINKS
+     Suggestions are computed server-side from embeddings and loaded
+     after the graph. Accept/dismiss are optimistic; a failed request
+     simply reloads the server's view.
+  ================================================================= */
+
+  const refreshRelated = useCallback(async () => {
+    try {
+      const id = currentMindmapId();
+      const res = await fetch(`/api/mindmap/related${id ? `?mindmapId=${encodeURIComponent(id)}` : ''}`);
+      if (!res.ok) throw new Error(`Related links failed: ${res.status}`);
+      const data: { links: GraphEdge[] } = await res.json();
+      setRelatedEdges(data.links);
+    } catch (err) {
+      console.error('[Canvas] Failed to load related links:', err);
+    }
+  }, [setRelatedEdges]);
+
+  const decideRelated = useCallback(
+    async (edgeId: string, action: 'accept' | 'dismiss') => {
+      const edge = useMindmapStore.getState().graph.edges.get(edgeId);
+      if (!edge) return;
+
+      updateRelatedEdge(edgeId, action === 'accept' ? { status: 'accepted' } : null);
+
+      try {
+        const res = await fetch('/api/mindmap/related', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            source: edge.source,
+            target: edge.target,
+            action,
+            mindmapId: currentMindmapId(),
+          }),
+        });
+        if (!res.ok) throw new Error(`Related link update failed: ${res.status}`);
+      } catch (err) {
+        console.error('[Canvas] Failed to update related link:', err);
+        refreshRelated();
+      }
+    },
+    [updateRelatedEdge, refreshRelated]
+  );
+
+  const handleAcceptRelated = useCallback(
+    (edgeId: string) => decideRelated(edgeId, 'accept'),
+    [decideRelated]
+  );
+
+  const handleDismissRelated = useCallback(
+    (edgeId: string) => decideRelated(edgeId, 'dismiss'),
+    [decideRelated]
+  );
+
+  const handleToggleRelated = useCallback(() => {
+    // Turning links back on picks up suggestions for nodes added since
+    if (!ui.showRelated) refreshRelated();
+    toggleRelated();
+  }, [ui.showRelated, refreshRelated, toggleRelated]);
+
   /* =================================================================
      MOUNT: fetch and hydrate
+     Opens the map used last (remembered in localStorage); the server
+     falls back to the most recent one if it is gone. The map picker
+     switches maps through the same path.
   ================================================================= */
 
-  useEffect(() => {
-    const load = async () => {
+  const loadMindmap = useCallback(
+    async (id: string | null) => {
       try {
-        const res = await fetch('/api/mindmap/load');
+        const res = await fetch(`/api/mindmap/load${id ? `?id=${encodeURIComponent(id)}` : ''}`);
         if (!res.ok) throw new Error(`Load failed: ${res.status}`);
-        const data = await res.json();
-
-        // Backend returns nodes with "query" field, but GraphNode expects "content".
-        // Transform the response to match our type system.
-        const transformedNodes = data.nodes.map((node: any) => ({
-          id: node.id,
-          parentId: node.parentId,
-          content: node.query,  // Map backend's "query" → frontend's "content"
-          response: node.response,
-          createdAt: node.createdAt,
-          metadata: node.metadata,
-        }));
-
-        hydrate(transformedNodes);
+        const data: OpenMindmapResponse = await res.json();
+
+        setMindmapId(data.id);
+        localStorage.setItem(MINDMAP_STORAGE_KEY, data.id);
+
+        // The first page shows right away, later pages as they arrive
+        let { ready, waiting } = splitByParent(new Set(), data.nodes);
+        hydrate(ready);
+
+        for (let cursor = data.nextCursor; cursor; ) {
+          const pageRes = await fetch(
+            `/api/mindmap/nodes?mindmapId=${encodeURIComponent(data.id)}&cursor=${encodeURIComponent(cursor)}`
+          );
+          if (!pageRes.ok) throw new Error(`Load failed: ${pageRes.status}`);
+          const page: NodePage = await pageRes.json();
+
+          // Another map was opened meanwhile
+          if (currentMindmapId() !== data.id) return;
+
+          const known = new Set(useMindmapStore.getState().graph.nodes.keys());
+          ({ ready, waiting } = splitByParent(known, [...waiting, ...page.nodes]));
+          if (ready.length > 0) addNodes(ready);
+          cursor = page.nextCursor;
+        }
+
+        // Parents that never came (deleted while loading): hydrate()
+        // shows their children as roots
+        if (waiting.length > 0) {
+          hydrate([...useMindmapStore.getState().graph.nodes.values(), ...waiting]);
+        }
+        refreshRelated();
       } catch (err) {
         console.error('[Canvas] Failed to load mindmap:', err);
       }
-    };
-    load();
-  }, [hydrate]);
+    },
+    [hydrate, addNodes, setMindmapId, refreshRelated]
+  );
+
+  useEffect(() => {
+    loadMindmap(localStorage.getItem(MINDMAP_STORAGE_KEY));
+  }, [loadMindmap]);
 
   /* =================================================================
      EXPAND CALLBACK
      Passed down into each node's data so it can trigger the modal.
   ================================================================= */
 
-  const handleExpandClick = useCallback((data: AIMindmapNodeData) => {
-    setExpandedNodeData(data);
-  }, []);
+  const handleExpandClick = useCallback(
+    (data: AIMindmapNodeData) => {
+      expandNode(data.nodeId);
+    },
+    [expandNode]
+  );
+
+  /* =================================================================
+     VERSION CALLBACKS
+     Regenerate appends a new answer version server-side; selecting a
+     version (or promoting a comparison answer) is applied optimistically
+     and rolled back on failure.
+     All are content-only updateNode() calls (no relayout).
+  ================================================================= */
+
+  const handleRegenerate = useCallback(
+    async (nodeId: string) => {
+      const node = useMindmapStore.getState().graph.nodes.get(nodeId);
+      const status = node?.metadata?.status;
+      if (!node || status === 'streaming' || status === 'regenerating') return;
+
+      updateNode(nodeId, { metadata: { ...node.metadata, status: 'regenerating' } });
+
+      try {
+        const res = await fetch('/api/mindmap/regenerate', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ nodeId, mindmapId: currentMindmapId() }),
+        });
+        if (!res.ok) throw await toApiError(res, 'Regenerate failed');
+
+        const data = await res.json();
+        updateNode(nodeId, {
+          response: data.node.response,
+          metadata: data.node.metadata,
+        });
+      } catch (err) {
+        console.error('[Canvas] Failed to regenerate node:', err);
+        updateNode(nodeId, { metadata: node.metadata });
+        alert(getErrorMessage(err, 'Failed to regenerate response.'));
+      }
+    },
+    [updateNode]
+  );
+
+  const handleSelectVersion = useCallback(
+    async (nodeId: string, versionId: string) => {
+      const node = useMindmapStore.getState().graph.nodes.get(nodeId);
+      if (!node) return;
+
+      const updates = setActiveVersion(node, versionId);
+      if (!updates) return;
+      updateNode(nodeId, updates);
+
+      try {
+        const res = await fetch('/api/mindmap/activate-version', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ nodeId, versionId, mindmapId: currentMindmapId() }),
+        });
+        if (!res.ok) throw new Error(`Activate version failed: ${res.status}`);
+      } catch (err) {
+        console.error('[Canvas] Failed to switch version:', err);
+        updateNode(nodeId, { response: node.response, metadata: node.metadata });
+      }
+    },
+    [updateNode]
+  );
+
+  const handlePromote = useCallback(
+    async (nodeId: string, versionId: string) => {
+      const node = useMindmapStore.getState().graph.nodes.get(nodeId);
+      if (!node) return;
+
+      const updates = promoteAnswer(node, versionId);
+      if (!updates) return;
+      updateNode(nodeId, updates);
+
+      try {
+        const res = await fetch('/api/mindmap/promote', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ nodeId, versionId, mindmapId: currentMindmapId() }),
+        });
+        if (!res.ok) throw new Error(`Promote failed: ${res.status}`);
+      } catch (err) {
+        console.error('[Canvas] Failed to promote answer:', err);
+        updateNode(nodeId, { response: node.response, metadata: node.metadata });
+      }
+    },
+    [updateNode]
+  );
+
+  /* =================================================================
+     GHOST CALLBACK
+     Turns a suggested follow-up into a real child through the regular
+     /api/mindmap/update path. Once the child exists the ghost is no
+     longer derived (see lib/ghosts.ts), so it is replaced in place.
+  ================================================================= */
+
+  const handleActivateGhost = useCallback(
+    async (ghost: Ghost) => {
+      setPendingGhostIds((ids) => withId(ids, ghost.id));
+
+      try {
+        const res = await fetch('/api/mindmap/update', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            query: ghost.question,
+            parentId: ghost.parentId,
+            mindmapId: currentMindmapId(),
+          }),
+        });
+        if (!res.ok) throw await toApiError(res, 'Update failed');
+
+        const data: { node: GraphNode } = await res.json();
+        addNode(data.node);
+      } catch (err) {
+        console.error('[Canvas] Failed to ask suggested follow-up:', err);
+        alert(getErrorMessage(err, 'Failed to create node.'));
+      } finally {
+        setPendingGhostIds((ids) => withoutId(ids, ghost.id));
+      }
+    },
+    [addNode]
+  );
+
+  /* =================================================================
+     SUMMARY CALLBACK
+     The server summarizes the node's whole subtree and returns the
+     synthesis as a new child node (metadata.kind = 'summary').
+  ================================================================= */
+
+  const handleSummarize = useCallback(
+    async (nodeId: string) => {
+      setPendingSummaryIds((ids) => withId(ids, nodeId));
+
+      try {
+        const res = await fetch('/api/mindmap/summarize', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ nodeId, mindmapId: currentMindmapId() }),
+        });
+        if (!res.ok) throw await toApiError(res, 'Summarize failed');
+
+        const data: { node: GraphNode } = await res.json();
+        addNode(data.node);
+      } catch (err) {
+        console.error('[Canvas] Failed to summarize branch:', err);
+        alert(getErrorMessage(err, 'Failed to summarize branch.'));
+      } finally {
+        setPendingSummaryIds((ids) => withoutId(ids, nodeId));
+      }
+    },
+    [addNode]
+  );
+
+  /* =================================================================
+     EXPLODE CALLBACK
+     The server returns one answered child per subtopic; they are added
+     in a single batch so the layout is recomputed once.
+  ================================================================= */
+
+  const handleExplode = useCallback(
+    async (nodeId: string) => {
+      setPendingExplodeIds((ids) => withId(ids, nodeId));
+
+      try {
+        const res = await fetch('/api/mindmap/explode', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ nodeId, mindmapId: currentMindmapId() }),
+        });
+        if (!res.ok) throw await toApiError(res, 'Explode failed');
+
+        const data: { nodes: GraphNode[] } = await res.json();
+        addNodes(data.nodes);
+      } catch (err) {
+        console.error('[Canvas] Failed to explode node:', err);
+        alert(getErrorMessage(err, 'Failed to explode node.'));
+      } finally {
+        setPendingExplodeIds((ids) => withoutId(ids, nodeId));
+      }
+    },
+    [addNodes]
+  );
+
+  /* =================================================================
+     AUTO-EXPLORE
+     The job runs server-side and streams each node as it is created;
+     closing the stream pauses it (resumable), Stop cancels it.
+     Unfinished jobs of the open map are picked up so they can be resumed.
+  ================================================================= */
+
+  useEffect(() => {
+    if (!mindmapId) return;
+
+    const loadJobs = async () => {
+      try {
+        const res = await fetch(`/api/mindmap/explore?mindmapId=${encodeURIComponent(mindmapId)}`);
+        if (!res.ok) return;
+        const data: { jobs: ExploreJob[] } = await res.json();
+        if (data.jobs.length > 0) setExploreJob(data.jobs[0]);
+      } catch (err) {
+        console.error('[Canvas] Failed to load explore jobs:', err);
+      }
+    };
+    loadJobs();
+  }, [mindmapId]);
+
+  const runExplore = useCallback(
+    async (body: { nodeId: string } | { jobId: string }) => {
+      const controller = new AbortController();
+      setExploreController(controller);
+
+      try {
+        const res = await fetch('/api/mindmap/explore', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ ...body, mindmapId: currentMindmapId() }),
+          signal: controller.signal,
+        });
+
+        if (!res.ok) {
+          const data = await res.json().catch(() => ({}));
+          if (data.job) setExploreJob(data.job);
+          throw new Error(data.error || `Explore failed: ${res.status}`);
+        }
+
+        await readSSE(res, ({ event, data }) => {
+          if (event === 'node') {
+            const { node } = data as { node: GraphNode };
+            const nodes = useMindmapStore.getState().graph.nodes;
+            // Skip nodes whose parent this tab doesn't have (e.g. deleted)
+            if (nodes.has(node.id) || (node.parentId && !nodes.has(node.parentId))) return;
+            addNode(node);
+          } else if (event === 'job' || event === 'done' || event === 'error') {
+            setExploreJob((data as { job: ExploreJob }).job);
+          }
+        });
+      } catch (err) {
+        if (controller.signal.aborted) return;
+        console.error('[Canvas] Auto-explore failed:', err);
+        alert(err instanceof Error ? err.message : 'Auto-explore failed.');
+      } finally {
+        setExploreController((current) => (current === controller ? null : current));
+      }
+    },
+    [addNode]
+  );
+
+  const handleAutoExplore = useCallback(
+    (nodeId: string) => {
+      if (isExploring) return;
+      runExplore({ nodeId });
+    },
+    [isExploring, runExplore]
+  );
+
+  const handlePauseExplore = useCallback(() => {
+    exploreController?.abort();
+    setExploreJob((job) => (job ? { ...job, status: 'paused' } : job));
+  }, [exploreController]);
+
+  const handleResumeExplore = useCallback(() => {
+    if (exploreJob) runExplore({ jobId: exploreJob.id });
+  }, [exploreJob, runExplore]);
+
+  const handleCancelExplore = useCallback(async () => {
+    if (!exploreJob) return;
+
+    try {
+      const res = await fetch('/api/mindmap/explore/cancel', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ jobId: exploreJob.id }),
+      });
+      if (!res.ok) throw new Error(`Cancel failed: ${res.status}`);
+
+      const data: { job: ExploreJob } = await res.json();
+      setExploreJob(data.job);
+    } catch (err) {
+      console.error('[Canvas] Failed to cancel auto-explore:', err);
+    } finally {
+      exploreController?.abort();
+    }
+  }, [exploreJob, exploreController]);
+
+  const nodeActions = useMemo<NodeActions>(
+    () => ({
+      onExpand: handleExpandClick,
+      onRegenerate: handleRegenerate,
+      onSelectVersion: handleSelectVersion,
+      onSummarize: handleSummarize,
+      onExplode: handleExplode,
+      onAutoExplore: handleAutoExplore,
+      onPromote: handlePromote,
+      onActivateGhost: handleActivateGhost,
+      onAcceptRelated: handleAcceptRelated,
+      onDismissRelated: handleDismissRelated,
+    }),
+    [
+      handleExpandClick,
+      handleRegenerate,
+      handleSelectVersion,
+      handleSummarize,
+      handleExplode,
+      handleAutoExplore,
+      handlePromote,
+      handleActivateGhost,
+      handleAcceptRelated,
+      handleDismissRelated,
+    ]
+  );
 
   /* =================================================================
      CONVERT: graph + layout → React Flow elements (all nodes)
@@ -352,8 +853,38 @@ export default function Canvas() {
   ================================================================= */
 
   const { nodes: allNodes, edges: allEdges } = useMemo(() => {
-    return graphToReactFlowElements(graph, layout, handleExpandClick);
-  }, [graph, layout, handleExpandClick]);
+    const renderGraph = ui.showGhosts ? withGhostNodes(graph) : graph;
+    return graphToReactFlowElements(renderGraph, layout, nodeActions, {
+      pendingGhostIds,
+      pendingSummaryIds,
+      pendingExplodeIds,
+      autoExploreRootId: isExploring ? exploreJob?.rootNodeId : null,
+      hideRelated: !ui.showRelated,
+    });
+  }, [
+    graph,
+    layout,
+    nodeActions,
+    ui.showGhosts,
+    ui.showRelated,
+    pendingGhostIds,
+    pendingSummaryIds,
+    pendingExplodeIds,
+    isExploring,
+    exploreJob?.rootNodeId,
+  ]);
+
+  /* =================================================================
+     EXPANDED NODE
+     Derived from the graph (not snapshotted) so the modal follows
+     live updates such as a response that is still streaming in.
+  ================================================================= */
+
+  const expandedNodeData = useMemo(() => {
+    if (!ui.expandedNodeId) return null;
+    const node = allNodes.find((n) => n.id === ui.expandedNodeId && n.type === 'mindmap');
+    return (node?.data as AIMindmapNodeData | undefined) ?? null;
+  }, [allNodes, ui.expandedNodeId]);
 
   /* =================================================================
      VIEWPORT FILTER: only render nodes near the camera
@@ -402,18 +933,134 @@ export default function Canvas() {
     }, 100);
   }, []);
 
+  /* =================================================================
+     NODE EDITS
+     Right-click opens the node's menu. Edits, moves and deletes are
+     saved first and applied to the store once the server accepts them,
+     so the canvas never shows a tree the server refused.
+     "Move under…" waits for the next node click to pick the new parent.
+  ================================================================= */
+
+  const [contextMenu, setContextMenu] = useState<{ nodeId: string; x: number; y: number } | null>(null);
+  const [movingNodeId, setMovingNodeId] = useState<string | null>(null);
+
+  const onNodeContextMenu = useCallback((event: React.MouseEvent, node: Node) => {
+    if (isGhostId(node.id)) return;
+    event.preventDefault();
+    setMovingNodeId(null);
+    setContextMenu({ nodeId: node.id, x: event.clientX, y: event.clientY });
+  }, []);
+
+  const handleEditNode = useCallback(
+    async (nodeId: string, content: string) => {
+      try {
+        const res = await fetch('/api/mindmap/edit', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ nodeId, content, mindmapId: currentMindmapId() }),
+        });
+        if (!res.ok) throw await toApiError(res, 'Edit failed');
+
+        const data: { node: GraphNode } = await res.json();
+        updateNode(nodeId, { content: data.node.content, metadata: data.node.metadata });
+      } catch (err) {
+        console.error('[Canvas] Failed to edit node:', err);
+        alert(getErrorMessage(err, 'Failed to edit node.'));
+      }
+    },
+    [updateNode]
+  );
+
+  const handleMoveNode = useCallback(
+    async (nodeId: string, parentId: string | null) => {
+      if (!canMoveNode(useMindmapStore.getState().graph, nodeId, parentId)) {
+        alert('A node cannot be moved under itself or one of its descendants.');
+        return;
+      }
+
+      try {
+        const res = await fetch('/api/mindmap/move', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ nodeId, parentId, mindmapId: currentMindmapId() }),
+        });
+        if (!res.ok) throw await toApiError(res, 'Move failed');
+
+        moveNode(nodeId, parentId);
+      } catch (err) {
+        console.error('[Canvas] Failed to move node:', err);
+        alert(getErrorMessage(err, 'Failed to move node.'));
+      }
+    },
+    [moveNode]
+  );
+
+  const handleDeleteNode = useCallback(
+    async (nodeId: string) => {
+      const size = getSubtreeSize(useMindmapStore.getState().graph, nodeId);
+      const message =
+        size > 1
+          ? `Delete this node and its ${size - 1} descendant${size > 2 ? 's' : ''}? This cannot be undone.`
+          : 'Delete this node? This cannot be undone.';
+      if (!confirm(message)) return;
+
+      try {
+        const res = await fetch('/api/mindmap/delete', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ nodeId, mindmapId: currentMindmapId() }),
+        });
+        if (!res.ok) throw await toApiError(res, 'Delete failed');
+
+        // The server cancelled any auto-explore rooted in the branch
+        const data: { nodeIds: string[] } = await res.json();
+        if (exploreJob && data.nodeIds.includes(exploreJob.rootNodeId)) {
+          exploreController?.abort();
+          setExploreJob(null);
+        }
+        removeNode(nodeId);
+      } catch (err) {
+        console.error('[Canvas] Failed to delete node:', err);
+        alert(getErrorMessage(err, 'Failed to delete node.'));
+      }
+    },
+    [removeNode, exploreJob, exploreController]
+  );
+
+  useEffect(() => {
+    if (!movingNodeId) return;
+    const handleEsc = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') setMovingNodeId(null);
+    };
+    window.addEventListener('keydown', handleEsc);
+    return () => window.removeEventListener('keydown', handleEsc);
+  }, [movingNodeId]);
+
+  const contextMenuNode = contextMenu ? graph.nodes.get(contextMenu.nodeId) : undefined;
+
   /* =================================================================
      INTERACTION HANDLERS
   ================================================================= */
 
   const onNodeClick = useCallback(
     (_: React.MouseEvent, node: Node) => {
+      // Ghosts handle their own clicks and can't be branched from
+      if (isGhostId(node.id)) return;
+
+      // Picking the new parent of a node being moved
+      if (movingNodeId) {
+        setMovingNodeId(null);
+        if (node.id !== movingNodeId) handleMoveNode(movingNodeId, node.id);
+        return;
+      }
+
       selectNode(node.id);
     },
-    [selectNode]
+    [selectNode, movingNodeId, handleMoveNode]
   );
 
   const onPaneClick = useCallback(() => {
+    setMovingNodeId(null);
     deselectAll();
   }, [deselectAll]);
 
@@ -421,6 +1068,51 @@ export default function Canvas() {
     setRfInstance(instance);
   }, []);
 
+  /* =================================================================
+     SEARCH
+     Selecting a result selects the node and flies the camera to it;
+     the move events re-run viewport culling on the way.
+  ================================================================= */
+
+  const [searchOpen, setSearchOpen] = useState(false);
+
+  const handleSearchSelect = useCallback(
+    (nodeId: string) => {
+      const nodeLayout = layout.nodes.get(nodeId);
+      if (!nodeLayout) return;
+
+      selectNode(nodeId);
+      rfInstance?.setCenter(
+        nodeLayout.x + nodeLayout.width / 2,
+        nodeLayout.y + nodeLayout.height / 2,
+        { zoom: Math.max(rfInstance.getZoom(), 0.8), duration: 800 }
+      );
+    },
+    [layout, rfInstance, selectNode]
+  );
+
+  /* =================================================================
+     SETTINGS
+     The map's prompt settings; the panel loads and saves them itself.
+  ================================================================= */
+
+  const [settingsOpen, setSettingsOpen] = useState(false);
+
+  /* =================================================================
+     MAPS
+     Switching maps pauses a running auto-explore (closing its stream)
+     and loads the other map; null opens the most recent one.
+  ================================================================= */
+
+  const handleSwitchMindmap = useCallback(
+    (id: string | null) => {
+      exploreController?.abort();
+      setExploreJob(null);
+      loadMindmap(id);
+    },
+    [exploreController, loadMindmap]
+  );
+
   /* =================================================================
      RENDER
   ================================================================= */
@@ -431,7 +1123,7 @@ export default function Canvas() {
 
         {/* Performance Indicator — DEV ONLY */}
         {process.env.NODE_ENV === 'development' && allNodes.length > 0 && (
-          <div className="pointer-events-none absolute top-4 left-4 z-50">
+          <div className="pointer-events-none absolute top-20 left-6 z-50">
             <div className="min-w-[220px] rounded-xl border border-white/10 bg-black/70 backdrop-blur-xl px-4 py-3 text-white shadow-xl">
               <div className="mb-2 flex items-center justify-between">
                 <span className="text-xs font-semibold tracking-wide text-white/80">
@@ -478,11 +1170,13 @@ export default function Canvas() {
           onNodesChange={onNodesChange}
           onEdgesChange={onEdgesChange}
           onNodeClick={onNodeClick}
+          onNodeContextMenu={onNodeContextMenu}
           onPaneClick={onPaneClick}
           onInit={onInit}
           onMove={handleViewportChange}
           onMoveEnd={handleViewportChange}
           nodeTypes={nodeTypes}
+          edgeTypes={edgeTypes}
           nodesDraggable={false}
           nodesConnectable={false}
           fitView
@@ -495,15 +1189,103 @@ export default function Canvas() {
             size={2}
             color="#d1d5db"
           />
-          <Controls />
+          <Controls>
+            <ControlButton
+              onClick={() => setSearchOpen((open) => !open)}
+              title="Search nodes"
+            >
+              <Search
+                size={14}
+                className={searchOpen ? 'text-blue-500' : 'text-slate-400'}
+              />
+            </ControlButton>
+            <ControlButton
+              onClick={handleToggleRelated}
+              title={ui.showRelated ? 'Hide related links' : 'Show related links'}
+            >
+              <Link2
+                size={14}
+                className={ui.showRelated ? 'text-indigo-500' : 'text-slate-400'}
+              />
+            </ControlButton>
+            <ControlButton
+              onClick={toggleGhosts}
+              title={ui.showGhosts ? 'Hide suggested follow-ups' : 'Show suggested follow-ups'}
+            >
+              <Sparkles
+                size={14}
+                className={ui.showGhosts ? 'text-blue-500' : 'text-slate-400'}
+              />
+            </ControlButton>
+            <ControlButton
+              onClick={() => setSettingsOpen(true)}
+              title="Answer style for this map"
+            >
+              <Settings2 size={14} className="text-slate-400" />
+            </ControlButton>
+          </Controls>
         </ReactFlow>
+
+        <MindmapPicker mindmapId={mindmapId} onSwitch={handleSwitchMindmap} />
+
+        {movingNodeId && (
+          <div className="pointer-events-none absolute top-6 left-1/2 -translate-x-1/2 z-50 rounded-xl bg-slate-900/90 px-4 py-2 text-sm font-medium text-white shadow-lg">
+            Click the new parent node · Esc to cancel
+          </div>
+        )}
+
+        {contextMenu && contextMenuNode && (
+          <NodeContextMenu
+            key={contextMenu.nodeId}
+            node={contextMenuNode}
+            x={contextMenu.x}
+            y={contextMenu.y}
+            onEdit={(content) => handleEditNode(contextMenu.nodeId, content)}
+            onStartMove={() => {
+              setMovingNodeId(contextMenu.nodeId);
+              setContextMenu(null);
+            }}
+            onMakeRoot={() => {
+              handleMoveNode(contextMenu.nodeId, null);
+              setContextMenu(null);
+            }}
+            onDelete={() => {
+              handleDeleteNode(contextMenu.nodeId);
+              setContextMenu(null);
+            }}
+            onClose={() => setContextMenu(null)}
+          />
+        )}
+
+        {searchOpen && (
+          <SearchPanel
+            mindmapId={mindmapId}
+            onSelect={handleSearchSelect}
+            onClose={() => setSearchOpen(false)}
+          />
+        )}
+
+        {settingsOpen && (
+          <SettingsPanel mindmapId={mindmapId} onClose={() => setSettingsOpen(false)} />
+        )}
+
+        {exploreJob && (
+          <ExplorePanel
+            job={exploreJob}
+            isConnected={isExploring}
+            onPause={handlePauseExplore}
+            onResume={handleResumeExplore}
+            onCancel={handleCancelExplore}
+            onDismiss={() => setExploreJob(null)}
+          />
+        )}
       </div>
 
       {/* Expansion modal — rendered when a node's "expand" button is clicked */}
       {expandedNodeData && (
         <ExpansionModal
           data={expandedNodeData}
-          onClose={() => setExpandedNodeData(null)}
+          onClose={() => expandNode(null)}
         />
       )}
     </>
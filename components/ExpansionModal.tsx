@@ -1,13 +1,44 @@
 import React, { useEffect } from 'react';
 import ReactMarkdown from 'react-markdown';
-import { X, Clock, MessageSquare, Bot } from 'lucide-react';
+import { X, Clock, MessageSquare, Bot, Loader2, RefreshCw, Layers, Network, Compass, BookOpen, Paperclip, Download, Columns2, Crown, SlidersHorizontal, ShieldAlert } from 'lucide-react';
 import { AIMindmapNodeData } from '../lib/reactFlowIntegration';
+import { formatBytes } from '../lib/attachments';
+import { NodeUsage, formatCost, formatLatency, formatTokens } from '../lib/usage';
+import { hasGenerationParams } from '../lib/generationParams';
+import { getModerationCategories } from '../lib/moderation/verdict';
 
 interface ExpansionModalProps {
   data: AIMindmapNodeData | null;
   onClose: () => void;
 }
 
+/**
+ * Tokens · latency · cost of one answer, or "cached" for an answer
+ * served from the response cache.
+ */
+const UsageLine: React.FC<{ usage: NodeUsage; className?: string }> = ({ usage, className }) => {
+  if (usage.cached) {
+    return (
+      <span className={className} title="Answered from the response cache; no tokens used">
+        cached · {formatLatency(usage.latencyMs)}
+      </span>
+    );
+  }
+
+  return (
+    <span
+      className={className}
+      title={`${usage.promptTokens} prompt + ${usage.completionTokens} completion tokens${usage.estimated ? ' (estimated)' : ''}`}
+    >
+      {usage.estimated ? '~' : ''}
+      {formatTokens(usage.promptTokens + usage.completionTokens)} tokens
+      {' · '}
+      {formatLatency(usage.latencyMs)}
+      {usage.costUsd !== null && ` · ${formatCost(usage.costUsd)}`}
+    </span>
+  );
+};
+
 const ExpansionModal: React.FC<ExpansionModalProps> = ({ data, onClose }) => {
   useEffect(() => {
     const handleEsc = (e: KeyboardEvent) => {
@@ -19,6 +50,11 @@ const ExpansionModal: React.FC<ExpansionModalProps> = ({ data, onClose }) => {
 
   if (!data) return null;
 
+  const isGenerating = data.isStreaming || data.isRegenerating;
+  const isSummary = data.kind === 'summary';
+  const isMapAnswer = data.kind === 'map-answer';
+  const comparison = data.comparison;
+
   return (
     <div className="fixed inset-0 z-[9999] flex items-center justify-center p-4 sm:p-6 md:p-10">
       <div 
@@ -26,19 +62,101 @@ const ExpansionModal: React.FC<ExpansionModalProps> = ({ data, onClose }) => {
         onClick={onClose}
       />
       
-      <div className="relative bg-white w-full max-w-3xl max-h-[90vh] rounded-2xl shadow-2xl flex flex-col overflow-hidden animate-in fade-in zoom-in duration-200">
+      <div className={`relative bg-white w-full ${comparison ? 'max-w-5xl' : 'max-w-3xl'} max-h-[90vh] rounded-2xl shadow-2xl flex flex-col overflow-hidden animate-in fade-in zoom-in duration-200`}>
         {/* Header */}
         <div className="flex items-center justify-between p-6 border-b border-slate-100 bg-white sticky top-0 z-10">
           <div className="flex items-center gap-3">
-            <div className="w-10 h-10 rounded-full bg-blue-50 flex items-center justify-center text-blue-600">
-              <MessageSquare size={20} />
+            <div
+              className={`w-10 h-10 rounded-full flex items-center justify-center ${
+                isSummary
+                  ? 'bg-violet-50 text-violet-600'
+                  : isMapAnswer
+                    ? 'bg-amber-50 text-amber-600'
+                    : comparison
+                      ? 'bg-teal-50 text-teal-600'
+                      : 'bg-blue-50 text-blue-600'
+              }`}
+            >
+              {isSummary ? (
+                <Layers size={20} />
+              ) : isMapAnswer ? (
+                <BookOpen size={20} />
+              ) : comparison ? (
+                <Columns2 size={20} />
+              ) : (
+                <MessageSquare size={20} />
+              )}
             </div>
             <div>
-              <h2 className="text-lg font-bold text-slate-800">Thread Details</h2>
+              <h2 className="text-lg font-bold text-slate-800">
+                {isSummary
+                  ? 'Branch Synthesis'
+                  : isMapAnswer
+                    ? 'Map Answer'
+                    : comparison
+                      ? 'Model Comparison'
+                      : 'Thread Details'}
+              </h2>
+              {isMapAnswer && (
+                <p className="text-xs text-amber-600 font-medium">
+                  Based on {data.sourceNodeIds.length} node{data.sourceNodeIds.length === 1 ? '' : 's'} from your map
+                </p>
+              )}
+              {comparison && (
+                <p className="text-xs text-teal-600 font-medium">
+                  {comparison.promotedVersionId
+                    ? 'Follow-ups continue from the promoted answer'
+                    : 'Promote one answer to continue from it'}
+                </p>
+              )}
               <div className="flex items-center gap-2 text-xs text-slate-400 font-medium mt-0.5">
-                <Clock size={12} />
-                <span>Generated at {data.timestamp}</span>
+                {data.isStreaming ? (
+                  <>
+                    <Loader2 size={12} className="animate-spin" />
+                    <span>Generating...</span>
+                  </>
+                ) : (
+                  <>
+                    <Clock size={12} />
+                    <span>Generated at {data.timestamp}</span>
+                    {/* Comparisons show usage per answer instead */}
+                    {data.usage && !comparison && (
+                      <>
+                        <span className="text-slate-300">·</span>
+                        <UsageLine usage={data.usage} className="text-slate-300" />
+                      </>
+                    )}
+                  </>
+                )}
               </div>
+              {hasGenerationParams(data.generation) && (
+                <div
+                  className="flex items-center gap-1.5 text-xs text-slate-400 font-medium mt-0.5"
+                  title="Generation settings chosen for this query"
+                >
+                  <SlidersHorizontal size={12} />
+                  <span>
+                    {[
+                      data.generation.model,
+                      data.generation.temperature !== undefined &&
+                        `temperature ${data.generation.temperature}`,
+                      data.generation.maxOutputTokens !== undefined &&
+                        `max ${formatTokens(data.generation.maxOutputTokens)} tokens`,
+                    ]
+                      .filter(Boolean)
+                      .join(' · ')}
+                  </span>
+                </div>
+              )}
+              {data.moderation && (
+                <div className="flex items-center gap-1.5 text-xs text-rose-500 font-medium mt-0.5">
+                  <ShieldAlert size={12} />
+                  <span>
+                    {data.moderation.action === 'redact' ? 'Redacted' : 'Flagged'} by moderation:{' '}
+                    {getModerationCategories(data.moderation).join(', ')}
+                  </span>
+                </div>
+              )}
             </div>
           </div>
           <button 
@@ -60,24 +178,166 @@ const ExpansionModal: React.FC<ExpansionModalProps> = ({ data, onClose }) => {
             <p className="text-xl md:text-2xl font-semibold text-slate-900 leading-tight">
               {data.fullQuestion}
             </p>
+
+            {data.attachments.length > 0 && (
+              <div className="flex flex-wrap gap-2 mt-4">
+                {data.attachments.map((attachment) => (
+                  <a
+                    key={attachment.id}
+                    href={`/api/mindmap/attachments/${encodeURIComponent(attachment.id)}`}
+                    download={attachment.name}
+                    className="flex items-center gap-2 px-3 py-2 rounded-lg border border-slate-200 bg-white hover:bg-slate-50 hover:border-slate-300 transition-colors text-sm font-medium text-slate-600"
+                    title="Download"
+                  >
+                    <Paperclip size={14} className="text-slate-400" />
+                    <span className="max-w-[240px] truncate">{attachment.name}</span>
+                    <span className="text-xs text-slate-400">{formatBytes(attachment.size)}</span>
+                    <Download size={14} className="text-slate-400" />
+                  </a>
+                ))}
+              </div>
+            )}
           </section>
 
+          {/* Comparison — one column per model */}
+          {comparison && (
+            <section className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              {comparison.answers.map((answer) => {
+                const isPromoted = answer.id === comparison.promotedVersionId;
+                return (
+                  <div
+                    key={answer.id}
+                    className={`flex flex-col min-w-0 rounded-xl p-6 border ${
+                      isPromoted ? 'bg-teal-50/40 border-teal-200' : 'bg-slate-50/50 border-slate-100'
+                    }`}
+                  >
+                    <div className="flex items-start justify-between gap-3 mb-4">
+                      <div className="min-w-0">
+                        <div className="flex items-center gap-1.5 text-sm font-bold text-slate-700">
+                          <Bot size={14} className="text-slate-400 flex-shrink-0" />
+                          <span className="truncate">{answer.model}</span>
+                        </div>
+                        <div className="text-[11px] font-medium text-slate-400 mt-0.5">
+                          {answer.provider}
+                          {answer.usage && (
+                            <>
+                              {' · '}
+                              <UsageLine usage={answer.usage} />
+                            </>
+                          )}
+                        </div>
+                      </div>
+                      {isPromoted ? (
+                        <span className="flex items-center gap-1 px-2.5 py-1 rounded-md bg-teal-600 text-white text-[11px] font-bold whitespace-nowrap">
+                          <Crown size={12} />
+                          Promoted
+                        </span>
+                      ) : (
+                        <button
+                          onClick={() => data.onPromote(data.nodeId, answer.id)}
+                          className="px-2.5 py-1 rounded-md bg-white text-teal-700 border border-teal-200 hover:bg-teal-50 text-[11px] font-bold whitespace-nowrap transition-colors"
+                        >
+                          Promote
+                        </button>
+                      )}
+                    </div>
+                    <div className="prose prose-slate max-w-none">
+                      <ReactMarkdown>
+                        {answer.response}
+                      </ReactMarkdown>
+                    </div>
+                  </div>
+                );
+              })}
+            </section>
+          )}
+
           {/* Response Section */}
-          <section className="bg-slate-50/50 rounded-xl p-6 md:p-8 border border-slate-100">
-            <div className="flex items-center gap-2 text-[10px] uppercase tracking-wider font-bold text-blue-400 mb-6">
-              <Bot size={14} className="mr-1" />
-              AI Reasoning
-            </div>
-            <div className="prose prose-slate prose-lg max-w-none">
-              <ReactMarkdown>
-                {data.fullResponse}
-              </ReactMarkdown>
-            </div>
-          </section>
+          {!comparison && (
+            <section className="bg-slate-50/50 rounded-xl p-6 md:p-8 border border-slate-100">
+              <div className="flex items-center justify-between gap-4 mb-6">
+                <div className="flex items-center gap-2 text-[10px] uppercase tracking-wider font-bold text-blue-400">
+                  <Bot size={14} className="mr-1" />
+                  AI Reasoning
+                </div>
+
+                {/* Version picker — every regenerated answer is kept */}
+                {data.versions.length > 1 && (
+                  <div className="flex flex-wrap items-center justify-end gap-1.5">
+                    {data.versions.map((version, i) => (
+                      <button
+                        key={version.id}
+                        onClick={() => data.onSelectVersion(data.nodeId, version.id)}
+                        disabled={isGenerating}
+                        title={`${version.model || 'unknown model'} · ${new Date(version.createdAt).toLocaleString()}`}
+                        className={`px-2.5 py-1 rounded-md text-[11px] font-bold transition-colors disabled:opacity-50 ${
+                          version.id === data.activeVersionId
+                            ? 'bg-blue-600 text-white'
+                            : 'bg-white text-slate-500 border border-slate-200 hover:border-slate-300'
+                        }`}
+                      >
+                        v{i + 1}
+                      </button>
+                    ))}
+                  </div>
+                )}
+              </div>
+              <div className="prose prose-slate prose-lg max-w-none">
+                <ReactMarkdown>
+                  {data.fullResponse}
+                </ReactMarkdown>
+                {data.isStreaming && (
+                  <span className="inline-block w-2 h-5 bg-blue-400 animate-pulse align-middle" />
+                )}
+              </div>
+            </section>
+          )}
         </div>
 
         {/* Footer */}
-        <div className="p-4 border-t border-slate-100 bg-slate-50/30 flex justify-end">
+        <div className="p-4 border-t border-slate-100 bg-slate-50/30 flex justify-end gap-3">
+          <button
+            onClick={() => data.onAutoExplore(data.nodeId)}
+            disabled={isGenerating || data.isAutoExploring}
+            className="flex items-center gap-2 px-4 py-2.5 bg-white text-slate-700 border border-slate-200 rounded-lg font-medium text-sm hover:bg-slate-50 transition-colors disabled:opacity-50"
+          >
+            <Compass size={14} className={data.isAutoExploring ? 'animate-spin' : ''} />
+            {data.isAutoExploring ? 'Exploring...' : 'Auto-explore'}
+          </button>
+          <button
+            onClick={() => data.onExplode(data.nodeId)}
+            disabled={isGenerating || data.isExploding}
+            className="flex items-center gap-2 px-4 py-2.5 bg-white text-slate-700 border border-slate-200 rounded-lg font-medium text-sm hover:bg-slate-50 transition-colors disabled:opacity-50"
+          >
+            {data.isExploding ? (
+              <Loader2 size={14} className="animate-spin" />
+            ) : (
+              <Network size={14} />
+            )}
+            {data.isExploding ? 'Exploding...' : 'Explode into subtopics'}
+          </button>
+          <button
+            onClick={() => data.onSummarize(data.nodeId)}
+            disabled={isGenerating || data.isSummarizing}
+            className="flex items-center gap-2 px-4 py-2.5 bg-white text-slate-700 border border-slate-200 rounded-lg font-medium text-sm hover:bg-slate-50 transition-colors disabled:opacity-50"
+          >
+            {data.isSummarizing ? (
+              <Loader2 size={14} className="animate-spin" />
+            ) : (
+              <Layers size={14} />
+            )}
+            {data.isSummarizing ? 'Summarizing...' : 'Summarize branch'}
+          </button>
+          {!comparison && (
+            <button
+              onClick={() => data.onRegenerate(data.nodeId)}
+              disabled={isGenerating}
+              className="flex items-center gap-2 px-4 py-2.5 bg-white text-slate-700 border border-slate-200 rounded-lg font-medium text-sm hover:bg-slate-50 transition-colors disabled:opacity-50"
+            >
+              <RefreshCw size={14} className={data.isRegenerating ? 'animate-spin' : ''} />
+              {data.isRegenerating ? 'Regenerating...' : 'Regenerate'}
+            </button>
+          )}
           <button 
             onClick={onClose}
             className="px-6 py-2.5 bg-slate-900 text-white rounded-lg font-medium text-sm hover:bg-slate-800 transition-colors shadow-lg shadow-slate-200"
@@ -0,0 +1,106 @@
+'use client';
+
+import React from 'react';
+import { Compass, Loader2, Pause, Play, Square, X } from 'lucide-react';
+import type { ExploreJob } from '../lib/exploreJobs';
+
+interface ExplorePanelProps {
+  job: ExploreJob;
+  isConnected: boolean; // The job's progress stream is open in this tab
+  onPause: () => void;
+  onResume: () => void;
+  onCancel: () => void;
+  onDismiss: () => void;
+}
+
+const STATUS_LABELS: Record<ExploreJob['status'], string> = {
+  running: 'Exploring',
+  paused: 'Paused',
+  completed: 'Completed',
+  cancelled: 'Cancelled',
+  failed: 'Failed',
+};
+
+/**
+ * Progress of the current auto-explore job, with its controls.
+ * Pausing just closes the stream; the job can be resumed later, even
+ * after a reload (Canvas picks up unfinished jobs on mount).
+ */
+const ExplorePanel: React.FC<ExplorePanelProps> = ({
+  job,
+  isConnected,
+  onPause,
+  onResume,
+  onCancel,
+  onDismiss,
+}) => {
+  const isFinished = job.status === 'completed' || job.status === 'cancelled';
+  const progress = Math.min(100, (job.createdCount / Math.max(job.maxNodes, 1)) * 100);
+
+  return (
+    <div className="absolute top-4 right-4 z-50 w-[260px] rounded-xl border border-slate-200 bg-white/95 backdrop-blur shadow-xl p-4">
+      <div className="flex items-center justify-between mb-2">
+        <span className="flex items-center gap-1.5 text-xs font-bold text-slate-700">
+          {isConnected ? (
+            <Loader2 className="w-3.5 h-3.5 animate-spin text-blue-500" />
+          ) : (
+            <Compass className="w-3.5 h-3.5 text-slate-400" />
+          )}
+          Auto-explore · {STATUS_LABELS[job.status]}
+        </span>
+        {!isConnected && (
+          <button
+            onClick={onDismiss}
+            className="p-1 rounded text-slate-400 hover:text-slate-700 hover:bg-slate-100"
+            title="Dismiss"
+          >
+            <X className="w-3.5 h-3.5" />
+          </button>
+        )}
+      </div>
+
+      <div className="flex justify-between text-[11px] text-slate-500 mb-1">
+        <span>{job.createdCount} / {job.maxNodes} nodes</span>
+        <span>depth {job.maxDepth}</span>
+      </div>
+      <div className="h-1.5 w-full overflow-hidden rounded-full bg-slate-100">
+        <div
+          className="h-full rounded-full bg-blue-500 transition-all duration-300"
+          style={{ width: `${progress}%` }}
+        />
+      </div>
+
+      {job.error && (
+        <p className="mt-2 text-[11px] text-red-500 line-clamp-2">{job.error}</p>
+      )}
+
+      {!isFinished && (
+        <div className="mt-3 flex gap-2">
+          {isConnected ? (
+            <button
+              onClick={onPause}
+              className="flex-1 flex items-center justify-center gap-1.5 px-3 py-1.5 rounded-lg border border-slate-200 text-xs font-medium text-slate-700 hover:bg-slate-50"
+            >
+              <Pause className="w-3 h-3" /> Pause
+            </button>
+          ) : (
+            <button
+              onClick={onResume}
+              className="flex-1 flex items-center justify-center gap-1.5 px-3 py-1.5 rounded-lg border border-slate-200 text-xs font-medium text-slate-700 hover:bg-slate-50"
+            >
+              <Play className="w-3 h-3" /> Resume
+            </button>
+          )}
+          <button
+            onClick={onCancel}
+            className="flex-1 flex items-center justify-center gap-1.5 px-3 py-1.5 rounded-lg bg-slate-900 text-xs font-medium text-white hover:bg-slate-800"
+          >
+            <Square className="w-3 h-3" /> Stop
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ExplorePanel;
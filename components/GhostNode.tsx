@@ -0,0 +1,56 @@
+'use client';
+
+import React, { memo } from 'react';
+import { Handle, Position, NodeProps } from 'reactflow';
+import { GhostNodeData } from '../lib/reactFlowIntegration';
+import { Sparkles, Loader2 } from 'lucide-react';
+
+/**
+ * A suggested follow-up question, rendered as a translucent placeholder
+ * child. Clicking it asks the question for real against its parent.
+ */
+const GhostNode: React.FC<NodeProps<GhostNodeData>> = ({ data }) => {
+  const handleClick = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    if (!data.isPending) data.onActivate(data.ghost);
+  };
+
+  return (
+    <div
+      onClick={handleClick}
+      className={`
+        w-[350px] h-[220px] flex flex-col justify-center gap-3 p-6 rounded-xl border-2 border-dashed transition-all duration-200
+        ${data.isPending
+          ? 'border-blue-300 bg-blue-50/60 opacity-90 cursor-wait'
+          : 'border-slate-300 bg-white/40 opacity-60 hover:opacity-100 hover:border-blue-400 hover:bg-white/80 cursor-pointer'}
+      `}
+      title="Ask this follow-up"
+    >
+      <Handle
+        type="target"
+        position={Position.Left}
+        className="w-3 h-3 !bg-slate-300 !border-2 !border-white"
+      />
+
+      <div className="flex items-center gap-1.5 text-[10px] uppercase tracking-wider font-bold text-slate-400">
+        {data.isPending ? (
+          <>
+            <Loader2 className="w-3 h-3 animate-spin text-blue-500" />
+            <span className="text-blue-500">Asking...</span>
+          </>
+        ) : (
+          <>
+            <Sparkles className="w-3 h-3" />
+            <span>Suggested follow-up</span>
+          </>
+        )}
+      </div>
+
+      <p className="text-sm font-semibold text-slate-600 leading-snug">
+        {data.ghost.question}
+      </p>
+    </div>
+  );
+};
+
+export default memo(GhostNode);
@@ -5,7 +5,8 @@ import { Handle, Position, NodeProps } from 'reactflow';
 import ReactMarkdown from 'react-markdown';
 import { AIMindmapNodeData } from '../lib/reactFlowIntegration';
 import { truncateWords } from '../lib/text';
-import { Maximize2 } from 'lucide-react';
+import { getModerationCategories } from '../lib/moderation/verdict';
+import { Maximize2, Loader2, RefreshCw, Layers, Network, Compass, BookOpen, Paperclip, Columns2, Crown, ShieldAlert } from 'lucide-react';
 
 const MindmapNode: React.FC<NodeProps<AIMindmapNodeData>> = ({ data, selected }) => {
   const handleDoubleClick = (e: React.MouseEvent) => {
@@ -22,11 +23,46 @@ const MindmapNode: React.FC<NodeProps<AIMindmapNodeData>> = ({ data, selected })
     }
   };
 
+  const handleRegenerateClick = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    data.onRegenerate(data.nodeId);
+  };
+
+  const handleSummarizeClick = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    data.onSummarize(data.nodeId);
+  };
+
+  const handleExplodeClick = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    data.onExplode(data.nodeId);
+  };
+
+  const handleAutoExploreClick = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    data.onAutoExplore(data.nodeId);
+  };
+
+  const isGenerating = data.isStreaming || data.isRegenerating;
+  const isSummary = data.kind === 'summary';
+  const isMapAnswer = data.kind === 'map-answer';
+  const comparison = data.comparison;
+  const moderation = data.moderation;
+  const activeVersionIndex = data.versions.findIndex((v) => v.id === data.activeVersionId);
+
   return (
     <div
       className={`
         w-[350px] h-[220px] flex flex-col bg-white rounded-xl shadow-lg border-2 transition-all duration-200 overflow-hidden group
-        ${selected ? 'border-blue-500 ring-4 ring-blue-100 scale-[1.02]' : 'border-slate-100 hover:border-slate-300 hover:shadow-xl'}
+        ${selected
+          ? 'border-blue-500 ring-4 ring-blue-100 scale-[1.02]'
+          : isSummary
+            ? 'border-violet-200 hover:border-violet-300 hover:shadow-xl'
+            : isMapAnswer
+              ? 'border-amber-200 hover:border-amber-300 hover:shadow-xl'
+              : comparison
+                ? 'border-teal-200 hover:border-teal-300 hover:shadow-xl'
+                : 'border-slate-100 hover:border-slate-300 hover:shadow-xl'}
       `}
       onDoubleClick={handleDoubleClick}
     >
@@ -37,24 +73,119 @@ const MindmapNode: React.FC<NodeProps<AIMindmapNodeData>> = ({ data, selected })
       />
 
       {/* Question Section — flex-shrink-0 so it never collapses */}
-      <div className="flex-shrink-0 bg-gradient-to-br from-slate-50 to-slate-100/50 p-4 border-b border-slate-200 flex justify-between items-start">
+      <div
+        className={`flex-shrink-0 bg-gradient-to-br p-4 border-b flex justify-between items-start ${
+          isSummary
+            ? 'from-violet-50 to-indigo-100/60 border-violet-200'
+            : isMapAnswer
+              ? 'from-amber-50 to-orange-100/50 border-amber-200'
+              : comparison
+                ? 'from-teal-50 to-cyan-100/50 border-teal-200'
+                : 'from-slate-50 to-slate-100/50 border-slate-200'
+        }`}
+      >
         <div className="flex-1 pr-2">
+          {isSummary && (
+            <div className="flex items-center gap-1 mb-1 text-[10px] uppercase tracking-wider font-bold text-violet-500">
+              <Layers className="w-3 h-3" />
+              Branch synthesis
+            </div>
+          )}
+          {isMapAnswer && (
+            <div className="flex items-center gap-1 mb-1 text-[10px] uppercase tracking-wider font-bold text-amber-600">
+              <BookOpen className="w-3 h-3" />
+              From the map · {data.sourceNodeIds.length} sources
+            </div>
+          )}
+          {comparison && (
+            <div className="flex items-center gap-1 mb-1 text-[10px] uppercase tracking-wider font-bold text-teal-600">
+              <Columns2 className="w-3 h-3" />
+              Model comparison{comparison.promotedVersionId ? '' : ' · pick one'}
+            </div>
+          )}
           <h3 className="text-sm font-bold text-slate-800 leading-tight">
             {truncateWords(data.question, 10)}
           </h3>
+          {data.attachments.length > 0 && (
+            <div
+              className="inline-flex items-center gap-1 mt-1.5 px-1.5 py-0.5 rounded-md bg-white/80 border border-slate-200 text-[10px] font-semibold text-slate-500"
+              title={data.attachments.map((a) => a.name).join('\n')}
+            >
+              <Paperclip className="w-3 h-3" />
+              {data.attachments.length === 1
+                ? truncateWords(data.attachments[0].name, 4)
+                : `${data.attachments.length} files`}
+            </div>
+          )}
+          {moderation && (
+            <div
+              className={`inline-flex items-center gap-1 mt-1.5 px-1.5 py-0.5 rounded-md border text-[10px] font-semibold ${
+                data.attachments.length > 0 ? 'ml-1' : ''
+              } ${
+                moderation.action === 'redact'
+                  ? 'bg-rose-50 border-rose-200 text-rose-600'
+                  : 'bg-amber-50 border-amber-200 text-amber-700'
+              }`}
+              title={`Moderation: ${getModerationCategories(moderation).join(', ')}`}
+            >
+              <ShieldAlert className="w-3 h-3" />
+              {moderation.action === 'redact' ? 'Redacted' : 'Flagged'}
+            </div>
+          )}
         </div>
         <div className="text-[10px] font-medium text-slate-400 whitespace-nowrap pt-0.5">
-          {data.timestamp}
+          {isGenerating ? (
+            <span className="flex items-center gap-1 text-blue-500">
+              <Loader2 className="w-3 h-3 animate-spin" />
+              {data.isRegenerating ? 'Regenerating' : 'Generating'}
+            </span>
+          ) : (
+            data.timestamp
+          )}
         </div>
       </div>
 
       {/* Response Section — flex-1 fills whatever the question section didn't take */}
       <div className="flex-1 p-4 flex flex-col overflow-hidden">
-        <div className="prose prose-sm prose-slate max-w-none text-xs text-slate-600 overflow-hidden line-clamp-6 flex-1">
-          <ReactMarkdown>
-            {truncateWords(data.response, 40)}
-          </ReactMarkdown>
-        </div>
+        {comparison ? (
+          // Split card: one column per model, the promoted answer highlighted
+          <div className="grid grid-cols-2 gap-2 flex-1 overflow-hidden">
+            {comparison.answers.map((answer) => {
+              const isPromoted = answer.id === comparison.promotedVersionId;
+              return (
+                <div
+                  key={answer.id}
+                  className={`flex flex-col min-w-0 rounded-lg border p-2 overflow-hidden ${
+                    isPromoted ? 'border-teal-300 bg-teal-50/60' : 'border-slate-100 bg-slate-50/60'
+                  }`}
+                >
+                  <div
+                    className="flex items-center gap-1 mb-1 text-[10px] font-bold text-slate-500"
+                    title={`${answer.provider}:${answer.model}`}
+                  >
+                    {isPromoted && <Crown className="w-3 h-3 flex-shrink-0 text-teal-600" />}
+                    <span className="truncate">{answer.model}</span>
+                  </div>
+                  <div className="prose prose-sm prose-slate max-w-none text-[11px] text-slate-600 overflow-hidden line-clamp-4">
+                    <ReactMarkdown>
+                      {truncateWords(answer.response, 18)}
+                    </ReactMarkdown>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        ) : (
+          <div className="prose prose-sm prose-slate max-w-none text-xs text-slate-600 overflow-hidden line-clamp-6 flex-1">
+            {data.isStreaming && !data.response ? (
+              <p className="text-slate-400 italic">Thinking...</p>
+            ) : (
+              <ReactMarkdown>
+                {truncateWords(data.response, 40)}
+              </ReactMarkdown>
+            )}
+          </div>
+        )}
 
         {/* Expand Button */}
         <div className="mt-auto pt-2 flex justify-between items-center">
@@ -66,6 +197,59 @@ const MindmapNode: React.FC<NodeProps<AIMindmapNodeData>> = ({ data, selected })
             <Maximize2 className="w-3.5 h-3.5" />
             <span>Expand</span>
           </button>
+
+          <div className="flex items-center gap-2">
+            {data.versions.length > 1 && !comparison && (
+              <span
+                className="text-[10px] font-bold text-slate-400"
+                title="Answer version"
+              >
+                v{activeVersionIndex + 1}/{data.versions.length}
+              </span>
+            )}
+            <button
+              onClick={handleAutoExploreClick}
+              disabled={isGenerating || data.isAutoExploring}
+              className="p-2 rounded-lg text-slate-400 hover:text-blue-600 hover:bg-blue-50 transition-colors opacity-0 group-hover:opacity-100 disabled:opacity-40"
+              title="Auto-explore from here"
+            >
+              <Compass className={`w-3.5 h-3.5 ${data.isAutoExploring ? 'animate-spin' : ''}`} />
+            </button>
+            <button
+              onClick={handleExplodeClick}
+              disabled={isGenerating || data.isExploding}
+              className="p-2 rounded-lg text-slate-400 hover:text-emerald-600 hover:bg-emerald-50 transition-colors opacity-0 group-hover:opacity-100 disabled:opacity-40"
+              title="Explode into subtopics"
+            >
+              {data.isExploding ? (
+                <Loader2 className="w-3.5 h-3.5 animate-spin" />
+              ) : (
+                <Network className="w-3.5 h-3.5" />
+              )}
+            </button>
+            <button
+              onClick={handleSummarizeClick}
+              disabled={isGenerating || data.isSummarizing}
+              className="p-2 rounded-lg text-slate-400 hover:text-violet-600 hover:bg-violet-50 transition-colors opacity-0 group-hover:opacity-100 disabled:opacity-40"
+              title="Summarize branch"
+            >
+              {data.isSummarizing ? (
+                <Loader2 className="w-3.5 h-3.5 animate-spin" />
+              ) : (
+                <Layers className="w-3.5 h-3.5" />
+              )}
+            </button>
+            {!comparison && (
+              <button
+                onClick={handleRegenerateClick}
+                disabled={isGenerating}
+                className="p-2 rounded-lg text-slate-400 hover:text-slate-700 hover:bg-slate-100 transition-colors opacity-0 group-hover:opacity-100 disabled:opacity-40"
+                title="Regenerate answer"
+              >
+                <RefreshCw className={`w-3.5 h-3.5 ${data.isRegenerating ? 'animate-spin' : ''}`} />
+              </button>
+            )}
+          </div>
         </div>
       </div>
 
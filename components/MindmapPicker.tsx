@@ -0,0 +1,297 @@
+'use client';
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { Check, ChevronDown, Loader2, Map as MapIcon, Pencil, Plus, Trash2, X } from 'lucide-react';
+import {
+  DEFAULT_MINDMAP_NAME,
+  MAX_MINDMAP_NAME_LENGTH,
+  MindmapSummary,
+} from '../lib/persistence';
+
+interface MindmapPickerProps {
+  mindmapId: string | null; // The map on screen
+  onSwitch: (mindmapId: string | null) => void; // null → most recent map
+}
+
+async function fetchMindmaps(): Promise<MindmapSummary[]> {
+  const res = await fetch('/api/mindmaps');
+  if (!res.ok) throw new Error(`Failed to load maps: ${res.status}`);
+  const data: { mindmaps: MindmapSummary[] } = await res.json();
+  return data.mindmaps;
+}
+
+/**
+ * The user's maps (/api/mindmaps), shown in the canvas header.
+ * Creates, renames, deletes and switches maps; the canvas does the
+ * actual loading through onSwitch. Deleting the open map switches to
+ * the next most recent one.
+ */
+const MindmapPicker: React.FC<MindmapPickerProps> = ({ mindmapId, onSwitch }) => {
+  const [mindmaps, setMindmaps] = useState<MindmapSummary[]>([]);
+  const [isOpen, setIsOpen] = useState(false);
+  const [isLoading, setIsLoading] = useState(true); // Until the first list arrives
+  const [error, setError] = useState<string | null>(null);
+
+  const [newName, setNewName] = useState('');
+  const [isCreating, setIsCreating] = useState(false);
+
+  // Map being renamed, and the name as typed
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameText, setRenameText] = useState('');
+
+  const current = mindmaps.find((m) => m.id === mindmapId);
+
+  const refresh = useCallback(async () => {
+    try {
+      setMindmaps(await fetchMindmaps());
+    } catch (err) {
+      console.error('[MindmapPicker] Load error:', err);
+      setError('Could not load your maps.');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  // The header shows the open map's name, so reload when it changes
+  useEffect(() => {
+    if (!mindmapId) return;
+    let cancelled = false;
+
+    fetchMindmaps()
+      .then((list) => {
+        if (!cancelled) setMindmaps(list);
+      })
+      .catch((err) => console.error('[MindmapPicker] Load error:', err))
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [mindmapId]);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleEsc = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') setIsOpen(false);
+    };
+    window.addEventListener('keydown', handleEsc);
+    return () => window.removeEventListener('keydown', handleEsc);
+  }, [isOpen]);
+
+  const handleToggle = () => {
+    // Node counts change as the map grows
+    if (!isOpen) refresh();
+    setIsOpen((open) => !open);
+    setError(null);
+  };
+
+  const handleSwitch = (id: string) => {
+    setIsOpen(false);
+    if (id !== mindmapId) onSwitch(id);
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsCreating(true);
+    setError(null);
+
+    try {
+      const res = await fetch('/api/mindmaps', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name: newName.trim() || DEFAULT_MINDMAP_NAME }),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(data.error || `Failed to create map: ${res.status}`);
+
+      setNewName('');
+      setIsOpen(false);
+      onSwitch(data.id);
+    } catch (err) {
+      console.error('[MindmapPicker] Create error:', err);
+      setError((err as Error).message);
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const startRename = (mindmap: MindmapSummary) => {
+    setRenamingId(mindmap.id);
+    setRenameText(mindmap.name);
+  };
+
+  const handleRename = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const id = renamingId;
+    const name = renameText.trim();
+    setRenamingId(null);
+    if (!id || !name) return;
+
+    const previous = mindmaps;
+    setMindmaps((prev) => prev.map((m) => (m.id === id ? { ...m, name } : m)));
+
+    try {
+      const res = await fetch(`/api/mindmaps/${encodeURIComponent(id)}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name }),
+      });
+      if (!res.ok) throw new Error(`Failed to rename map: ${res.status}`);
+    } catch (err) {
+      console.error('[MindmapPicker] Rename error:', err);
+      setMindmaps(previous);
+      setError('Could not rename the map.');
+    }
+  };
+
+  const handleDelete = async (mindmap: MindmapSummary) => {
+    if (!confirm(`Delete "${mindmap.name}" and all of its nodes? This cannot be undone.`)) return;
+
+    const previous = mindmaps;
+    const remaining = mindmaps.filter((m) => m.id !== mindmap.id);
+    setMindmaps(remaining);
+
+    try {
+      const res = await fetch(`/api/mindmaps/${encodeURIComponent(mindmap.id)}`, {
+        method: 'DELETE',
+      });
+      if (!res.ok) throw new Error(`Failed to delete map: ${res.status}`);
+
+      // Without any map left, the canvas gets a fresh one from the server
+      if (mindmap.id === mindmapId) {
+        setIsOpen(false);
+        onSwitch(remaining[0]?.id ?? null);
+      }
+    } catch (err) {
+      console.error('[MindmapPicker] Delete error:', err);
+      setMindmaps(previous);
+      setError('Could not delete the map.');
+    }
+  };
+
+  return (
+    <div className="absolute top-6 left-6 z-50 w-72">
+      <button
+        type="button"
+        onClick={handleToggle}
+        className="flex w-full items-center gap-2 px-4 py-2.5 bg-white hover:bg-slate-50 text-slate-700 rounded-2xl text-sm font-bold shadow-lg transition-all border border-slate-200"
+        title="Switch map"
+      >
+        <MapIcon size={16} className="flex-shrink-0 text-slate-400" />
+        <span className="flex-1 truncate text-left">{current?.name ?? DEFAULT_MINDMAP_NAME}</span>
+        <ChevronDown size={16} className={`flex-shrink-0 transition-transform ${isOpen ? 'rotate-180' : ''}`} />
+      </button>
+
+      {isOpen && (
+        <div className="mt-2 rounded-xl border border-slate-200 bg-white/95 backdrop-blur shadow-xl overflow-hidden">
+          {isLoading && mindmaps.length === 0 ? (
+            <div className="flex justify-center py-6">
+              <Loader2 className="w-4 h-4 animate-spin text-slate-400" />
+            </div>
+          ) : (
+            <ul className="max-h-[50vh] overflow-y-auto divide-y divide-slate-100">
+              {mindmaps.map((mindmap) => (
+                <li key={mindmap.id} className="group flex items-center gap-2 px-4 py-2.5 hover:bg-slate-50">
+                  {renamingId === mindmap.id ? (
+                    <form onSubmit={handleRename} className="flex flex-1 items-center gap-1">
+                      <input
+                        type="text"
+                        autoFocus
+                        value={renameText}
+                        onChange={(e) => setRenameText(e.target.value)}
+                        onKeyDown={(e) => {
+                          if (e.key === 'Escape') {
+                            e.stopPropagation();
+                            setRenamingId(null);
+                          }
+                        }}
+                        maxLength={MAX_MINDMAP_NAME_LENGTH}
+                        className="flex-1 min-w-0 rounded-md border border-slate-200 px-2 py-1 text-sm text-slate-700 outline-none focus:border-blue-400"
+                      />
+                      <button
+                        type="submit"
+                        className="p-1 rounded text-slate-400 hover:text-slate-700 hover:bg-slate-100"
+                        title="Save name"
+                      >
+                        <Check className="w-3.5 h-3.5" />
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => setRenamingId(null)}
+                        className="p-1 rounded text-slate-400 hover:text-slate-700 hover:bg-slate-100"
+                        title="Cancel"
+                      >
+                        <X className="w-3.5 h-3.5" />
+                      </button>
+                    </form>
+                  ) : (
+                    <>
+                      <button
+                        type="button"
+                        onClick={() => handleSwitch(mindmap.id)}
+                        className="flex-1 min-w-0 text-left"
+                      >
+                        <span
+                          className={`block truncate text-sm font-semibold ${
+                            mindmap.id === mindmapId ? 'text-blue-600' : 'text-slate-800'
+                          }`}
+                        >
+                          {mindmap.name}
+                        </span>
+                        <span className="block text-xs text-slate-500">
+                          {mindmap.nodeCount} {mindmap.nodeCount === 1 ? 'node' : 'nodes'} · updated{' '}
+                          {new Date(mindmap.updatedAt).toLocaleDateString()}
+                        </span>
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => startRename(mindmap)}
+                        className="p-1 rounded text-slate-300 opacity-0 group-hover:opacity-100 hover:text-slate-700 hover:bg-slate-100"
+                        title="Rename map"
+                      >
+                        <Pencil className="w-3.5 h-3.5" />
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => handleDelete(mindmap)}
+                        className="p-1 rounded text-slate-300 opacity-0 group-hover:opacity-100 hover:text-red-500 hover:bg-red-50"
+                        title="Delete map"
+                      >
+                        <Trash2 className="w-3.5 h-3.5" />
+                      </button>
+                    </>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <form onSubmit={handleCreate} className="flex items-center gap-2 px-4 py-2.5 border-t border-slate-100">
+            <Plus className="w-4 h-4 text-slate-400 flex-shrink-0" />
+            <input
+              type="text"
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+              maxLength={MAX_MINDMAP_NAME_LENGTH}
+              placeholder="New map..."
+              className="flex-1 min-w-0 bg-transparent text-sm text-slate-700 outline-none placeholder:text-slate-400"
+            />
+            <button
+              type="submit"
+              disabled={isCreating}
+              className="px-2.5 py-1 rounded-md text-xs font-semibold bg-slate-900 text-white hover:bg-slate-800 disabled:opacity-50"
+            >
+              Create
+            </button>
+          </form>
+
+          {error && <p className="px-4 pb-2.5 text-xs font-medium text-red-600">{error}</p>}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MindmapPicker;
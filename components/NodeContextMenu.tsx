@@ -0,0 +1,146 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { CornerLeftUp, Loader2, Move, Pencil, Trash2 } from 'lucide-react';
+import { GraphNode } from '../lib/graph';
+
+interface NodeContextMenuProps {
+  node: GraphNode;
+  x: number; // Screen position of the right-click
+  y: number;
+  onEdit: (content: string) => Promise<void>;
+  onStartMove: () => void; // The canvas then waits for the new parent
+  onMakeRoot: () => void;
+  onDelete: () => void;
+  onClose: () => void;
+}
+
+/**
+ * Right-click menu of a node: edit its question, move it (with its
+ * branch) under another node or to the top level, or delete the branch.
+ * The canvas runs the actions against /api/mindmap/{edit,move,delete}.
+ */
+const NodeContextMenu: React.FC<NodeContextMenuProps> = ({
+  node,
+  x,
+  y,
+  onEdit,
+  onStartMove,
+  onMakeRoot,
+  onDelete,
+  onClose,
+}) => {
+  const [isEditing, setIsEditing] = useState(false);
+  const [text, setText] = useState(node.content);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    const handleEsc = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleEsc);
+    return () => window.removeEventListener('keydown', handleEsc);
+  }, [onClose]);
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const content = text.trim();
+    if (!content || content === node.content) {
+      onClose();
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await onEdit(content);
+      onClose();
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const itemClass =
+    'flex w-full items-center gap-2 px-3 py-2 text-left text-sm text-slate-700 hover:bg-slate-50';
+
+  return (
+    <>
+      {/* Click-away layer */}
+      <div
+        className="fixed inset-0 z-50"
+        onClick={onClose}
+        onContextMenu={(e) => {
+          e.preventDefault();
+          onClose();
+        }}
+      />
+
+      <div
+        className="fixed z-50 w-64 rounded-xl border border-slate-200 bg-white/95 backdrop-blur shadow-xl overflow-hidden"
+        style={{ left: x, top: y }}
+      >
+        {isEditing ? (
+          <form onSubmit={handleSave} className="p-3 space-y-2">
+            <textarea
+              autoFocus
+              value={text}
+              onChange={(e) => setText(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter' && !e.shiftKey) handleSave(e);
+              }}
+              rows={3}
+              className="w-full resize-none rounded-md border border-slate-200 px-2 py-1.5 text-sm text-slate-700 outline-none focus:border-blue-400"
+            />
+            <p className="text-[11px] text-slate-400">
+              The answer is kept; regenerate it to answer the new question.
+            </p>
+            <div className="flex justify-end gap-2">
+              <button
+                type="button"
+                onClick={onClose}
+                className="px-2.5 py-1 rounded-md text-xs font-semibold text-slate-500 hover:bg-slate-100"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={isSaving || !text.trim()}
+                className="flex items-center gap-1 px-2.5 py-1 rounded-md text-xs font-semibold bg-slate-900 text-white hover:bg-slate-800 disabled:opacity-50"
+              >
+                {isSaving && <Loader2 className="w-3 h-3 animate-spin" />}
+                Save
+              </button>
+            </div>
+          </form>
+        ) : (
+          <div className="py-1">
+            <button type="button" onClick={() => setIsEditing(true)} className={itemClass}>
+              <Pencil className="w-3.5 h-3.5 text-slate-400" />
+              Edit question
+            </button>
+            <button type="button" onClick={onStartMove} className={itemClass}>
+              <Move className="w-3.5 h-3.5 text-slate-400" />
+              Move under…
+            </button>
+            {node.parentId !== null && (
+              <button type="button" onClick={onMakeRoot} className={itemClass}>
+                <CornerLeftUp className="w-3.5 h-3.5 text-slate-400" />
+                Make top-level
+              </button>
+            )}
+            <div className="my-1 border-t border-slate-100" />
+            <button
+              type="button"
+              onClick={onDelete}
+              className="flex w-full items-center gap-2 px-3 py-2 text-left text-sm text-red-600 hover:bg-red-50"
+            >
+              <Trash2 className="w-3.5 h-3.5" />
+              Delete branch
+            </button>
+          </div>
+        )}
+      </div>
+    </>
+  );
+};
+
+export default NodeContextMenu;
@@ -9,11 +9,52 @@
  *   - Removed addEdge() call — store.addNode() auto-creates the edge
  *     when parentId is set (enforced by graph.ts's addNode invariant)
  *   - selectedNodeId now comes from store.ui.selectedNodeId
+ *   - Responses stream in via /api/mindmap/stream: the node is added as
+ *     soon as the server creates it, and tokens are appended with
+ *     content-only updateNode() calls (no relayout per token)
+ *   - Clicking the mode indicator toggles "Ask the map": the question is
+ *     answered from the most relevant existing nodes (/api/mindmap/ask)
+ *     and lands as a new root node linked to its sources
+ *   - The paperclip attaches files: each is uploaded as soon as it's
+ *     picked (/api/mindmap/attachments), shown as a chip, and its id
+ *     sent with the query as `attachmentIds`
+ *   - The template button opens the user's saved prompt templates
+ *     (TemplatePicker); a picked template replaces the query text
+ *   - Failures show as a dismissible notice above the bar instead of an
+ *     alert(); rate-limit and quota refusals (429) show the server's
+ *     message, e.g. when to try again, as do classified generation
+ *     errors (timeout, safety block, ...)
+ *   - The sliders button opens AdvancedSettings: model, temperature and
+ *     max output tokens for the next queries, plus "Branch with same
+ *     settings" (on by default), sent as `inheritParams`, and "Skip
+ *     response cache", sent as `bypassCache`
+ *   - The compare button sends the query to two models at once
+ *     (/api/mindmap/compare, models from COMPARE_MODELS); the answers
+ *     land side by side in one comparison node
+ *   - While a query runs, the send button becomes Stop: it aborts the
+ *     fetch, which aborts the server route and the provider call. A
+ *     streamed answer keeps what arrived, marked as cancelled
  *   - Everything else (mic, file input, animations, layout) is unchanged
  */
 
 import React, { useEffect, useRef, useState } from "react";
 import { useMindmapStore } from "../store/mindmapStore";
+import TemplatePicker from "./TemplatePicker";
+import AdvancedSettings from "./AdvancedSettings";
+import { GenerationParams, hasGenerationParams } from "../lib/generationParams";
+import { readSSE } from "../lib/sse";
+import {
+  toApiError,
+  getErrorMessage,
+  isAbortError,
+  userFacingError,
+} from "../lib/apiErrors";
+import {
+  AttachmentMeta,
+  ATTACHMENT_ACCEPT,
+  MAX_ATTACHMENTS_PER_QUERY,
+  validateAttachment,
+} from "../lib/attachments";
 
 import {
   Send,
@@ -23,21 +64,67 @@ import {
   Loader2,
   Plus,
   CornerDownRight,
+  BookOpen,
+  FileText,
+  X,
+  BookMarked,
+  Square,
+  Columns2,
+  SlidersHorizontal,
 } from "lucide-react";
 
 import { motion, AnimatePresence } from "framer-motion";
 
+/* ============================
+   STREAM EVENT PAYLOADS
+   Mirrors /api/mindmap/stream
+   ============================ */
+interface StreamNodeEvent {
+  id: string;
+  content: string;
+  createdAt: string;
+  metadata?: Record<string, unknown>;
+}
+
+interface StreamTokenEvent {
+  text: string;
+}
+
+interface StreamDoneEvent {
+  node: { response: string; metadata?: Record<string, unknown> };
+}
+
+interface StreamErrorEvent {
+  error: string;
+  code?: string; // Set when `error` is meant for the user
+}
+
 export default function QueryBar() {
   const [query, setQuery] = useState("");
   const [isLoading, setIsLoading] = useState(false);
   const [isListening, setIsListening] = useState(false);
+  const [askMap, setAskMap] = useState(false);
+  const [compare, setCompare] = useState(false);
+  const [attachments, setAttachments] = useState<AttachmentMeta[]>([]);
+  const [uploadingCount, setUploadingCount] = useState(0);
+  const [attachmentError, setAttachmentError] = useState<string | null>(null);
+  const [submitError, setSubmitError] = useState<string | null>(null);
+  const [templatesOpen, setTemplatesOpen] = useState(false);
+  const [advancedOpen, setAdvancedOpen] = useState(false);
+  const [genParams, setGenParams] = useState<GenerationParams>({});
+  const [inheritParams, setInheritParams] = useState(true);
+  const [bypassCache, setBypassCache] = useState(false);
 
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const abortRef = useRef<AbortController | null>(null);
   const recognitionRef = useRef<any>(null);
 
   // --- Store: only the actions and state we need ---
+  const mindmapId = useMindmapStore((s) => s.mindmapId);
   const selectedNodeId = useMindmapStore((s) => s.ui.selectedNodeId);
   const addNode = useMindmapStore((s) => s.addNode);
+  const updateNode = useMindmapStore((s) => s.updateNode);
+  const removeNode = useMindmapStore((s) => s.removeNode);
   const deselectAll = useMindmapStore((s) => s.deselectAll);
 
   /* ============================
@@ -86,50 +173,285 @@ export default function QueryBar() {
     }
   };
 
+  /* ============================
+     ATTACHMENTS
+     Uploaded on pick, so submitting only sends their ids.
+     ============================ */
+  const uploadAttachment = async (file: File) => {
+    const form = new FormData();
+    form.append("file", file);
+
+    const res = await fetch("/api/mindmap/attachments", {
+      method: "POST",
+      body: form,
+    });
+    const data = await res.json().catch(() => ({}));
+
+    if (!res.ok) throw new Error(data.error || `Failed to upload "${file.name}"`);
+    return data.attachment as AttachmentMeta;
+  };
+
+  const handleFilesPicked = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    e.target.value = ""; // Allow picking the same file again
+    if (files.length === 0) return;
+
+    setAttachmentError(null);
+
+    const room = MAX_ATTACHMENTS_PER_QUERY - attachments.length - uploadingCount;
+    if (files.length > room) {
+      setAttachmentError(`You can attach up to ${MAX_ATTACHMENTS_PER_QUERY} files per question.`);
+      return;
+    }
+
+    const invalid = files.map(validateAttachment).find(Boolean);
+    if (invalid) {
+      setAttachmentError(invalid);
+      return;
+    }
+
+    setUploadingCount((n) => n + files.length);
+
+    await Promise.all(
+      files.map(async (file) => {
+        try {
+          const attachment = await uploadAttachment(file);
+          setAttachments((prev) => [...prev, attachment]);
+        } catch (err) {
+          console.error("[QueryBar] Upload error:", err);
+          setAttachmentError((err as Error).message);
+        } finally {
+          setUploadingCount((n) => n - 1);
+        }
+      })
+    );
+  };
+
+  const removeAttachment = (id: string) => {
+    setAttachments((prev) => prev.filter((a) => a.id !== id));
+  };
+
+  /* ============================
+     ASK THE MAP
+     Not streamed: the answer arrives as a complete root node.
+     ============================ */
+  const handleAskMap = async () => {
+    setIsLoading(true);
+    setSubmitError(null);
+    const controller = new AbortController();
+    abortRef.current = controller;
+
+    try {
+      const res = await fetch("/api/mindmap/ask", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ query: query.trim(), mindmapId }),
+        signal: controller.signal,
+      });
+
+      if (!res.ok) throw await toApiError(res, "Failed to ask the map");
+
+      const { node } = await res.json();
+      addNode({
+        id: node.id,
+        parentId: null,
+        content: node.content,
+        response: node.response,
+        createdAt: node.createdAt || new Date().toISOString(),
+        metadata: node.metadata,
+      });
+      setQuery("");
+      deselectAll();
+    } catch (err) {
+      if (isAbortError(err)) return;
+      console.error("[QueryBar] Ask map error:", err);
+      setSubmitError(getErrorMessage(err, "Failed to answer from the map."));
+    } finally {
+      abortRef.current = null;
+      setIsLoading(false);
+    }
+  };
+
+  /* ============================
+     COMPARE MODELS
+     Not streamed: both answers arrive together in one comparison node.
+     ============================ */
+  const handleCompare = async () => {
+    setIsLoading(true);
+    setSubmitError(null);
+    const parentId = selectedNodeId || null;
+    const controller = new AbortController();
+    abortRef.current = controller;
+
+    try {
+      const res = await fetch("/api/mindmap/compare", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          query: query.trim(),
+          parentId,
+          attachmentIds: attachments.map((a) => a.id),
+          // The compared models come from the server; only sampling applies
+          temperature: genParams.temperature,
+          maxOutputTokens: genParams.maxOutputTokens,
+          bypassCache,
+          mindmapId,
+        }),
+        signal: controller.signal,
+      });
+
+      if (!res.ok) throw await toApiError(res, "Failed to compare models");
+
+      const { node } = await res.json();
+      addNode({
+        id: node.id,
+        parentId,
+        content: node.content,
+        response: node.response,
+        createdAt: node.createdAt || new Date().toISOString(),
+        metadata: node.metadata,
+      });
+      setQuery("");
+      setAttachments([]);
+      deselectAll();
+    } catch (err) {
+      if (isAbortError(err)) return;
+      console.error("[QueryBar] Compare error:", err);
+      setSubmitError(getErrorMessage(err, "Failed to compare models."));
+    } finally {
+      abortRef.current = null;
+      setIsLoading(false);
+    }
+  };
+
+  /* ============================
+     STOP
+     Aborting the fetch aborts the route, which aborts the provider call.
+     ============================ */
+  const handleStop = () => {
+    abortRef.current?.abort();
+  };
+
   /* ============================
      SUBMIT
      ============================ */
   const handleSubmit = async (e?: React.FormEvent) => {
     e?.preventDefault();
-    if (!query.trim() || isLoading) return;
+    if (!query.trim() || isLoading || uploadingCount > 0) return;
+
+    if (askMap) {
+      await handleAskMap();
+      return;
+    }
+
+    if (compare) {
+      await handleCompare();
+      return;
+    }
 
     setIsLoading(true);
+    setSubmitError(null);
+
+    const parentId = selectedNodeId || null;
+    let nodeId: string | null = null;
+    let nodeMetadata: Record<string, unknown> = {};
+    let response = "";
+    let completed = false;
+    let streamError: StreamErrorEvent | null = null;
+    const controller = new AbortController();
+    abortRef.current = controller;
+
+    // The server keeps a stopped answer as cancelled, but saves nothing
+    // if no token had arrived yet: the node then goes from the canvas too
+    const endStopped = () => {
+      if (!nodeId || completed) return;
+      if (response) {
+        updateNode(nodeId, {
+          metadata: { ...nodeMetadata, status: "cancelled" },
+        });
+      } else {
+        removeNode(nodeId);
+      }
+    };
 
     try {
-      const res = await fetch("/api/mindmap/update", {
+      const res = await fetch("/api/mindmap/stream", {
         method: "POST",
+        signal: controller.signal,
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
           query: query.trim(),
-          parentId: selectedNodeId, // null if no node selected → creates root
-          model: "gemini",
+          parentId, // null if no node selected → creates root
+          attachmentIds: attachments.map((a) => a.id),
+          // Unset → parent's value (inheritParams) or the server default
+          ...genParams,
+          inheritParams,
+          bypassCache,
+          mindmapId,
         }),
       });
 
-      if (!res.ok) throw new Error("Failed to create node");
+      if (!res.ok) throw await toApiError(res, "Failed to create node");
 
-      const data = await res.json();
-
-      // Build a GraphNode from the API response.
-      // parentId = selectedNodeId (null → root node, string → child of selected).
-      // The store's addNode() will:
-      //   1. Add the node to the graph
-      //   2. Auto-create the edge if parentId is set
-      //   3. Recompute layout via Dagre (no overlap possible)
-      addNode({
-        id: data.node.id,
-        parentId: selectedNodeId || null,
-        content: data.node.query,
-        response: data.node.response,
-        createdAt: data.node.createdAt || new Date().toISOString(),
+      await readSSE(res, ({ event, data }) => {
+        switch (event) {
+          case "node": {
+            // Node exists as soon as the server creates it.
+            // The store's addNode() auto-creates the edge and runs layout once;
+            // subsequent token updates are content-only (no relayout).
+            const created = data as StreamNodeEvent;
+            nodeId = created.id;
+            nodeMetadata = created.metadata || {};
+            addNode({
+              id: created.id,
+              parentId,
+              content: created.content,
+              response: "",
+              createdAt: created.createdAt || new Date().toISOString(),
+              metadata: { ...nodeMetadata, status: "streaming" },
+            });
+            setQuery("");
+            setAttachments([]);
+            deselectAll();
+            break;
+          }
+          case "token": {
+            if (!nodeId) break;
+            response += (data as StreamTokenEvent).text;
+            updateNode(nodeId, { response });
+            break;
+          }
+          case "done": {
+            if (!nodeId) break;
+            const { node } = data as StreamDoneEvent;
+            updateNode(nodeId, { response: node.response, metadata: node.metadata });
+            completed = true;
+            break;
+          }
+          case "error": {
+            streamError = data as StreamErrorEvent;
+            break;
+          }
+        }
       });
 
-      setQuery("");
-      deselectAll();
+      if (streamError) {
+        const { error, code } = streamError as StreamErrorEvent;
+        throw code ? userFacingError(error) : new Error(error);
+      }
+
+      // Stream closed early: keep what arrived, but stop showing it as live
+      endStopped();
     } catch (err) {
+      if (isAbortError(err)) {
+        endStopped();
+        return;
+      }
       console.error("[QueryBar] Submit error:", err);
-      alert("Failed to create node.");
+      if (nodeId && !completed) removeNode(nodeId);
+      setSubmitError(getErrorMessage(err, "Failed to create node."));
     } finally {
+      abortRef.current = null;
       setIsLoading(false);
     }
   };
@@ -146,16 +468,105 @@ export default function QueryBar() {
      ============================ */
   return (
     <div className="fixed bottom-12 left-1/2 -translate-x-1/2 z-[5000] w-full max-w-3xl px-4">
+      {/* PROMPT TEMPLATES — outside the form: the picker has forms of its own */}
+      {templatesOpen && (
+        <TemplatePicker
+          currentQuery={query}
+          onInsert={(text) => {
+            setQuery(text);
+            setTemplatesOpen(false);
+          }}
+          onClose={() => setTemplatesOpen(false)}
+        />
+      )}
+
+      {/* ADVANCED SETTINGS */}
+      {advancedOpen && (
+        <AdvancedSettings
+          params={genParams}
+          inherit={inheritParams}
+          onChange={setGenParams}
+          onInheritChange={setInheritParams}
+          bypassCache={bypassCache}
+          onBypassCacheChange={setBypassCache}
+          onClose={() => setAdvancedOpen(false)}
+        />
+      )}
+
+      {/* ATTACHMENT CHIPS */}
+      {(attachments.length > 0 || uploadingCount > 0 || attachmentError) && (
+        <div className="flex flex-wrap items-center gap-2 mb-2 px-1">
+          {attachments.map((attachment) => (
+            <span
+              key={attachment.id}
+              className="flex items-center gap-1.5 pl-2.5 pr-1.5 py-1 rounded-lg bg-white/90 border border-slate-200 shadow-sm text-xs font-semibold text-slate-600"
+            >
+              <FileText size={14} className="text-slate-400" />
+              <span className="max-w-[180px] truncate">{attachment.name}</span>
+              <button
+                type="button"
+                onClick={() => removeAttachment(attachment.id)}
+                className="p-0.5 rounded text-slate-400 hover:text-slate-700 hover:bg-slate-100"
+                title="Remove attachment"
+              >
+                <X size={12} />
+              </button>
+            </span>
+          ))}
+          {uploadingCount > 0 && (
+            <span className="flex items-center gap-1.5 px-2.5 py-1 rounded-lg bg-white/90 border border-slate-200 text-xs font-semibold text-slate-400">
+              <Loader2 size={14} className="animate-spin" />
+              Uploading...
+            </span>
+          )}
+          {attachmentError && (
+            <span className="px-2.5 py-1 rounded-lg bg-red-50 border border-red-100 text-xs font-semibold text-red-600">
+              {attachmentError}
+            </span>
+          )}
+        </div>
+      )}
+
+      {/* SUBMIT ERROR */}
+      {submitError && (
+        <div className="flex items-center gap-2 mb-2 px-3 py-2 rounded-xl bg-red-50 border border-red-100 text-sm font-medium text-red-600">
+          <span className="flex-1">{submitError}</span>
+          <button
+            type="button"
+            onClick={() => setSubmitError(null)}
+            className="p-0.5 rounded text-red-400 hover:text-red-700 hover:bg-red-100"
+            title="Dismiss"
+          >
+            <X size={14} />
+          </button>
+        </div>
+      )}
+
       <form onSubmit={handleSubmit}>
         <div className="relative bg-white/80 backdrop-blur-xl border border-slate-200 rounded-2xl shadow-[0_20px_50px_rgba(0,0,0,0.1)] p-2.5 flex items-center gap-3">
 
-          {/* UNIFIED INDICATOR */}
-          <div className={`flex items-center gap-2 px-3.5 py-2.5 rounded-xl transition-all duration-200 whitespace-nowrap ${
-            selectedNodeId
-              ? 'bg-blue-50 text-blue-600'
-              : 'bg-slate-50 text-slate-600'
-          }`}>
-            {selectedNodeId ? (
+          {/* UNIFIED INDICATOR — click to toggle "Ask the map" */}
+          <button
+            type="button"
+            onClick={() => {
+              setAskMap((v) => !v);
+              setCompare(false);
+            }}
+            title={askMap ? "Back to normal questions" : "Ask a question against the whole map"}
+            className={`flex items-center gap-2 px-3.5 py-2.5 rounded-xl transition-all duration-200 whitespace-nowrap ${
+              askMap
+                ? 'bg-amber-50 text-amber-600'
+                : selectedNodeId
+                  ? 'bg-blue-50 text-blue-600'
+                  : 'bg-slate-50 text-slate-600'
+            }`}
+          >
+            {askMap ? (
+              <>
+                <BookOpen size={18} />
+                <span className="text-sm font-bold">Ask the Map</span>
+              </>
+            ) : selectedNodeId ? (
               <>
                 <CornerDownRight size={18} />
                 <span className="text-sm font-bold">Branching</span>
@@ -166,7 +577,7 @@ export default function QueryBar() {
                 <span className="text-sm font-bold">New Thread</span>
               </>
             )}
-          </div>
+          </button>
 
           {/* INPUT */}
           <input
@@ -176,22 +587,81 @@ export default function QueryBar() {
             onKeyDown={handleKeyDown}
             disabled={isLoading}
             placeholder={
-              selectedNodeId
-                ? "Ask a follow-up..."
-                : "Start a new conversation..."
+              askMap
+                ? "Ask across everything in your map..."
+                : selectedNodeId
+                  ? "Ask a follow-up..."
+                  : "Start a new conversation..."
             }
             className="flex-1 bg-transparent border-none outline-none text-base font-medium text-slate-700 py-3.5 px-3 placeholder:text-slate-400"
           />
 
+          {/* PROMPT TEMPLATES */}
+          <button
+            type="button"
+            onClick={() => {
+              setTemplatesOpen((open) => !open);
+              setAdvancedOpen(false);
+            }}
+            disabled={isLoading}
+            title="Prompt templates"
+            className={`p-2.5 rounded-lg transition-colors disabled:opacity-40 ${
+              templatesOpen ? "bg-blue-50 text-blue-600" : "text-slate-500 hover:bg-slate-100"
+            }`}
+          >
+            <BookMarked size={20} />
+          </button>
+
+          {/* ADVANCED SETTINGS — dot when anything is overridden */}
+          <button
+            type="button"
+            onClick={() => {
+              setAdvancedOpen((open) => !open);
+              setTemplatesOpen(false);
+            }}
+            disabled={isLoading}
+            title="Advanced settings"
+            className={`relative p-2.5 rounded-lg transition-colors disabled:opacity-40 ${
+              advancedOpen ? "bg-blue-50 text-blue-600" : "text-slate-500 hover:bg-slate-100"
+            }`}
+          >
+            <SlidersHorizontal size={20} />
+            {(hasGenerationParams(genParams) || bypassCache) && (
+              <span className="absolute top-1.5 right-1.5 w-2 h-2 rounded-full bg-blue-500" />
+            )}
+          </button>
+
+          {/* COMPARE MODELS */}
+          <button
+            type="button"
+            onClick={() => setCompare((v) => !v)}
+            disabled={askMap || isLoading}
+            title={compare ? "Back to a single model" : "Compare two models side by side"}
+            className={`p-2.5 rounded-lg transition-colors disabled:opacity-40 ${
+              compare ? "bg-teal-50 text-teal-600" : "text-slate-500 hover:bg-slate-100"
+            }`}
+          >
+            <Columns2 size={20} />
+          </button>
+
           {/* FILE ATTACHMENT */}
           <button
             type="button"
             onClick={() => fileInputRef.current?.click()}
-            className="p-2.5 rounded-lg text-slate-500 hover:bg-slate-100 transition-colors"
+            disabled={askMap || isLoading}
+            title={askMap ? "Attachments aren't used when asking the map" : "Attach files"}
+            className="p-2.5 rounded-lg text-slate-500 hover:bg-slate-100 transition-colors disabled:opacity-40 disabled:hover:bg-transparent"
           >
             <Paperclip size={20} />
           </button>
-          <input ref={fileInputRef} type="file" hidden />
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept={ATTACHMENT_ACCEPT}
+            multiple
+            hidden
+            onChange={handleFilesPicked}
+          />
 
           {/* MICROPHONE */}
           <button
@@ -206,15 +676,18 @@ export default function QueryBar() {
             {isListening ? <MicOff size={20} /> : <Mic size={20} />}
           </button>
 
-          {/* SEND / LOADING */}
+          {/* SEND / STOP */}
           <AnimatePresence mode="wait">
             {isLoading ? (
-              <motion.div
-                key="loading"
-                className="p-2.5 rounded-xl bg-slate-100 text-slate-400"
+              <motion.button
+                key="stop"
+                type="button"
+                onClick={handleStop}
+                title="Stop generating"
+                className="p-2.5 rounded-xl bg-slate-800 text-white hover:bg-slate-700 transition-all"
               >
-                <Loader2 size={20} className="animate-spin" />
-              </motion.div>
+                <Square size={20} fill="currentColor" />
+              </motion.button>
             ) : (
               <motion.button
                 key="send"
@@ -0,0 +1,83 @@
+'use client';
+
+import React, { memo } from 'react';
+import { BaseEdge, EdgeLabelRenderer, EdgeProps, getBezierPath } from 'reactflow';
+import { Check, X } from 'lucide-react';
+import { RelatedEdgeData } from '../lib/reactFlowIntegration';
+
+/**
+ * A related (cross-thread) link. Suggested links show their similarity
+ * with accept/dismiss buttons at the midpoint; accepted links only show
+ * a remove button on hover.
+ */
+const RelatedEdge: React.FC<EdgeProps<RelatedEdgeData>> = ({
+  id,
+  sourceX,
+  sourceY,
+  targetX,
+  targetY,
+  sourcePosition,
+  targetPosition,
+  style,
+  data,
+}) => {
+  const [path, labelX, labelY] = getBezierPath({
+    sourceX,
+    sourceY,
+    sourcePosition,
+    targetX,
+    targetY,
+    targetPosition,
+  });
+
+  const isSuggested = data?.status !== 'accepted';
+
+  return (
+    <>
+      <BaseEdge id={id} path={path} style={style} />
+      {data && (
+        <EdgeLabelRenderer>
+          <div
+            className="nodrag nopan absolute group"
+            style={{
+              transform: `translate(-50%, -50%) translate(${labelX}px, ${labelY}px)`,
+              pointerEvents: 'all',
+            }}
+          >
+            {isSuggested ? (
+              <div className="flex items-center gap-1 rounded-full border border-indigo-100 bg-white/90 px-1.5 py-0.5 shadow-sm">
+                <span className="text-[10px] font-semibold text-indigo-400 px-1">
+                  Related{data.score !== undefined ? ` ${Math.round(data.score * 100)}%` : ''}
+                </span>
+                <button
+                  onClick={() => data.onAccept(data.edgeId)}
+                  className="p-0.5 rounded-full text-slate-400 hover:text-emerald-600 hover:bg-emerald-50"
+                  title="Keep this link"
+                >
+                  <Check className="w-3 h-3" />
+                </button>
+                <button
+                  onClick={() => data.onDismiss(data.edgeId)}
+                  className="p-0.5 rounded-full text-slate-400 hover:text-red-500 hover:bg-red-50"
+                  title="Dismiss this link"
+                >
+                  <X className="w-3 h-3" />
+                </button>
+              </div>
+            ) : (
+              <button
+                onClick={() => data.onDismiss(data.edgeId)}
+                className="p-1 rounded-full border border-indigo-100 bg-white text-slate-400 opacity-0 group-hover:opacity-100 hover:text-red-500 transition-opacity"
+                title="Remove this link"
+              >
+                <X className="w-3 h-3" />
+              </button>
+            )}
+          </div>
+        </EdgeLabelRenderer>
+      )}
+    </>
+  );
+};
+
+export default memo(RelatedEdge);
@@ -0,0 +1,127 @@
+'use client';
+
+import React, { useEffect, useRef, useState } from 'react';
+import { Search, Loader2, X } from 'lucide-react';
+import type { SearchResult } from '../lib/search';
+
+interface SearchPanelProps {
+  mindmapId: string | null;
+  onSelect: (nodeId: string) => void;
+  onClose: () => void;
+}
+
+// Wait for a pause in typing before hitting the server
+const SEARCH_DEBOUNCE_MS = 300;
+
+/**
+ * Semantic search over the map (/api/mindmap/search).
+ * Picking a result hands its node id to the canvas, which selects it
+ * and flies the viewport there.
+ */
+const SearchPanel: React.FC<SearchPanelProps> = ({ mindmapId, onSelect, onClose }) => {
+  const [query, setQuery] = useState('');
+  const [results, setResults] = useState<SearchResult[]>([]);
+  const [isSearching, setIsSearching] = useState(false);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    inputRef.current?.focus();
+  }, []);
+
+  useEffect(() => {
+    const handleEsc = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleEsc);
+    return () => window.removeEventListener('keydown', handleEsc);
+  }, [onClose]);
+
+  useEffect(() => {
+    const q = query.trim();
+    if (!q) return;
+
+    const controller = new AbortController();
+    const timer = setTimeout(async () => {
+      setIsSearching(true);
+      try {
+        const params = new URLSearchParams({ q });
+        if (mindmapId) params.set('mindmapId', mindmapId);
+        const res = await fetch(`/api/mindmap/search?${params}`, {
+          signal: controller.signal,
+        });
+        if (!res.ok) throw new Error(`Search failed: ${res.status}`);
+        const data: { results: SearchResult[] } = await res.json();
+        setResults(data.results);
+      } catch (err) {
+        if (!controller.signal.aborted) console.error('[SearchPanel] Search error:', err);
+      } finally {
+        if (!controller.signal.aborted) setIsSearching(false);
+      }
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [query, mindmapId]);
+
+  const visibleResults = query.trim() ? results : [];
+
+  return (
+    <div className="absolute top-4 left-1/2 -translate-x-1/2 z-50 w-full max-w-md px-4">
+      <div className="rounded-xl border border-slate-200 bg-white/95 backdrop-blur shadow-xl overflow-hidden">
+        <div className="flex items-center gap-2 px-3 py-2.5 border-b border-slate-100">
+          {isSearching ? (
+            <Loader2 className="w-4 h-4 animate-spin text-blue-500" />
+          ) : (
+            <Search className="w-4 h-4 text-slate-400" />
+          )}
+          <input
+            ref={inputRef}
+            type="text"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Search your map..."
+            className="flex-1 bg-transparent border-none outline-none text-sm text-slate-700 placeholder:text-slate-400"
+          />
+          <button
+            onClick={onClose}
+            className="p-1 rounded text-slate-400 hover:text-slate-700 hover:bg-slate-100"
+            title="Close search"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+
+        {visibleResults.length > 0 && (
+          <ul className="max-h-[50vh] overflow-y-auto divide-y divide-slate-100">
+            {visibleResults.map((result) => (
+              <li key={result.id}>
+                <button
+                  onClick={() => onSelect(result.id)}
+                  className="w-full text-left px-4 py-3 hover:bg-slate-50 transition-colors"
+                >
+                  <div className="flex justify-between gap-3">
+                    <span className="text-sm font-semibold text-slate-800 line-clamp-1">
+                      {result.content}
+                    </span>
+                    <span className="text-[10px] font-mono text-slate-400 pt-0.5">
+                      {(result.score * 100).toFixed(0)}%
+                    </span>
+                  </div>
+                  <p className="text-xs text-slate-500 line-clamp-2 mt-0.5">{result.snippet}</p>
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {query.trim() && !isSearching && visibleResults.length === 0 && (
+          <p className="px-4 py-3 text-xs text-slate-400">No matching nodes.</p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SearchPanel;
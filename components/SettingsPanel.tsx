@@ -0,0 +1,215 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { Settings2, Loader2, X } from 'lucide-react';
+import {
+  PromptSettings,
+  DEFAULT_PROMPT_SETTINGS,
+  TONE_OPTIONS,
+  LENGTH_OPTIONS,
+  MAX_INSTRUCTIONS_CHARS,
+  buildSystemPrompt,
+} from '../lib/promptSettings';
+
+interface SettingsPanelProps {
+  mindmapId: string | null;
+  onClose: () => void;
+}
+
+/**
+ * The mindmap's prompt settings (/api/mindmap/settings). Everything set
+ * here becomes the system prompt sent with every answer in this map;
+ * the preview shows exactly what the model will receive.
+ */
+const SettingsPanel: React.FC<SettingsPanelProps> = ({ mindmapId, onClose }) => {
+  const [settings, setSettings] = useState<PromptSettings>(DEFAULT_PROMPT_SETTINGS);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const handleEsc = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleEsc);
+    return () => window.removeEventListener('keydown', handleEsc);
+  }, [onClose]);
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        const query = mindmapId ? `?mindmapId=${encodeURIComponent(mindmapId)}` : '';
+        const res = await fetch(`/api/mindmap/settings${query}`);
+        if (!res.ok) throw new Error(`Failed to load settings: ${res.status}`);
+        const data: { settings: PromptSettings } = await res.json();
+        setSettings(data.settings);
+      } catch (err) {
+        console.error('[SettingsPanel] Load error:', err);
+        setError('Could not load settings.');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    load();
+  }, [mindmapId]);
+
+  const update = <K extends keyof PromptSettings>(key: K, value: PromptSettings[K]) => {
+    setSettings((prev) => ({ ...prev, [key]: value }));
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    setError(null);
+
+    try {
+      const res = await fetch('/api/mindmap/settings', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ settings, mindmapId }),
+      });
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}));
+        throw new Error(data.error || `Failed to save settings: ${res.status}`);
+      }
+      onClose();
+    } catch (err) {
+      console.error('[SettingsPanel] Save error:', err);
+      setError((err as Error).message);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const inputClass =
+    'w-full rounded-lg border border-slate-200 bg-white px-3 py-2 text-sm text-slate-700 outline-none focus:border-blue-400 focus:ring-2 focus:ring-blue-100';
+  const labelClass = 'block text-[10px] uppercase tracking-wider font-bold text-slate-400 mb-1.5';
+
+  return (
+    <div className="fixed inset-0 z-[9999] flex items-center justify-center p-4">
+      <div
+        className="absolute inset-0 bg-slate-900/40 backdrop-blur-sm"
+        onClick={onClose}
+      />
+
+      <div className="relative bg-white w-full max-w-lg max-h-[90vh] rounded-2xl shadow-2xl flex flex-col overflow-hidden">
+        <div className="flex items-center justify-between px-6 py-4 border-b border-slate-100">
+          <div className="flex items-center gap-2">
+            <Settings2 size={18} className="text-slate-500" />
+            <h2 className="text-base font-bold text-slate-800">Answer style</h2>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-slate-50 rounded-lg transition-colors text-slate-400 hover:text-slate-600"
+          >
+            <X size={18} />
+          </button>
+        </div>
+
+        {isLoading ? (
+          <div className="flex justify-center py-16">
+            <Loader2 className="w-5 h-5 animate-spin text-slate-400" />
+          </div>
+        ) : (
+          <div className="flex-1 overflow-y-auto px-6 py-5 space-y-4">
+            <div>
+              <label className={labelClass}>Persona</label>
+              <input
+                type="text"
+                value={settings.persona}
+                onChange={(e) => update('persona', e.target.value)}
+                placeholder="e.g. a patient physics tutor"
+                maxLength={200}
+                className={inputClass}
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label className={labelClass}>Tone</label>
+                <select
+                  value={settings.tone}
+                  onChange={(e) => update('tone', e.target.value as PromptSettings['tone'])}
+                  className={inputClass}
+                >
+                  {TONE_OPTIONS.map((option) => (
+                    <option key={option.value} value={option.value}>
+                      {option.label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className={labelClass}>Answer length</label>
+                <select
+                  value={settings.length}
+                  onChange={(e) => update('length', e.target.value as PromptSettings['length'])}
+                  className={inputClass}
+                >
+                  {LENGTH_OPTIONS.map((option) => (
+                    <option key={option.value} value={option.value}>
+                      {option.label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            </div>
+
+            <div>
+              <label className={labelClass}>Output language</label>
+              <input
+                type="text"
+                value={settings.language}
+                onChange={(e) => update('language', e.target.value)}
+                placeholder="Same as the question"
+                maxLength={200}
+                className={inputClass}
+              />
+            </div>
+
+            <div>
+              <label className={labelClass}>Other instructions</label>
+              <textarea
+                value={settings.instructions}
+                onChange={(e) => update('instructions', e.target.value)}
+                placeholder="Anything else the model should always do"
+                maxLength={MAX_INSTRUCTIONS_CHARS}
+                rows={4}
+                className={`${inputClass} resize-y`}
+              />
+            </div>
+
+            <div>
+              <label className={labelClass}>System prompt preview</label>
+              <pre className="whitespace-pre-wrap rounded-lg bg-slate-50 border border-slate-100 px-3 py-2 text-xs text-slate-500 font-mono">
+                {buildSystemPrompt(settings)}
+              </pre>
+            </div>
+          </div>
+        )}
+
+        <div className="flex items-center justify-between gap-3 px-6 py-4 border-t border-slate-100">
+          <span className="text-xs font-medium text-red-600">{error}</span>
+          <div className="flex gap-2">
+            <button
+              onClick={onClose}
+              className="px-4 py-2 rounded-lg text-sm font-semibold text-slate-500 hover:bg-slate-100"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleSave}
+              disabled={isLoading || isSaving}
+              className="flex items-center gap-1.5 px-4 py-2 rounded-lg text-sm font-semibold bg-slate-900 text-white hover:bg-slate-800 disabled:opacity-50"
+            >
+              {isSaving && <Loader2 className="w-3.5 h-3.5 animate-spin" />}
+              Save
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SettingsPanel;
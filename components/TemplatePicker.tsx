@@ -0,0 +1,233 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { ArrowLeft, BookmarkPlus, Loader2, Trash2, X } from 'lucide-react';
+import {
+  PromptTemplate,
+  MAX_TEMPLATE_NAME_CHARS,
+  fillTemplate,
+  getTemplateVariables,
+} from '../lib/promptTemplates';
+
+interface TemplatePickerProps {
+  currentQuery: string; // Offered for "Save as template"
+  onInsert: (text: string) => void;
+  onClose: () => void;
+}
+
+/**
+ * The user's prompt templates (/api/templates), opened from the
+ * QueryBar. Picking a template with {{variables}} asks for their values
+ * first; the filled-in text replaces the query. The current query can
+ * be saved as a new template.
+ */
+const TemplatePicker: React.FC<TemplatePickerProps> = ({ currentQuery, onInsert, onClose }) => {
+  const [templates, setTemplates] = useState<PromptTemplate[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Template whose variables are being filled in
+  const [active, setActive] = useState<PromptTemplate | null>(null);
+  const [values, setValues] = useState<Record<string, string>>({});
+
+  const [saveName, setSaveName] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    const handleEsc = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleEsc);
+    return () => window.removeEventListener('keydown', handleEsc);
+  }, [onClose]);
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        const res = await fetch('/api/templates');
+        if (!res.ok) throw new Error(`Failed to load templates: ${res.status}`);
+        const data: { templates: PromptTemplate[] } = await res.json();
+        setTemplates(data.templates);
+      } catch (err) {
+        console.error('[TemplatePicker] Load error:', err);
+        setError('Could not load templates.');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    load();
+  }, []);
+
+  const handlePick = (template: PromptTemplate) => {
+    if (getTemplateVariables(template.body).length === 0) {
+      onInsert(template.body);
+      return;
+    }
+    setActive(template);
+    setValues({});
+  };
+
+  const handleFill = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (active) onInsert(fillTemplate(active.body, values));
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!saveName.trim() || !currentQuery.trim()) return;
+
+    setIsSaving(true);
+    setError(null);
+
+    try {
+      const res = await fetch('/api/templates', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name: saveName.trim(), body: currentQuery.trim() }),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(data.error || `Failed to save template: ${res.status}`);
+
+      setTemplates((prev) =>
+        [...prev, data.template as PromptTemplate].sort((a, b) => a.name.localeCompare(b.name))
+      );
+      setSaveName('');
+    } catch (err) {
+      console.error('[TemplatePicker] Save error:', err);
+      setError((err as Error).message);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    const previous = templates;
+    setTemplates((prev) => prev.filter((t) => t.id !== id));
+
+    try {
+      const res = await fetch(`/api/templates/${encodeURIComponent(id)}`, { method: 'DELETE' });
+      if (!res.ok) throw new Error(`Failed to delete template: ${res.status}`);
+    } catch (err) {
+      console.error('[TemplatePicker] Delete error:', err);
+      setTemplates(previous);
+      setError('Could not delete the template.');
+    }
+  };
+
+  return (
+    <div className="absolute bottom-full left-4 right-4 mb-3 rounded-xl border border-slate-200 bg-white/95 backdrop-blur shadow-xl overflow-hidden">
+      <div className="flex items-center justify-between px-4 py-2.5 border-b border-slate-100">
+        {active ? (
+          <button
+            type="button"
+            onClick={() => setActive(null)}
+            className="flex items-center gap-1.5 text-xs font-bold text-slate-600 hover:text-slate-900"
+          >
+            <ArrowLeft className="w-3.5 h-3.5" />
+            {active.name}
+          </button>
+        ) : (
+          <span className="text-xs font-bold text-slate-700">Prompt templates</span>
+        )}
+        <button
+          type="button"
+          onClick={onClose}
+          className="p-1 rounded text-slate-400 hover:text-slate-700 hover:bg-slate-100"
+          title="Close templates"
+        >
+          <X className="w-3.5 h-3.5" />
+        </button>
+      </div>
+
+      {active ? (
+        <form onSubmit={handleFill} className="p-4 space-y-3">
+          <p className="text-xs text-slate-500 whitespace-pre-wrap">{active.body}</p>
+          {getTemplateVariables(active.body).map((name, i) => (
+            <label key={name} className="block">
+              <span className="block text-[10px] uppercase tracking-wider font-bold text-slate-400 mb-1">
+                {name}
+              </span>
+              <input
+                type="text"
+                autoFocus={i === 0}
+                value={values[name] || ''}
+                onChange={(e) => setValues((prev) => ({ ...prev, [name]: e.target.value }))}
+                className="w-full rounded-lg border border-slate-200 px-3 py-1.5 text-sm text-slate-700 outline-none focus:border-blue-400"
+              />
+            </label>
+          ))}
+          <button
+            type="submit"
+            className="w-full rounded-lg bg-slate-900 py-2 text-sm font-semibold text-white hover:bg-slate-800"
+          >
+            Insert
+          </button>
+        </form>
+      ) : (
+        <>
+          {isLoading ? (
+            <div className="flex justify-center py-6">
+              <Loader2 className="w-4 h-4 animate-spin text-slate-400" />
+            </div>
+          ) : templates.length === 0 ? (
+            <p className="px-4 py-3 text-xs text-slate-400">
+              No templates yet. Write a question using {'{{variables}}'} and save it below.
+            </p>
+          ) : (
+            <ul className="max-h-[40vh] overflow-y-auto divide-y divide-slate-100">
+              {templates.map((template) => (
+                <li key={template.id} className="group flex items-start gap-2 px-4 py-2.5 hover:bg-slate-50">
+                  <button
+                    type="button"
+                    onClick={() => handlePick(template)}
+                    className="flex-1 text-left"
+                  >
+                    <span className="block text-sm font-semibold text-slate-800">{template.name}</span>
+                    <span className="block text-xs text-slate-500 line-clamp-1">{template.body}</span>
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => handleDelete(template.id)}
+                    className="p-1 rounded text-slate-300 opacity-0 group-hover:opacity-100 hover:text-red-500 hover:bg-red-50"
+                    title="Delete template"
+                  >
+                    <Trash2 className="w-3.5 h-3.5" />
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <form onSubmit={handleSave} className="flex items-center gap-2 px-4 py-2.5 border-t border-slate-100">
+            <BookmarkPlus className="w-4 h-4 text-slate-400 flex-shrink-0" />
+            <input
+              type="text"
+              value={saveName}
+              onChange={(e) => setSaveName(e.target.value)}
+              maxLength={MAX_TEMPLATE_NAME_CHARS}
+              disabled={!currentQuery.trim()}
+              placeholder={
+                currentQuery.trim() ? 'Save current question as...' : 'Type a question to save it as a template'
+              }
+              className="flex-1 bg-transparent text-sm text-slate-700 outline-none placeholder:text-slate-400 disabled:cursor-not-allowed"
+            />
+            {saveName.trim() && (
+              <button
+                type="submit"
+                disabled={isSaving}
+                className="px-2.5 py-1 rounded-md text-xs font-semibold bg-slate-900 text-white hover:bg-slate-800 disabled:opacity-50"
+              >
+                Save
+              </button>
+            )}
+          </form>
+        </>
+      )}
+
+      {error && <p className="px-4 pb-2.5 text-xs font-medium text-red-600">{error}</p>}
+    </div>
+  );
+};
+
+export default TemplatePicker;
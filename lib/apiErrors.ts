@@ -0,0 +1,55 @@
+/**
+ * API Errors — what the UI tells the user when a request fails
+ *
+ * Most failures get the caller's generic message ("Failed to create
+ * node."). Failures the user can make sense of carry an `error` written
+ * for them, which is shown instead:
+ *   - rate limits and quotas (429, see lib/rateLimit)
+ *   - classified generation errors — body `code` set to the
+ *     GenerationErrorKind, e.g. 'timeout' (see lib/llm/errors.ts)
+ *
+ * Usage:
+ *   if (!res.ok) throw await toApiError(res, 'Regenerate failed');
+ *   ...
+ *   catch (err) { alert(getErrorMessage(err, 'Failed to regenerate response.')); }
+ *
+ * Client-safe.
+ */
+
+const USER_FACING = 'UserFacingError';
+
+/**
+ * An Error whose message is shown to the user as is.
+ */
+export function userFacingError(message: string): Error {
+  const error = new Error(message);
+  error.name = USER_FACING;
+  return error;
+}
+
+/**
+ * An Error for a failed response. Its message is user-facing for 429s
+ * and classified errors, and `${context}: ${status}` (for logs) otherwise.
+ */
+export async function toApiError(res: Response, context: string): Promise<Error> {
+  const data = await res.json().catch(() => ({}));
+  if ((res.status === 429 || data.code) && typeof data.error === 'string' && data.error) {
+    return userFacingError(data.error);
+  }
+  return new Error(`${context}: ${res.status}`);
+}
+
+/**
+ * Whether the error comes from aborting a fetch (e.g. a Stop button).
+ */
+export function isAbortError(err: unknown): boolean {
+  return err instanceof Error && err.name === 'AbortError';
+}
+
+/**
+ * The message to show for an error: its own if it is user-facing,
+ * otherwise the fallback.
+ */
+export function getErrorMessage(err: unknown, fallback: string): string {
+  return err instanceof Error && err.name === USER_FACING ? err.message : fallback;
+}
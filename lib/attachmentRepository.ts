@@ -0,0 +1,137 @@
+/**
+ * Attachments — server-side data access
+ *
+ * An uploaded file is stored twice over:
+ *   - its bytes, through the storage adapter (lib/storage), for download
+ *   - a record in the `attachments` collection with its metadata and
+ *     extracted text, which is what gets added to prompts
+ *
+ * Attachments belong to the user who uploaded them; every lookup is
+ * scoped by userId.
+ */
+
+import { getDb } from './db';
+import { getStorage, StoredFile } from './storage';
+import { AttachmentMeta, AttachmentKind, MAX_ATTACHMENTS_PER_QUERY } from './attachments';
+import { extractText } from './textExtraction';
+
+/* ============================================================
+   TYPES
+============================================================ */
+
+export interface StoredAttachment extends AttachmentMeta {
+  userId: string;
+  storageKey: string;
+  text: string; // Extracted text
+  createdAt: Date;
+}
+
+export function generateAttachmentId(): string {
+  return `att-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+}
+
+export function toAttachmentMeta(attachment: StoredAttachment): AttachmentMeta {
+  const { id, name, mimeType, size, kind } = attachment;
+  return { id, name, mimeType, size, kind };
+}
+
+/* ============================================================
+   WRITE
+============================================================ */
+
+/**
+ * Extract the file's text, then store the bytes and the record.
+ * Returns null (nothing stored) if the content doesn't match its kind.
+ */
+export async function saveAttachment(
+  userId: string,
+  file: { name: string; mimeType: string; kind: AttachmentKind; data: Buffer }
+): Promise<StoredAttachment | null> {
+  const text = await extractText(file.kind, file.data);
+  if (text === null) return null;
+
+  const id = generateAttachmentId();
+  const attachment: StoredAttachment = {
+    id,
+    userId,
+    name: file.name,
+    mimeType: file.mimeType || 'application/octet-stream',
+    size: file.data.length,
+    kind: file.kind,
+    storageKey: `${userId}/${id}`,
+    text,
+    createdAt: new Date(),
+  };
+
+  await getStorage().put(attachment.storageKey, file.data, attachment.mimeType);
+
+  const db = await getDb();
+  await db.collection('attachments').insertOne({ ...attachment });
+
+  return attachment;
+}
+
+/* ============================================================
+   READ
+============================================================ */
+
+/**
+ * The user's attachments with the given ids, in the order given.
+ * Unknown ids (or other users' attachments) are left out.
+ */
+export async function getAttachments(
+  userId: string,
+  ids: string[]
+): Promise<StoredAttachment[]> {
+  if (ids.length === 0) return [];
+
+  const db = await getDb();
+  const found = (await db
+    .collection('attachments')
+    .find({ userId, id: { $in: ids } }, { projection: { _id: 0 } })
+    .toArray()) as unknown as StoredAttachment[];
+
+  const byId = new Map(found.map((attachment) => [attachment.id, attachment]));
+  return ids
+    .map((id) => byId.get(id))
+    .filter((attachment): attachment is StoredAttachment => !!attachment);
+}
+
+/**
+ * Resolve the `attachmentIds` of a query request.
+ * Returns null if the value is malformed, over the per-query limit, or
+ * names an attachment the user doesn't have.
+ */
+export async function resolveQueryAttachments(
+  userId: string,
+  attachmentIds: unknown
+): Promise<StoredAttachment[] | null> {
+  if (attachmentIds === undefined) return [];
+  if (
+    !Array.isArray(attachmentIds) ||
+    attachmentIds.length > MAX_ATTACHMENTS_PER_QUERY ||
+    !attachmentIds.every((id) => typeof id === 'string')
+  ) {
+    return null;
+  }
+
+  const ids = Array.from(new Set(attachmentIds as string[]));
+  const attachments = await getAttachments(userId, ids);
+  return attachments.length === ids.length ? attachments : null;
+}
+
+/**
+ * An attachment's record and bytes, for download.
+ */
+export async function getAttachmentFile(
+  userId: string,
+  id: string
+): Promise<{ attachment: StoredAttachment; file: StoredFile } | null> {
+  const [attachment] = await getAttachments(userId, [id]);
+  if (!attachment) return null;
+
+  const file = await getStorage().get(attachment.storageKey);
+  if (!file) return null;
+
+  return { attachment, file };
+}
@@ -0,0 +1,128 @@
+/**
+ * Attachments — files uploaded with a query
+ *
+ * Shared by the client (QueryBar validates before uploading, nodes show
+ * chips) and the server (upload route, prompt building). No I/O here;
+ * storage and extraction live in attachmentRepository.ts.
+ *
+ * Flow:
+ *   1. QueryBar uploads each picked file to POST /api/mindmap/attachments
+ *      → the file is stored (lib/storage) and its text extracted
+ *   2. The query is sent with `attachmentIds`
+ *   3. The route adds the extracted text to the prompt and records
+ *      AttachmentMeta[] on the node as metadata.attachments
+ */
+
+/* ============================================================
+   TYPES
+============================================================ */
+
+export type AttachmentKind = 'text' | 'pdf';
+
+/**
+ * What a node stores about each of its attachments.
+ */
+export interface AttachmentMeta {
+  id: string;
+  name: string;
+  mimeType: string;
+  size: number; // Bytes
+  kind: AttachmentKind;
+}
+
+/* ============================================================
+   LIMITS
+============================================================ */
+
+export const MAX_ATTACHMENT_BYTES = 5 * 1024 * 1024;
+export const MAX_ATTACHMENTS_PER_QUERY = 5;
+
+// Extracted text kept per file, and how much of it goes into a prompt
+export const MAX_EXTRACTED_CHARS = 200_000;
+const MAX_PROMPT_CHARS_PER_ATTACHMENT = 20_000;
+
+const TEXT_EXTENSIONS = [
+  'txt', 'md', 'markdown', 'csv', 'tsv', 'json', 'yaml', 'yml', 'xml', 'html', 'css',
+  'js', 'jsx', 'ts', 'tsx', 'mjs', 'py', 'java', 'c', 'h', 'cpp', 'hpp', 'cs', 'go',
+  'rs', 'rb', 'php', 'swift', 'kt', 'scala', 'sh', 'sql', 'r', 'lua',
+];
+
+/**
+ * For the file input's `accept` attribute.
+ */
+export const ATTACHMENT_ACCEPT = [...TEXT_EXTENSIONS, 'pdf'].map((ext) => `.${ext}`).join(',');
+
+/* ============================================================
+   VALIDATION
+============================================================ */
+
+function getExtension(name: string): string {
+  const dot = name.lastIndexOf('.');
+  return dot === -1 ? '' : name.slice(dot + 1).toLowerCase();
+}
+
+/**
+ * Attachment kind from the file name, or null if the type isn't allowed.
+ * Browsers report inconsistent MIME types for source files, so the
+ * extension decides; the server also checks the content.
+ */
+export function getAttachmentKind(name: string): AttachmentKind | null {
+  const ext = getExtension(name);
+  if (ext === 'pdf') return 'pdf';
+  if (TEXT_EXTENSIONS.includes(ext)) return 'text';
+  return null;
+}
+
+/**
+ * Why a file can't be attached, or null if it can.
+ */
+export function validateAttachment(file: { name: string; size: number }): string | null {
+  if (!getAttachmentKind(file.name)) {
+    return `"${file.name}" is not a supported file type (text, markdown, CSV, code or PDF).`;
+  }
+  if (file.size > MAX_ATTACHMENT_BYTES) {
+    return `"${file.name}" is larger than ${formatBytes(MAX_ATTACHMENT_BYTES)}.`;
+  }
+  if (file.size === 0) {
+    return `"${file.name}" is empty.`;
+  }
+  return null;
+}
+
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+/**
+ * The node's attachments (metadata.attachments), or [].
+ */
+export function getNodeAttachments(metadata?: Record<string, unknown>): AttachmentMeta[] {
+  const attachments = metadata?.attachments;
+  return Array.isArray(attachments) ? (attachments as AttachmentMeta[]) : [];
+}
+
+/* ============================================================
+   PROMPT
+============================================================ */
+
+/**
+ * The user's question followed by the text of each attached file.
+ */
+export function buildPromptWithAttachments(
+  query: string,
+  attachments: Array<{ name: string; text: string }>
+): string {
+  if (attachments.length === 0) return query;
+
+  const files = attachments.map((attachment) => {
+    const text =
+      attachment.text.length > MAX_PROMPT_CHARS_PER_ATTACHMENT
+        ? attachment.text.slice(0, MAX_PROMPT_CHARS_PER_ATTACHMENT) + '\n[… truncated]'
+        : attachment.text;
+    return `--- ${attachment.name} ---\n${text}\n--- end of ${attachment.name} ---`;
+  });
+
+  return [query, '', 'Attached files:', '', files.join('\n\n')].join('\n');
+}
@@ -0,0 +1,130 @@
+/**
+ * Model Comparisons
+ *
+ * A comparison node answers one question with two models at once
+ * (metadata.kind = 'comparison'). Both answers are stored as answer
+ * versions (see versions.ts), and metadata.comparison lists them in
+ * column order:
+ *
+ *   comparison: { versionIds: [left, right], promotedVersionId }
+ *
+ * Promoting an answer makes it the active version, so it becomes the
+ * node's canonical `response`, and follow-up branches continue from it
+ * (history reads `response`). The other answer stays as an alternate.
+ * Until one is promoted, the left answer is active.
+ *
+ * Pure functions only: works on stored nodes and GraphNodes alike.
+ */
+
+import {
+  NodeVersion,
+  VersionedNode,
+  VersionUpdate,
+  getVersions,
+  setActiveVersion,
+} from './versions';
+
+/* ============================================================
+   TYPES
+============================================================ */
+
+export const COMPARISON_KIND = 'comparison';
+
+// How many models a comparison runs
+export const COMPARISON_SIZE = 2;
+
+export interface ComparisonMeta {
+  versionIds: string[]; // Column order
+  promotedVersionId: string | null;
+}
+
+/**
+ * A comparison as rendered: its answers in column order.
+ */
+export interface Comparison {
+  answers: NodeVersion[];
+  promotedVersionId: string | null;
+}
+
+/* ============================================================
+   READ
+============================================================ */
+
+export function isComparison(node: Pick<VersionedNode, 'metadata'>): boolean {
+  return node.metadata?.kind === COMPARISON_KIND;
+}
+
+/**
+ * The answers of a comparison node, or null for any other node.
+ */
+export function getComparison(node: VersionedNode): Comparison | null {
+  if (!isComparison(node)) return null;
+
+  const meta = node.metadata?.comparison as ComparisonMeta | undefined;
+  if (!meta || !Array.isArray(meta.versionIds)) return null;
+
+  const versions = getVersions(node);
+  const answers = meta.versionIds
+    .map((id) => versions.find((v) => v.id === id))
+    .filter((v): v is NodeVersion => Boolean(v));
+
+  return {
+    answers,
+    promotedVersionId: meta.promotedVersionId ?? null,
+  };
+}
+
+/* ============================================================
+   WRITE (return the fields to update — never mutate)
+============================================================ */
+
+/**
+ * Response and metadata of a new comparison node; the first answer is
+ * active until one is promoted.
+ */
+export function createComparison(answers: NodeVersion[]): VersionUpdate {
+  const [first] = answers;
+  const comparison: ComparisonMeta = {
+    versionIds: answers.map((answer) => answer.id),
+    promotedVersionId: null,
+  };
+
+  return {
+    response: first.response,
+    metadata: {
+      kind: COMPARISON_KIND,
+      comparison,
+      versions: answers,
+      activeVersionId: first.id,
+      provider: first.provider,
+      model: first.model,
+      usage: first.usage,
+    },
+  };
+}
+
+/**
+ * Make one of the compared answers canonical.
+ * Returns null if the node is not a comparison or the id isn't one of
+ * its answers.
+ */
+export function promoteAnswer(node: VersionedNode, versionId: string): VersionUpdate | null {
+  const comparison = getComparison(node);
+  if (!comparison || !comparison.answers.some((answer) => answer.id === versionId)) {
+    return null;
+  }
+
+  const updates = setActiveVersion(node, versionId);
+  if (!updates) return null;
+
+  return {
+    ...updates,
+    metadata: {
+      ...updates.metadata,
+      comparison: {
+        versionIds: comparison.answers.map((answer) => answer.id),
+        promotedVersionId: versionId,
+      },
+    },
+  };
+}
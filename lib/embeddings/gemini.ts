@@ -0,0 +1,32 @@
+/**
+ * Gemini embedder (Google Generative AI SDK, batchEmbedContents).
+ *
+ * Env:
+ *   GEMINI_API_KEY          — shared with the Gemini LLM provider
+ *   GEMINI_EMBEDDING_MODEL  — default text-embedding-004
+ */
+
+import { getGeminiClient } from '../llm/gemini';
+import { Embedder } from './types';
+
+const MODEL = process.env.GEMINI_EMBEDDING_MODEL || 'text-embedding-004';
+
+export function createGeminiEmbedder(): Embedder {
+  return {
+    name: 'gemini',
+    model: `gemini:${MODEL}`,
+    relatedThreshold: 0.75,
+
+    async embed(texts) {
+      if (texts.length === 0) return [];
+
+      const model = getGeminiClient().getGenerativeModel({ model: MODEL });
+      const result = await model.batchEmbedContents({
+        requests: texts.map((text) => ({
+          content: { role: 'user', parts: [{ text }] },
+        })),
+      });
+      return result.embeddings.map((embedding) => embedding.values);
+    },
+  };
+}
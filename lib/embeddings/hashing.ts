@@ -0,0 +1,63 @@
+/**
+ * Local hashing embedder (no network, deterministic).
+ *
+ * The "hashing trick": each token and adjacent-token bigram (tokenize()
+ * from retrieval.ts, so stopwords and suffixes are handled the same way)
+ * is hashed into one of DIMENSIONS buckets with a hashed sign, weighted
+ * by sublinear term frequency, and the vector is L2-normalized.
+ *
+ * It only matches shared vocabulary, so it misses true paraphrases that
+ * a neural embedder catches — but it needs no API key, costs nothing,
+ * and gives identical vectors on every machine, which suits dev and CI.
+ */
+
+import { tokenize } from '../retrieval';
+import { Embedder } from './types';
+
+const DIMENSIONS = 512;
+
+/**
+ * FNV-1a, 32-bit.
+ */
+function hash(text: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+export function hashingEmbed(text: string): number[] {
+  const tokens = tokenize(text);
+  const features = [...tokens];
+  for (let i = 1; i < tokens.length; i++) {
+    features.push(`${tokens[i - 1]} ${tokens[i]}`);
+  }
+
+  const counts = new Map<string, number>();
+  for (const feature of features) counts.set(feature, (counts.get(feature) || 0) + 1);
+
+  const vector = new Array<number>(DIMENSIONS).fill(0);
+  for (const [feature, count] of counts) {
+    const h = hash(feature);
+    const sign = h & 0x80000000 ? -1 : 1;
+    vector[h % DIMENSIONS] += sign * (1 + Math.log(count));
+  }
+
+  const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+  return norm > 0 ? vector.map((v) => v / norm) : vector;
+}
+
+export function createHashingEmbedder(): Embedder {
+  return {
+    name: 'hash',
+    model: `hash-${DIMENSIONS}`,
+    // Only shared vocabulary scores at all, so a modest overlap is meaningful
+    relatedThreshold: 0.35,
+
+    async embed(texts) {
+      return texts.map(hashingEmbed);
+    },
+  };
+}
@@ -0,0 +1,108 @@
+/**
+ * Embeddings Facade — backend registry and node embedding helpers
+ *
+ * The backend is chosen by EMBEDDING_PROVIDER:
+ *   "hash"    → local deterministic hashing embedder (default, offline)
+ *   "gemini"  → Gemini embedding API
+ *   "openai"  → OpenAI-compatible /embeddings
+ *
+ * Nodes are embedded when they are written (mindmapRepository) and the
+ * vector is stored next to the node. Embedding is best-effort: a failure
+ * leaves the node without a vector, and search backfills it later.
+ */
+
+import { createHashingEmbedder } from './hashing';
+import { createGeminiEmbedder } from './gemini';
+import { createOpenAIEmbedder } from './openai';
+import { Embedder, NodeEmbedding } from './types';
+
+export type { Embedder, NodeEmbedding } from './types';
+
+// Long answers are clipped; the opening carries most of the meaning
+const MAX_EMBEDDING_TEXT_CHARS = 8000;
+
+/* ============================================================
+   REGISTRY
+============================================================ */
+
+const EMBEDDER_FACTORIES: Record<string, () => Embedder> = {
+  hash: createHashingEmbedder,
+  gemini: createGeminiEmbedder,
+  openai: createOpenAIEmbedder,
+};
+
+const embedders = new Map<string, Embedder>();
+
+/**
+ * The configured embedder (EMBEDDING_PROVIDER, default "hash").
+ */
+export function getEmbedder(): Embedder {
+  const name = process.env.EMBEDDING_PROVIDER || 'hash';
+
+  const cached = embedders.get(name);
+  if (cached) return cached;
+
+  const factory = EMBEDDER_FACTORIES[name];
+  if (!factory) throw new Error(`Unknown embedding provider "${name}"`);
+
+  const embedder = factory();
+  embedders.set(name, embedder);
+  return embedder;
+}
+
+/* ============================================================
+   NODES
+============================================================ */
+
+interface EmbeddableNode {
+  content: string;
+  response: string;
+  embedding?: NodeEmbedding;
+}
+
+export function nodeEmbeddingText(node: EmbeddableNode): string {
+  return `Question: ${node.content}\nAnswer: ${node.response}`.slice(0, MAX_EMBEDDING_TEXT_CHARS);
+}
+
+/**
+ * True if the node has a vector from the configured embedder.
+ */
+export function hasCurrentEmbedding(node: EmbeddableNode, embedder: Embedder): boolean {
+  return node.embedding?.model === embedder.model && node.embedding.vector.length > 0;
+}
+
+/**
+ * Embed nodes in one batch. Never throws: on failure every entry is
+ * null and the error is logged.
+ */
+export async function embedNodes(nodes: EmbeddableNode[]): Promise<(NodeEmbedding | null)[]> {
+  if (nodes.length === 0) return [];
+
+  try {
+    const embedder = getEmbedder();
+    const vectors = await embedder.embed(nodes.map(nodeEmbeddingText));
+    return vectors.map((vector) => ({ model: embedder.model, vector }));
+  } catch (error) {
+    console.error('[embeddings] Failed to embed nodes:', error);
+    return nodes.map(() => null);
+  }
+}
+
+/* ============================================================
+   SIMILARITY
+============================================================ */
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length !== b.length || a.length === 0) return 0;
+
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+
+  return normA > 0 && normB > 0 ? dot / Math.sqrt(normA * normB) : 0;
+}
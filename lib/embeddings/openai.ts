@@ -0,0 +1,46 @@
+/**
+ * OpenAI-compatible embedder (plain HTTP, POST {baseUrl}/embeddings).
+ *
+ * Env:
+ *   OPENAI_API_KEY / OPENAI_BASE_URL — shared with the OpenAI LLM provider
+ *   OPENAI_EMBEDDING_MODEL           — default text-embedding-3-small
+ */
+
+import { Embedder } from './types';
+
+const MODEL = process.env.OPENAI_EMBEDDING_MODEL || 'text-embedding-3-small';
+
+export function createOpenAIEmbedder(): Embedder {
+  return {
+    name: 'openai',
+    model: `openai:${MODEL}`,
+    relatedThreshold: 0.55,
+
+    async embed(texts) {
+      if (texts.length === 0) return [];
+
+      const baseUrl = (process.env.OPENAI_BASE_URL || 'https://api.openai.com/v1').replace(/\/$/, '');
+
+      const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+      if (process.env.OPENAI_API_KEY) {
+        headers.Authorization = `Bearer ${process.env.OPENAI_API_KEY}`;
+      }
+
+      const res = await fetch(`${baseUrl}/embeddings`, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({ model: MODEL, input: texts }),
+      });
+
+      if (!res.ok) {
+        const body = await res.text().catch(() => '');
+        throw new Error(`OpenAI-compatible API error ${res.status}: ${body.slice(0, 200)}`);
+      }
+
+      const data: { data: Array<{ index: number; embedding: number[] }> } = await res.json();
+      return [...data.data]
+        .sort((a, b) => a.index - b.index)
+        .map((item) => item.embedding);
+    },
+  };
+}
@@ -0,0 +1,26 @@
+/**
+ * Embedding Backend Types
+ *
+ * Every embedding backend (local hashing, Gemini, OpenAI-compatible)
+ * implements Embedder. Vectors from different backends — or different
+ * models of one backend — live in different spaces, so each stored
+ * embedding records the `model` that produced it and is recomputed
+ * when the configured embedder changes.
+ */
+
+export interface Embedder {
+  name: string;
+  model: string; // Identifies the vector space, e.g. "hash-512"
+  relatedThreshold: number; // Cosine similarity above which two nodes count as related
+
+  /** One vector per input text, in order. */
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+/**
+ * Stored next to a node (StoredNode.embedding).
+ */
+export interface NodeEmbedding {
+  model: string;
+  vector: number[];
+}
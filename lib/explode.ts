@@ -0,0 +1,139 @@
+/**
+ * Explode (server-side)
+ *
+ * Breaks a node's answer into subtopics and answers each one briefly,
+ * producing a fan of children in one go — the fastest way to grow a map
+ * from a single seed question.
+ *
+ * Two model calls per subtopic would be slow, so this is:
+ *   1. one JSON-mode call listing the subtopics (generateSubtopics())
+ *   2. one call per subtopic (in parallel) for its short answer
+ *      (answerSubtopics())
+ * The route charges the rate limit in between, once the number of
+ * answer calls is known.
+ *
+ * Subtopic answers see the exploded node's lineage as history, exactly
+ * as if the user had asked each question as a follow-up.
+ */
+
+import { ConversationTurn } from './history';
+import { generateResponse, parseJsonItems, CallOptions, LLMUsage, ModelChoice } from './llm';
+
+export const MIN_SUBTOPICS = 3;
+export const MAX_SUBTOPICS = 6;
+
+// Long answers are clipped: the outline is enough to pick subtopics
+const MAX_ANSWER_CHARS = 6000;
+
+/* ============================================================
+   TYPES
+============================================================ */
+
+export interface Subtopic {
+  title: string;
+  question: string;
+}
+
+export interface ExplodedSubtopic extends Subtopic {
+  response: string;
+  usage: LLMUsage;
+}
+
+/* ============================================================
+   SUBTOPICS
+============================================================ */
+
+function buildSubtopicPrompt(question: string, answer: string): string {
+  return [
+    `Break the exchange below into between ${MIN_SUBTOPICS} and ${MAX_SUBTOPICS} distinct subtopics, each worth exploring on its own.`,
+    'For each one give a short title (under 6 words) and a self-contained question about it.',
+    'Respond with JSON only, in the form {"items": [{"title": "...", "question": "..."}]}.',
+    '',
+    `Question: ${question}`,
+    '',
+    `Answer: ${answer.slice(0, MAX_ANSWER_CHARS)}`,
+  ].join('\n');
+}
+
+/**
+ * Normalize one parsed item. Bare strings are accepted as both title
+ * and question, since some models ignore the object shape.
+ */
+function toSubtopic(item: unknown): Subtopic | null {
+  if (typeof item === 'string') {
+    const text = item.trim();
+    return text ? { title: text, question: text } : null;
+  }
+
+  if (item && typeof item === 'object') {
+    const { title, question } = item as Record<string, unknown>;
+    const t = typeof title === 'string' ? title.trim() : '';
+    const q = typeof question === 'string' ? question.trim() : '';
+    if (!t && !q) return null;
+    return { title: t || q, question: q || t };
+  }
+
+  return null;
+}
+
+/**
+ * Ask the model for the subtopics of a question/answer pair.
+ * Deduplicated by question, capped at MAX_SUBTOPICS.
+ */
+export async function generateSubtopics(
+  choice: ModelChoice,
+  question: string,
+  answer: string,
+  options: Pick<CallOptions, 'onUsage' | 'signal'> = {}
+): Promise<Subtopic[]> {
+  const result = await generateResponse(
+    choice,
+    buildSubtopicPrompt(question, answer),
+    [],
+    { ...options, responseFormat: 'json' }
+  );
+
+  const seen = new Set<string>();
+  return parseJsonItems(result.text)
+    .map(toSubtopic)
+    .filter((subtopic): subtopic is Subtopic => {
+      if (!subtopic) return false;
+      const key = subtopic.question.toLowerCase();
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    })
+    .slice(0, MAX_SUBTOPICS);
+}
+
+/* ============================================================
+   EXPLODE
+============================================================ */
+
+function buildSubtopicAnswerPrompt(subtopic: Subtopic): string {
+  return `${subtopic.question}\n\nAnswer concisely (under 150 words): this is one of several subtopics of the previous answer.`;
+}
+
+/**
+ * A short answer to each subtopic, one model call each.
+ * `history` is the conversation up to and including the exploded node;
+ * `options` apply to the subtopic answers (e.g. the map's system prompt).
+ */
+export async function answerSubtopics(
+  choice: ModelChoice,
+  subtopics: Subtopic[],
+  history: ConversationTurn[],
+  options: CallOptions = {}
+): Promise<ExplodedSubtopic[]> {
+  return Promise.all(
+    subtopics.map(async (subtopic) => {
+      const result = await generateResponse(
+        choice,
+        buildSubtopicAnswerPrompt(subtopic),
+        history,
+        options
+      );
+      return { ...subtopic, response: result.text, usage: result.usage };
+    })
+  );
+}
@@ -0,0 +1,274 @@
+/**
+ * Auto-explore (server-side)
+ *
+ * Grows a subtree breadth-first from a root node: each node on the
+ * frontier gets follow-up questions (its stored suggestions, or freshly
+ * generated ones), and up to `branching` of them are answered and added
+ * as children, until the frontier is empty or the node budget is spent.
+ *
+ * Every created node is a normal stored node (one appendNode per node),
+ * so the canvas can add it as a plain GraphNode the moment it appears.
+ * Job state is saved after each node (see exploreJobs.ts):
+ *   - cancel:  cancelJob() flips the stored status; checked before each node,
+ *              and progress saves (saveJobProgress()) never overwrite it
+ *   - pause:   the caller's AbortSignal fires (client disconnected)
+ *   - resume:  run the same job again; the frontier head is re-expanded,
+ *              skipping questions its children already answer
+ *
+ * Every model call takes a request from the user's rate limit
+ * (lib/rateLimit), the same one their own questions use, so a job and
+ * manual queries together stay within RATE_LIMIT_REQUESTS_PER_MINUTE;
+ * the job waits while it is used up. The job fails (resumably) once the
+ * user's daily token quota is used up. Closing the connection aborts the
+ * model call in flight.
+ *
+ * Generated questions and answers are moderated (lib/moderation) like
+ * any other; a blocked one is skipped.
+ */
+
+import { generateResponse, resolveModel } from './llm';
+import { buildSystemPrompt } from './promptSettings';
+import { toNodeUsage } from './pricing';
+import { usageRecorder } from './usageRepository';
+import { checkGenerationLimit } from './rateLimit';
+import { buildConversationHistory } from './history';
+import { suggestFollowUps } from './suggestions';
+import { moderate, isBlocked, toModerationMetadata } from './moderation';
+import {
+  getUserMindmapInfo,
+  getStoredLineage,
+  getChildNodes,
+  createStoredNode,
+  appendNode,
+  StoredNode,
+  StoredEdge,
+} from './mindmapRepository';
+import { ExploreJob, getJob, finishJob, saveJobProgress } from './exploreJobs';
+
+/* ============================================================
+   LIMITS
+============================================================ */
+
+export const DEFAULT_EXPLORE_DEPTH = 2;
+export const DEFAULT_EXPLORE_NODES = 12;
+const MAX_EXPLORE_DEPTH = 5;
+const MAX_EXPLORE_NODES = 50;
+const EXPLORE_BRANCHING = 3;
+
+function clamp(value: unknown, fallback: number, max: number): number {
+  const n = Number(value);
+  if (!Number.isFinite(n) || n < 1) return fallback;
+  return Math.min(Math.floor(n), max);
+}
+
+/**
+ * Sanitize client-supplied limits.
+ */
+export function normalizeExploreLimits(input: {
+  maxDepth?: unknown;
+  maxNodes?: unknown;
+}): { maxDepth: number; maxNodes: number; branching: number } {
+  return {
+    maxDepth: clamp(input.maxDepth, DEFAULT_EXPLORE_DEPTH, MAX_EXPLORE_DEPTH),
+    maxNodes: clamp(input.maxNodes, DEFAULT_EXPLORE_NODES, MAX_EXPLORE_NODES),
+    branching: EXPLORE_BRANCHING,
+  };
+}
+
+/* ============================================================
+   PACING
+============================================================ */
+
+/**
+ * Wait until the user may make another model call, and take it from
+ * their rate limit. Returns early if `signal` aborts; throws once the
+ * user's daily token quota is spent.
+ */
+async function takeModelCall(userId: string, signal: AbortSignal): Promise<void> {
+  while (!signal.aborted) {
+    const limit = await checkGenerationLimit(userId);
+    if (limit.allowed) return;
+    if (limit.code === 'quota_exceeded') throw new Error(limit.message);
+
+    await new Promise<void>((resolve) => {
+      const done = () => {
+        clearTimeout(timer);
+        signal.removeEventListener('abort', done);
+        resolve();
+      };
+      const timer = setTimeout(done, limit.retryAfterSeconds * 1000);
+      signal.addEventListener('abort', done);
+    });
+  }
+}
+
+/* ============================================================
+   RUN
+============================================================ */
+
+export type ExploreEvent =
+  | { type: 'node'; node: StoredNode; edge: StoredEdge | null }
+  | { type: 'job'; job: ExploreJob };
+
+function normalizeQuestion(text: string): string {
+  return text.trim().toLowerCase();
+}
+
+async function isCancelled(job: ExploreJob): Promise<boolean> {
+  const stored = await getJob(job.userId, job.id);
+  return !stored || stored.status === 'cancelled';
+}
+
+/**
+ * Run a job started (or resumed) with startJob() until it completes, is
+ * cancelled, or `signal` aborts (→ 'paused'). Yields every created node
+ * and every job update. On error the job is saved as 'failed' and the
+ * error is rethrown.
+ */
+export async function* runExploreJob(
+  job: ExploreJob,
+  signal: AbortSignal
+): AsyncGenerator<ExploreEvent> {
+  const choice = resolveModel(job.model);
+  if (!choice) throw new Error(`Unknown model "${job.model}"`);
+
+  // Stop before the next model call; true if the run should end here
+  const shouldStop = async (): Promise<boolean> => {
+    if (await isCancelled(job)) {
+      job.status = 'cancelled';
+      return true;
+    }
+    if (signal.aborted) {
+      await finishJob(job, 'paused');
+      return true;
+    }
+    return false;
+  };
+
+  // Progress is only saved while the job is still running; a cancel
+  // that landed in between ends the run here
+  const cancelled = (): ExploreEvent => {
+    job.status = 'cancelled';
+    return { type: 'job', job };
+  };
+
+  yield { type: 'job', job };
+
+  try {
+    while (job.frontier.length > 0 && job.createdCount < job.maxNodes) {
+      if (await shouldStop()) return;
+
+      const item = job.frontier[0];
+      const mindmap = await getUserMindmapInfo(job.userId, job.mindmapId);
+      if (!mindmap) throw new Error('Mindmap not found');
+
+      // Deleted since it was queued: nothing to expand. The lineage ends
+      // with the parent and is the history of every question asked here
+      const lineage = await getStoredLineage(mindmap, item.nodeId);
+      const parent = lineage[lineage.length - 1];
+
+      if (parent) {
+        const children = await getChildNodes(mindmap, parent.id);
+        const asked = new Set(children.map((c) => normalizeQuestion(c.content)));
+        const remaining =
+          job.branching -
+          children.filter((c) => c.metadata?.exploreJobId === job.id).length;
+
+        let questions = parent.metadata?.suggestions as string[] | undefined;
+        if (!Array.isArray(questions) || questions.length === 0) {
+          await takeModelCall(job.userId, signal);
+          questions = await suggestFollowUps(choice, parent.content, parent.response, {
+            onUsage: usageRecorder(job.userId, mindmap.id),
+            signal,
+          });
+        }
+
+        const todo = questions
+          .filter((q) => !asked.has(normalizeQuestion(q)))
+          .slice(0, Math.max(0, remaining));
+
+        for (const question of todo) {
+          if (job.createdCount >= job.maxNodes) break;
+          if (await shouldStop()) return;
+
+          const depth = item.depth + 1;
+          const willExpand = depth < job.maxDepth;
+
+          const history = buildConversationHistory(lineage, parent.id);
+
+          const onUsage = usageRecorder(job.userId, mindmap.id);
+          // The question came from the model too, so it's checked as output
+          const asking = await moderate(question, 'output', { onUsage, signal });
+          if (isBlocked(asking.verdict)) continue;
+
+          await takeModelCall(job.userId, signal);
+          const answer = await generateResponse(choice, asking.text, history, {
+            systemPrompt: buildSystemPrompt(mindmap.settings),
+            onUsage,
+            signal,
+          });
+          const answering = await moderate(answer.text, 'output', { onUsage, signal });
+          if (isBlocked(answering.verdict)) continue;
+
+          // Nodes that will be expanded get their follow-ups now, so they
+          // also show up as ghosts if the job stops before reaching them
+          let suggestions: string[] = [];
+          if (willExpand) {
+            await takeModelCall(job.userId, signal);
+            suggestions = await suggestFollowUps(choice, asking.text, answering.text, {
+              onUsage,
+              signal,
+            }).catch(() => []);
+          }
+
+          const { node, edge } = createStoredNode({
+            parentId: parent.id,
+            content: asking.text,
+            response: answering.text,
+            metadata: {
+              provider: choice.provider,
+              model: choice.model,
+              usage: toNodeUsage(answer.usage),
+              exploreJobId: job.id,
+              ...toModerationMetadata(asking.verdict, answering.verdict),
+              ...(suggestions.length > 0 ? { suggestions } : {}),
+            },
+          });
+
+          await appendNode(mindmap, node, edge);
+
+          job.createdCount += 1;
+          if (willExpand) job.frontier.push({ nodeId: node.id, depth });
+          const saved = await saveJobProgress(job);
+
+          yield { type: 'node', node, edge };
+          if (!saved) {
+            yield cancelled();
+            return;
+          }
+          yield { type: 'job', job };
+        }
+      }
+
+      job.frontier.shift();
+      if (!(await saveJobProgress(job))) {
+        yield cancelled();
+        return;
+      }
+    }
+
+    await finishJob(job, 'completed');
+    yield { type: 'job', job };
+  } catch (error) {
+    // Aborted mid-call by the client going away: a pause, not a failure,
+    // unless the job was cancelled first (the canvas cancels, then aborts)
+    if (signal.aborted) {
+      await finishJob(job, 'paused');
+      return;
+    }
+
+    await finishJob(job, 'failed', error instanceof Error ? error.message : String(error));
+    if (job.status === 'cancelled') return;
+    throw error;
+  }
+}
@@ -0,0 +1,248 @@
+/**
+ * Auto-explore Jobs — server-side data access
+ *
+ * A job is the persisted state of one auto-explore run (see explore.ts):
+ * its limits, progress, and the BFS frontier of nodes still to expand.
+ * Saving the frontier after every created node is what makes a job
+ * resumable after the client disconnects or the server restarts.
+ *
+ * Stored in the `explore_jobs` collection, one document per job. A
+ * unique index over running jobs keeps it to one running job per user
+ * (see startJob()).
+ */
+
+import { getDb } from './db';
+
+/* ============================================================
+   TYPES
+============================================================ */
+
+export type ExploreJobStatus =
+  | 'running'
+  | 'paused' // client went away; resumable
+  | 'completed'
+  | 'cancelled'
+  | 'failed'; // resumable too
+
+export interface ExploreFrontierItem {
+  nodeId: string;
+  depth: number; // Relative to the job's root (root = 0)
+}
+
+export interface ExploreJob {
+  id: string;
+  userId: string;
+  mindmapId?: string; // Unset on jobs from before multiple maps: the latest map
+  rootNodeId: string;
+  model: string; // "provider:model", resolved on every run
+  maxDepth: number;
+  maxNodes: number;
+  branching: number; // Children created per expanded node
+  frontier: ExploreFrontierItem[];
+  createdCount: number;
+  status: ExploreJobStatus;
+  error?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// A 'running' job not saved for this long is treated as dead (crashed
+// server): it no longer blocks new jobs and can be resumed
+const STALE_JOB_MS = 2 * 60 * 1000;
+
+/* ============================================================
+   COLLECTION
+============================================================ */
+
+let indexesReady: Promise<unknown> | null = null;
+
+async function getJobsCollection() {
+  const collection = (await getDb()).collection('explore_jobs');
+  if (!indexesReady) {
+    indexesReady = collection
+      .createIndex({ userId: 1 }, { unique: true, partialFilterExpression: { status: 'running' } })
+      .catch((error) => {
+        indexesReady = null;
+        console.error('Explore job index error:', error);
+      });
+  }
+  await indexesReady;
+  return collection;
+}
+
+/* ============================================================
+   IDS
+============================================================ */
+
+export function generateJobId(): string {
+  return `job-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+}
+
+/* ============================================================
+   STATUS
+============================================================ */
+
+function isStale(job: ExploreJob): boolean {
+  return Date.now() - new Date(job.updatedAt).getTime() > STALE_JOB_MS;
+}
+
+/**
+ * True for a job that is running right now (not a stale leftover).
+ */
+export function isJobActive(job: ExploreJob): boolean {
+  return job.status === 'running' && !isStale(job);
+}
+
+export function isJobResumable(job: ExploreJob): boolean {
+  return (
+    job.status === 'paused' ||
+    job.status === 'failed' ||
+    (job.status === 'running' && isStale(job))
+  );
+}
+
+/* ============================================================
+   READ
+============================================================ */
+
+export async function getJob(
+  userId: string,
+  jobId: string
+): Promise<ExploreJob | null> {
+  const collection = await getJobsCollection();
+  const job = await collection.findOne({ id: jobId, userId }, { projection: { _id: 0 } });
+  return (job as ExploreJob | null) || null;
+}
+
+/**
+ * The user's unfinished jobs (running, paused or failed), newest first.
+ */
+export async function getOpenJobs(userId: string): Promise<ExploreJob[]> {
+  const collection = await getJobsCollection();
+  const jobs = await collection
+    .find(
+      { userId, status: { $in: ['running', 'paused', 'failed'] } },
+      { projection: { _id: 0 } }
+    )
+    .sort({ updatedAt: -1 })
+    .toArray();
+  return jobs as unknown as ExploreJob[];
+}
+
+/* ============================================================
+   WRITE
+============================================================ */
+
+/**
+ * Insert or overwrite a job (bumps updatedAt, which is also the
+ * liveness heartbeat of a running job).
+ */
+export async function saveJob(job: ExploreJob): Promise<void> {
+  const collection = await getJobsCollection();
+  job.updatedAt = new Date();
+  await collection.replaceOne({ id: job.id, userId: job.userId }, { ...job }, { upsert: true });
+}
+
+/**
+ * Save a running job's progress (frontier and count; bumps updatedAt,
+ * the liveness heartbeat). Only the progress fields are written, and
+ * only while the job is still running: returns false if it was
+ * cancelled meanwhile, which the run must then honor.
+ */
+export async function saveJobProgress(job: ExploreJob): Promise<boolean> {
+  const collection = await getJobsCollection();
+  job.updatedAt = new Date();
+  const result = await collection.updateOne(
+    { id: job.id, userId: job.userId, status: 'running' },
+    { $set: { frontier: job.frontier, createdCount: job.createdCount, updatedAt: job.updatedAt } }
+  );
+  return result.matchedCount > 0;
+}
+
+/**
+ * End a running job as paused, completed or failed. Like
+ * saveJobProgress(), only written while the job is still running: a
+ * cancel that landed first is kept, and the job is marked cancelled.
+ */
+export async function finishJob(
+  job: ExploreJob,
+  status: 'paused' | 'completed' | 'failed',
+  error?: string
+): Promise<void> {
+  const collection = await getJobsCollection();
+  job.updatedAt = new Date();
+  const result = await collection.updateOne(
+    { id: job.id, userId: job.userId, status: 'running' },
+    {
+      $set: {
+        status,
+        frontier: job.frontier,
+        createdCount: job.createdCount,
+        updatedAt: job.updatedAt,
+        ...(error !== undefined ? { error } : {}),
+      },
+    }
+  );
+
+  job.status = result.matchedCount > 0 ? status : 'cancelled';
+  if (result.matchedCount > 0) job.error = error;
+}
+
+/**
+ * Save a new or resumed job as the user's running one. Returns false,
+ * leaving the job as it was, if another of their jobs is running: the
+ * unique index decides, so two requests at once can't both start one.
+ * Running jobs gone stale (crashed server) are paused first.
+ */
+export async function startJob(job: ExploreJob): Promise<boolean> {
+  const collection = await getJobsCollection();
+  await collection.updateMany(
+    {
+      userId: job.userId,
+      status: 'running',
+      updatedAt: { $lt: new Date(Date.now() - STALE_JOB_MS) },
+    },
+    { $set: { status: 'paused' } }
+  );
+
+  const { status, error } = job;
+  job.status = 'running';
+  job.error = undefined;
+
+  try {
+    await saveJob(job);
+    return true;
+  } catch (err) {
+    if ((err as { code?: number }).code !== 11000) throw err;
+    Object.assign(job, { status, error });
+    return false;
+  }
+}
+
+/**
+ * Mark a job cancelled. A running job notices before its next model call.
+ */
+export async function cancelJob(
+  userId: string,
+  jobId: string
+): Promise<ExploreJob | null> {
+  const collection = await getJobsCollection();
+  const result = await collection.findOneAndUpdate(
+    { id: jobId, userId, status: { $in: ['running', 'paused', 'failed'] } },
+    { $set: { status: 'cancelled', updatedAt: new Date() } },
+    { returnDocument: 'after', projection: { _id: 0 } }
+  );
+  return (result as ExploreJob | null) || null;
+}
+
+/**
+ * Cancel the unfinished jobs exploring from any of these nodes (their
+ * subtree was deleted). Jobs only queueing them skip them on their own.
+ */
+export async function cancelJobsForNodes(userId: string, nodeIds: string[]): Promise<void> {
+  const collection = await getJobsCollection();
+  await collection.updateMany(
+    { userId, rootNodeId: { $in: nodeIds }, status: { $in: ['running', 'paused', 'failed'] } },
+    { $set: { status: 'cancelled', updatedAt: new Date() } }
+  );
+}
@@ -1,19 +0,0 @@
-import { GoogleGenerativeAI } from '@google/generative-ai';
-
-if (!process.env.GEMINI_API_KEY) {
-    throw new Error('Please add your GEMINI_API_KEY to .env.local');
-}
-
-const genAI = new GoogleGenerativeAI(process.env.GEMINI_API_KEY);
-
-export async function generateResponse(prompt: string): Promise<string> {
-    try {
-        const model = genAI.getGenerativeModel({ model: 'gemini-3-flash-preview' });
-        const result = await model.generateContent(prompt);
-        const response = await result.response;
-        return response.text();
-    } catch (error) {
-        console.error('Gemini API error:', error);
-        throw new Error('Failed to generate AI response');
-    }
-}
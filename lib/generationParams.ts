@@ -0,0 +1,103 @@
+/**
+ * Generation Parameters — per-query model, temperature and output length
+ *
+ * The query bar's advanced popover lets the user override, for the next
+ * query, which model answers (`provider[:model]`, see lib/llm) and how
+ * (temperature, max output tokens). Only the values the user actually
+ * set are sent; everything else stays at the provider's defaults.
+ *
+ * The chosen values are recorded on the created node as
+ * metadata.generation. "Branch with same settings" (on by default) makes
+ * a follow-up inherit its parent's metadata.generation, with the
+ * follow-up's own choices taking precedence: see inheritGenerationParams().
+ *
+ * Client-safe: the popover uses the same limits and validation.
+ */
+
+/* ============================================================
+   TYPES
+============================================================ */
+
+export interface GenerationParams {
+  model?: string; // provider[:model] spec
+  temperature?: number;
+  maxOutputTokens?: number;
+}
+
+export const TEMPERATURE_MIN = 0;
+export const TEMPERATURE_MAX = 2;
+export const MAX_OUTPUT_TOKENS_LIMIT = 32768;
+
+/* ============================================================
+   VALIDATION
+============================================================ */
+
+/**
+ * Validate the parameters of a request body (`model`, `temperature`,
+ * `maxOutputTokens`). Missing, null or empty fields are left unset;
+ * returns null if any field is malformed or out of range.
+ */
+export function parseGenerationParams(input: unknown): GenerationParams | null {
+  if (!input || typeof input !== 'object') return {};
+  const raw = input as Record<string, unknown>;
+  const params: GenerationParams = {};
+
+  if (raw.model !== undefined && raw.model !== null && raw.model !== '') {
+    if (typeof raw.model !== 'string') return null;
+    params.model = raw.model.trim();
+  }
+
+  if (raw.temperature !== undefined && raw.temperature !== null) {
+    const t = raw.temperature;
+    if (typeof t !== 'number' || !Number.isFinite(t) || t < TEMPERATURE_MIN || t > TEMPERATURE_MAX) {
+      return null;
+    }
+    params.temperature = t;
+  }
+
+  if (raw.maxOutputTokens !== undefined && raw.maxOutputTokens !== null) {
+    const n = raw.maxOutputTokens;
+    if (typeof n !== 'number' || !Number.isInteger(n) || n < 1 || n > MAX_OUTPUT_TOKENS_LIMIT) {
+      return null;
+    }
+    params.maxOutputTokens = n;
+  }
+
+  return params;
+}
+
+export function hasGenerationParams(params: GenerationParams): boolean {
+  return (
+    params.model !== undefined ||
+    params.temperature !== undefined ||
+    params.maxOutputTokens !== undefined
+  );
+}
+
+/* ============================================================
+   NODES
+============================================================ */
+
+/**
+ * The parameters a node was generated with ({} if all were defaults).
+ */
+export function getNodeGenerationParams(metadata?: Record<string, unknown>): GenerationParams {
+  return parseGenerationParams(metadata?.generation) || {};
+}
+
+/**
+ * A follow-up's parameters: the parent's, overridden by its own.
+ */
+export function inheritGenerationParams(
+  parentMetadata: Record<string, unknown> | undefined,
+  own: GenerationParams
+): GenerationParams {
+  return { ...getNodeGenerationParams(parentMetadata), ...own };
+}
+
+/**
+ * metadata fields recording the parameters ({} when none were set).
+ */
+export function toGenerationMetadata(params: GenerationParams): Record<string, unknown> {
+  return hasGenerationParams(params) ? { generation: params } : {};
+}
@@ -0,0 +1,107 @@
+/**
+ * Ghost Nodes — suggested follow-ups rendered as translucent children
+ *
+ * Ghosts are DERIVED, never stored: each node's metadata.suggestions
+ * becomes a set of placeholder children. A suggestion disappears as
+ * soon as its parent gets a real child with the same question, so
+ * clicking a ghost (which creates that child) replaces it in place.
+ *
+ * withGhostNodes() returns a new Graph with the ghosts added as regular
+ * GraphNodes, so computeLayout positions them with Dagre like any other
+ * node. The store's `graph` never contains ghosts — only the graph that
+ * is fed to layout and rendering does.
+ */
+
+import { Graph, GraphNode } from './graph';
+
+/* ============================================================
+   TYPES
+============================================================ */
+
+export interface GhostNode {
+  id: string;
+  parentId: string;
+  question: string;
+}
+
+export const GHOST_ID_PREFIX = 'ghost:';
+
+/* ============================================================
+   DERIVATION
+============================================================ */
+
+export function isGhostId(nodeId: string): boolean {
+  return nodeId.startsWith(GHOST_ID_PREFIX);
+}
+
+function normalizeQuestion(text: string): string {
+  return text.trim().toLowerCase();
+}
+
+/**
+ * Suggested follow-ups of a node that haven't been asked yet.
+ * `asked` holds the normalized questions of the node's real children.
+ */
+function getGhostsForNode(node: GraphNode, asked: Set<string>): GhostNode[] {
+  const suggestions = node.metadata?.suggestions;
+  if (!Array.isArray(suggestions) || node.metadata?.status === 'streaming') {
+    return [];
+  }
+
+  // Ids use the suggestion's index, so they stay stable as others get asked
+  return (suggestions as string[])
+    .map((question, i) => ({
+      id: `${GHOST_ID_PREFIX}${node.id}:${i}`,
+      parentId: node.id,
+      question,
+    }))
+    .filter((ghost) => !asked.has(normalizeQuestion(ghost.question)));
+}
+
+/**
+ * All ghosts in the graph. O(n): children are grouped in one pass.
+ */
+export function getGhostNodes(graph: Graph): GhostNode[] {
+  const askedByParent = new Map<string, Set<string>>();
+  for (const node of graph.nodes.values()) {
+    if (!node.parentId) continue;
+    const asked = askedByParent.get(node.parentId) || new Set<string>();
+    asked.add(normalizeQuestion(node.content));
+    askedByParent.set(node.parentId, asked);
+  }
+
+  const ghosts: GhostNode[] = [];
+  for (const node of graph.nodes.values()) {
+    ghosts.push(...getGhostsForNode(node, askedByParent.get(node.id) || new Set()));
+  }
+  return ghosts;
+}
+
+/**
+ * The graph plus its ghost children, for layout and rendering.
+ * Ghost GraphNodes carry metadata.kind = 'ghost'.
+ * Returns the same Graph instance when there are no ghosts.
+ */
+export function withGhostNodes(graph: Graph): Graph {
+  const ghosts = getGhostNodes(graph);
+  if (ghosts.length === 0) return graph;
+
+  const nodes = new Map(graph.nodes);
+  const edges = new Map(graph.edges);
+
+  for (const ghost of ghosts) {
+    nodes.set(ghost.id, {
+      id: ghost.id,
+      parentId: ghost.parentId,
+      content: ghost.question,
+      response: '',
+      createdAt: '',
+      metadata: { kind: 'ghost' },
+    });
+
+    const edgeId = `${ghost.parentId}->${ghost.id}`;
+    edges.set(edgeId, { id: edgeId, source: ghost.parentId, target: ghost.id });
+  }
+
+  return { nodes, edges };
+}
@@ -7,9 +7,18 @@
  * Invariants enforced here:
  *   - Every edge's source and target must exist in nodes
  *   - Removing a node cascades to its children (subtree delete)
+ *   - Moving a node never puts it under its own subtree (no cycles)
  *   - Edge IDs are deterministic: `${source}->${target}`
  *   - A node with parentId=null is a root node
  *
+ * Edges come in two types:
+ *   - tree (default): parent → child, derived from parentId. Structure,
+ *     traversal and layout only ever look at these.
+ *   - related: an optional cross-link between two similar nodes
+ *     (id `related:${a}~${b}`, endpoints sorted). Never part of the
+ *     tree: not counted as a parent, not followed by traversals, and
+ *     ignored by computeLayout.
+ *
  * Data structures use Maps for O(1) lookup by ID.
  */
 
@@ -26,10 +35,15 @@ export interface GraphNode {
   metadata?: Record<string, unknown>; // Future extensibility
 }
 
+export type GraphEdgeType = 'tree' | 'related';
+
 export interface GraphEdge {
-  id: string; // Deterministic: `${source}->${target}`
+  id: string; // Deterministic: `${source}->${target}` (related: see relatedEdgeId)
   source: string;
   target: string;
+  type?: GraphEdgeType; // Absent = 'tree'
+  status?: 'suggested' | 'accepted'; // Related edges only
+  score?: number; // Related edges only: content similarity, 0..1
 }
 
 export interface Graph {
@@ -51,6 +65,28 @@ export function createGraph(): Graph {
   };
 }
 
+/* ============================================================
+   EDGE TYPES
+============================================================ */
+
+export function isTreeEdge(edge: GraphEdge): boolean {
+  return (edge.type ?? 'tree') === 'tree';
+}
+
+/**
+ * The id of the tree edge from a parent to its child.
+ */
+export function treeEdgeId(source: string, target: string): string {
+  return `${source}->${target}`;
+}
+
+/**
+ * Related links are undirected, so the id sorts its endpoints.
+ */
+export function relatedEdgeId(a: string, b: string): string {
+  return a < b ? `related:${a}~${b}` : `related:${b}~${a}`;
+}
+
 /* ============================================================
    MUTATIONS (all return NEW Graph — immutable pattern)
 ============================================================ */
@@ -74,7 +110,7 @@ export function addNode(graph: Graph, node: GraphNode): Graph {
 
   // Auto-create edge if this node has a parent
   if (node.parentId) {
-    const edgeId = `${node.parentId}->${node.id}`;
+    const edgeId = treeEdgeId(node.parentId, node.id);
     edges.set(edgeId, {
       id: edgeId,
       source: node.parentId,
@@ -86,26 +122,45 @@ export function addNode(graph: Graph, node: GraphNode): Graph {
 }
 
 /**
- * Remove a node AND its entire subtree (cascade delete).
- * Also removes all edges pointing to or from any deleted node.
+ * Add several nodes at once (one Map copy instead of one per node).
+ * Nodes may reference parents earlier in the same batch, so pass them
+ * parents-first. Throws like addNode on an unknown parentId; the input
+ * graph is left untouched in that case.
  */
-export function removeNode(graph: Graph, nodeId: string): Graph {
-  // Collect the full subtree rooted at nodeId
-  const toDelete = new Set<string>();
-  const queue = [nodeId];
+export function addNodes(graph: Graph, newNodes: GraphNode[]): Graph {
+  const nodes = new Map(graph.nodes);
+  const edges = new Map(graph.edges);
 
-  while (queue.length > 0) {
-    const current = queue.pop()!;
-    toDelete.add(current);
+  for (const node of newNodes) {
+    if (node.parentId && !nodes.has(node.parentId)) {
+      throw new Error(
+        `addNodes: parentId "${node.parentId}" does not exist in graph`
+      );
+    }
 
-    // Find children of current
-    for (const edge of graph.edges.values()) {
-      if (edge.source === current && !toDelete.has(edge.target)) {
-        queue.push(edge.target);
-      }
+    nodes.set(node.id, node);
+
+    if (node.parentId) {
+      const edgeId = treeEdgeId(node.parentId, node.id);
+      edges.set(edgeId, {
+        id: edgeId,
+        source: node.parentId,
+        target: node.id,
+      });
     }
   }
 
+  return { nodes, edges };
+}
+
+/**
+ * Remove a node AND its entire subtree (cascade delete).
+ * Also removes all edges pointing to or from any deleted node.
+ */
+export function removeNode(graph: Graph, nodeId: string): Graph {
+  // Collect the full subtree rooted at nodeId
+  const toDelete = collectSubtreeIds(graph, nodeId);
+
   // Rebuild maps without deleted nodes/edges
   const nodes = new Map(graph.nodes);
   const edges = new Map(graph.edges);
@@ -123,6 +178,45 @@ export function removeNode(graph: Graph, nodeId: string): Graph {
   return { nodes, edges };
 }
 
+/**
+ * Replace all related edges (tree edges are kept).
+ * Edges whose endpoints are missing are skipped.
+ */
+export function setRelatedEdges(graph: Graph, related: GraphEdge[]): Graph {
+  const edges = new Map<string, GraphEdge>();
+
+  for (const [edgeId, edge] of graph.edges.entries()) {
+    if (isTreeEdge(edge)) edges.set(edgeId, edge);
+  }
+
+  for (const edge of related) {
+    if (!graph.nodes.has(edge.source) || !graph.nodes.has(edge.target)) continue;
+    const edgeId = relatedEdgeId(edge.source, edge.target);
+    edges.set(edgeId, { ...edge, id: edgeId, type: 'related' });
+  }
+
+  return { nodes: graph.nodes, edges };
+}
+
+/**
+ * Update fields of a related edge, or remove it (updates = null).
+ * Returns the same graph if the edge doesn't exist or is a tree edge.
+ */
+export function updateRelatedEdge(
+  graph: Graph,
+  edgeId: string,
+  updates: Pick<GraphEdge, 'status'> | null
+): Graph {
+  const existing = graph.edges.get(edgeId);
+  if (!existing || isTreeEdge(existing)) return graph;
+
+  const edges = new Map(graph.edges);
+  if (updates) edges.set(edgeId, { ...existing, ...updates });
+  else edges.delete(edgeId);
+
+  return { nodes: graph.nodes, edges };
+}
+
 /**
  * Update a node's content/metadata in place (no structural change).
  * If parentId changes, edges are rebuilt accordingly.
@@ -149,7 +243,7 @@ export function updateNode(
 
     // Remove old incoming edge
     const oldEdgeId = existing.parentId
-      ? `${existing.parentId}->${nodeId}`
+      ? treeEdgeId(existing.parentId, nodeId)
       : null;
     if (oldEdgeId) edges.delete(oldEdgeId);
 
@@ -160,7 +254,7 @@ export function updateNode(
           `updateNode: new parentId "${updates.parentId}" does not exist`
         );
       }
-      const newEdgeId = `${updates.parentId}->${nodeId}`;
+      const newEdgeId = treeEdgeId(updates.parentId, nodeId);
       edges.set(newEdgeId, {
         id: newEdgeId,
         source: updates.parentId,
@@ -172,6 +266,23 @@ export function updateNode(
   return { nodes, edges };
 }
 
+/**
+ * Move a node, with its subtree, under a new parent (null = make it a
+ * root). Throws if canMoveNode() says no.
+ */
+export function moveNode(
+  graph: Graph,
+  nodeId: string,
+  parentId: string | null
+): Graph {
+  if (!canMoveNode(graph, nodeId, parentId)) {
+    throw new Error(
+      `moveNode: "${nodeId}" cannot be moved under "${parentId}"`
+    );
+  }
+  return updateNode(graph, nodeId, { parentId });
+}
+
 /* ============================================================
    QUERIES (read-only, no mutation)
 ============================================================ */
@@ -182,7 +293,7 @@ export function updateNode(
 export function getChildren(graph: Graph, nodeId: string): GraphNode[] {
   const children: GraphNode[] = [];
   for (const edge of graph.edges.values()) {
-    if (edge.source === nodeId) {
+    if (edge.source === nodeId && isTreeEdge(edge)) {
       const child = graph.nodes.get(edge.target);
       if (child) children.push(child);
     }
@@ -215,19 +326,64 @@ export function getNodeDepth(graph: Graph, nodeId: string): number {
 }
 
 /**
- * Get subtree size (node + all descendants).
+ * Collect the ids of a node and all its descendants.
+ * Shared traversal for removeNode, getSubtreeSize and getSubtree.
+ * Order: root first, then depth-first.
  */
-export function getSubtreeSize(graph: Graph, nodeId: string): number {
-  let size = 0;
+function collectSubtreeIds(graph: Graph, nodeId: string): Set<string> {
+  const ids = new Set<string>();
   const queue = [nodeId];
+
   while (queue.length > 0) {
     const current = queue.pop()!;
-    size++;
+    ids.add(current);
+
+    // Find children of current
     for (const edge of graph.edges.values()) {
-      if (edge.source === current) queue.push(edge.target);
+      if (edge.source === current && isTreeEdge(edge) && !ids.has(edge.target)) {
+        queue.push(edge.target);
+      }
     }
   }
-  return size;
+
+  return ids;
+}
+
+/**
+ * Get subtree size (node + all descendants).
+ */
+export function getSubtreeSize(graph: Graph, nodeId: string): number {
+  return collectSubtreeIds(graph, nodeId).size;
+}
+
+/**
+ * Get a node and all its descendants (root first).
+ * Returns [] if the node does not exist.
+ */
+export function getSubtree(graph: Graph, nodeId: string): GraphNode[] {
+  if (!graph.nodes.has(nodeId)) return [];
+
+  const subtree: GraphNode[] = [];
+  for (const id of collectSubtreeIds(graph, nodeId)) {
+    const node = graph.nodes.get(id);
+    if (node) subtree.push(node);
+  }
+  return subtree;
+}
+
+/**
+ * Whether a node can be moved under `parentId`: both exist, and the new
+ * parent is neither the node nor one of its descendants (a cycle).
+ * Any existing node can become a root (parentId null).
+ */
+export function canMoveNode(
+  graph: Graph,
+  nodeId: string,
+  parentId: string | null
+): boolean {
+  if (!graph.nodes.has(nodeId)) return false;
+  if (parentId === null) return true;
+  return graph.nodes.has(parentId) && !collectSubtreeIds(graph, nodeId).has(parentId);
 }
 
 /**
@@ -248,7 +404,7 @@ export function isValidTree(graph: Graph): boolean {
   for (const node of graph.nodes.values()) {
     if (node.parentId === null) continue;
     const incomingCount = Array.from(graph.edges.values()).filter(
-      (e) => e.target === node.id
+      (e) => e.target === node.id && isTreeEdge(e)
     ).length;
     if (incomingCount !== 1) return false;
   }
@@ -262,7 +418,7 @@ export function isValidTree(graph: Graph): boolean {
     inStack.add(nodeId);
 
     for (const edge of graph.edges.values()) {
-      if (edge.source !== nodeId) continue;
+      if (edge.source !== nodeId || !isTreeEdge(edge)) continue;
       if (inStack.has(edge.target)) return true;
       if (!visited.has(edge.target) && hasCycle(edge.target)) return true;
     }
@@ -319,7 +475,7 @@ export function deserializeGraph(data: SerializedGraph): Graph {
     // Reconstruct edges from parentId (fallback)
     for (const node of data.nodes) {
       if (node.parentId) {
-        const edgeId = `${node.parentId}->${node.id}`;
+        const edgeId = treeEdgeId(node.parentId, node.id);
         edges.set(edgeId, {
           id: edgeId,
           source: node.parentId,
@@ -0,0 +1,203 @@
+/**
+ * Conversation History Module
+ *
+ * Turns the ancestor chain of a node into multi-turn history for the LLM,
+ * so a branch continues the thread it was forked from instead of starting
+ * a brand-new chat.
+ *
+ * Lineage:
+ *   Walks parentId from the branch point up to the root, then reverses,
+ *   giving root → parent order. Each ancestor contributes two turns:
+ *   the user's query and the model's response.
+ *
+ * Budget:
+ *   History is capped at a character budget (HISTORY_CHAR_BUDGET env,
+ *   default 16000). When the lineage is over budget, the OLDEST
+ *   query/response pairs are dropped and folded into a short summary
+ *   of the questions asked, which is prepended to the first kept turn.
+ *   Pairs are never split, so the history always alternates
+ *   user → model, which Gemini requires.
+ */
+
+import { truncateWords } from './text';
+
+/* ============================================================
+   TYPES
+============================================================ */
+
+export interface ConversationTurn {
+  role: 'user' | 'model';
+  content: string;
+}
+
+/**
+ * Minimal shape needed to walk a lineage.
+ */
+export interface LineageNode {
+  id: string;
+  parentId: string | null;
+  content: string;
+  response: string;
+}
+
+/* ============================================================
+   CONFIG
+============================================================ */
+
+export const DEFAULT_HISTORY_CHAR_BUDGET = 16000;
+
+// Share of the budget the "earlier in this thread" summary may use
+const SUMMARY_BUDGET_RATIO = 0.2;
+
+/**
+ * Read the history budget from the environment, falling back to the default
+ * when unset or invalid.
+ */
+export function getHistoryCharBudget(): number {
+  const raw = Number(process.env.HISTORY_CHAR_BUDGET);
+  return Number.isFinite(raw) && raw > 0 ? raw : DEFAULT_HISTORY_CHAR_BUDGET;
+}
+
+/* ============================================================
+   LINEAGE
+============================================================ */
+
+/**
+ * Collect the ancestor chain ending at `parentId`, ordered root → parent.
+ * Returns [] for root queries (parentId null) or unknown ids.
+ * Guards against corrupted data with a visited set (no infinite loops).
+ */
+export function getLineage<T extends LineageNode>(
+  nodes: T[],
+  parentId: string | null
+): T[] {
+  const byId = new Map<string, T>();
+  for (const node of nodes) byId.set(node.id, node);
+
+  const chain: T[] = [];
+  const visited = new Set<string>();
+  let current = parentId ? byId.get(parentId) : undefined;
+
+  while (current && !visited.has(current.id)) {
+    visited.add(current.id);
+    chain.push(current);
+    current = current.parentId ? byId.get(current.parentId) : undefined;
+  }
+
+  return chain.reverse();
+}
+
+/**
+ * Convert a lineage into alternating user/model turns.
+ */
+export function lineageToTurns(lineage: LineageNode[]): ConversationTurn[] {
+  const turns: ConversationTurn[] = [];
+  for (const node of lineage) {
+    turns.push({ role: 'user', content: node.content });
+    turns.push({ role: 'model', content: node.response });
+  }
+  return turns;
+}
+
+/* ============================================================
+   BUDGET
+============================================================ */
+
+function turnsLength(turns: ConversationTurn[]): number {
+  return turns.reduce((sum, t) => sum + t.content.length, 0);
+}
+
+/**
+ * Build a compact note listing the questions of dropped turns.
+ */
+function summarizeDroppedTurns(
+  dropped: ConversationTurn[],
+  maxChars: number
+): string {
+  const questions = dropped
+    .filter((t) => t.role === 'user')
+    .map((t, i) => `${i + 1}. ${truncateWords(t.content, 20)}`);
+
+  let summary = `[Earlier in this thread the user asked:\n${questions.join('\n')}]`;
+  if (summary.length > maxChars) {
+    summary = summary.slice(0, Math.max(0, maxChars - 2)) + '…]';
+  }
+  return summary;
+}
+
+/**
+ * `content` cut to at most `maxChars` characters, marked with '…' if cut.
+ */
+function clip(content: string, maxChars: number): string {
+  if (content.length <= maxChars) return content;
+  return maxChars > 0 ? content.slice(0, maxChars - 1) + '…' : '';
+}
+
+/**
+ * Fit history into `budget` characters. The result never exceeds it.
+ *
+ * Strategy:
+ *   1. Drop whole user/model pairs from the oldest end until the rest fits
+ *      (leaving room for the summary of what was dropped).
+ *   2. Prepend that summary to the first kept user turn.
+ *   3. If even the most recent pair alone is too large, truncate its
+ *      model response so the user's question survives intact.
+ *   4. If the question is still too large with the summary, drop the
+ *      summary, and as a last resort truncate the question itself.
+ *   5. A pair left with an empty turn is dropped rather than sent:
+ *      providers reject empty parts (Gemini does).
+ */
+export function applyHistoryBudget(
+  turns: ConversationTurn[],
+  budget: number = getHistoryCharBudget()
+): ConversationTurn[] {
+  if (turnsLength(turns) <= budget) return turns;
+
+  const summaryBudget = Math.floor(budget * SUMMARY_BUDGET_RATIO);
+  const kept = [...turns];
+  const dropped: ConversationTurn[] = [];
+
+  while (kept.length > 2 && turnsLength(kept) > budget - summaryBudget) {
+    dropped.push(...kept.splice(0, 2));
+  }
+
+  let summary = '';
+  if (dropped.length > 0) {
+    summary = `${summarizeDroppedTurns(dropped, summaryBudget)}\n\n`;
+    kept[0] = { ...kept[0], content: summary + kept[0].content };
+  }
+
+  const last = kept.length - 1;
+  let overflow = turnsLength(kept) - budget;
+  if (overflow > 0) {
+    kept[last] = { ...kept[last], content: clip(kept[last].content, kept[last].content.length - overflow) };
+    overflow = turnsLength(kept) - budget;
+  }
+
+  if (overflow > 0 && summary) {
+    kept[0] = { ...kept[0], content: kept[0].content.slice(summary.length) };
+    overflow = turnsLength(kept) - budget;
+  }
+
+  if (overflow > 0) {
+    kept[0] = { ...kept[0], content: clip(kept[0].content, kept[0].content.length - overflow) };
+  }
+
+  const nonEmpty: ConversationTurn[] = [];
+  for (let i = 0; i < kept.length; i += 2) {
+    const pair = kept.slice(i, i + 2);
+    if (pair.every((turn) => turn.content)) nonEmpty.push(...pair);
+  }
+  return nonEmpty;
+}
+
+/**
+ * Convenience: lineage for a branch point → budgeted conversation history.
+ */
+export function buildConversationHistory(
+  nodes: LineageNode[],
+  parentId: string | null,
+  budget: number = getHistoryCharBudget()
+): ConversationTurn[] {
+  return applyHistoryBudget(lineageToTurns(getLineage(nodes, parentId)), budget);
+}
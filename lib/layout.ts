@@ -32,7 +32,7 @@
  */
 
 import dagre from 'dagre';
-import { Graph } from './graph';
+import { Graph, isTreeEdge } from './graph';
 
 /* ============================================================
    TYPES
@@ -115,8 +115,10 @@ export function computeLayout(
     });
   }
 
-  // Add all edges (Dagre uses these for ranking)
+  // Add tree edges (Dagre uses these for ranking). Related cross-links
+  // are left out so accepting or dismissing one never moves a node.
   for (const edge of graph.edges.values()) {
+    if (!isTreeEdge(edge)) continue;
     g.setEdge(edge.source, edge.target);
   }
 
@@ -0,0 +1,171 @@
+/**
+ * Generation Errors — what went wrong with a model call
+ *
+ * Whatever a provider throws (SDK errors, HTTP errors, fetch failures,
+ * aborts) is turned into a GenerationError by toGenerationError(), with:
+ *
+ *   kind       quota | safety | timeout | network | cancelled | unknown
+ *   retryable  whether the facade (./index.ts) may try the call again
+ *   message    a sentence meant for the user
+ *
+ * Routes answer a failed generation with generationFailed(), which maps
+ * the kind to an HTTP status and puts the user-facing message in
+ * `error` (plus `code` = kind). Errors that aren't GenerationErrors keep
+ * the route's own generic message.
+ */
+
+import { NextResponse } from 'next/server';
+
+/* ============================================================
+   TYPES
+============================================================ */
+
+export type GenerationErrorKind =
+  | 'quota' // Provider rate limit or billing quota
+  | 'safety' // Prompt or answer blocked by the provider's safety filters
+  | 'timeout' // No response within LLM_TIMEOUT_MS
+  | 'network' // Provider unreachable or failing (5xx)
+  | 'cancelled' // Caller aborted the request
+  | 'unknown';
+
+export interface GenerationError extends Error {
+  kind: GenerationErrorKind;
+  retryable: boolean;
+  cause?: unknown;
+}
+
+const GENERATION_ERROR_NAME = 'GenerationError';
+
+const MESSAGES: Record<GenerationErrorKind, string> = {
+  quota: 'The AI provider is over its usage limit right now. Try again in a little while.',
+  safety: "The AI provider's safety filters blocked this request. Try rephrasing it.",
+  timeout: 'The AI provider took too long to respond. Try again.',
+  network: "The AI provider couldn't be reached. Check your connection and try again.",
+  cancelled: 'The request was cancelled.',
+  unknown: 'The AI provider returned an error.',
+};
+
+const STATUS: Record<GenerationErrorKind, number> = {
+  quota: 429,
+  safety: 422,
+  timeout: 504,
+  network: 502,
+  cancelled: 499, // Client closed request; nobody is listening anyway
+  unknown: 500,
+};
+
+const RETRYABLE: GenerationErrorKind[] = ['timeout', 'network'];
+
+/* ============================================================
+   CLASSIFICATION
+============================================================ */
+
+const NETWORK_CODES = new Set([
+  'ECONNRESET',
+  'ECONNREFUSED',
+  'ETIMEDOUT',
+  'ENOTFOUND',
+  'EAI_AGAIN',
+  'EPIPE',
+  'UND_ERR_SOCKET',
+  'UND_ERR_CONNECT_TIMEOUT',
+]);
+
+function getStatus(error: { status?: unknown }): number | null {
+  return typeof error.status === 'number' ? error.status : null;
+}
+
+function getCode(error: unknown): string | null {
+  if (!error || typeof error !== 'object') return null;
+  const code = (error as { code?: unknown }).code;
+  if (typeof code === 'string') return code;
+  // fetch() failures wrap the socket error in `cause`
+  return getCode((error as { cause?: unknown }).cause);
+}
+
+/**
+ * Best guess at the kind of a provider error.
+ * Aborts are 'cancelled' here; the facade knows when one was a timeout.
+ */
+export function classifyError(error: unknown): GenerationErrorKind {
+  if (!(error instanceof Error)) return 'unknown';
+  if (error.name === 'AbortError') return 'cancelled';
+
+  const status = getStatus(error as { status?: unknown });
+  const message = error.message.toLowerCase();
+
+  if (
+    message.includes('safety') ||
+    message.includes('blocked') ||
+    message.includes('content_filter') ||
+    message.includes('content_policy')
+  ) {
+    return 'safety';
+  }
+  if (
+    status === 429 ||
+    message.includes('quota') ||
+    message.includes('resource_exhausted') ||
+    message.includes('rate limit')
+  ) {
+    return 'quota';
+  }
+  if (status === 408 || status === 504 || message.includes('timed out')) return 'timeout';
+  if ((status !== null && status >= 500) || message.includes('fetch failed')) return 'network';
+
+  const code = getCode(error);
+  if (code && NETWORK_CODES.has(code)) return 'network';
+
+  return 'unknown';
+}
+
+/* ============================================================
+   ERRORS
+============================================================ */
+
+export function isGenerationError(error: unknown): error is GenerationError {
+  return error instanceof Error && error.name === GENERATION_ERROR_NAME;
+}
+
+/**
+ * Wrap a provider error. `kind` overrides classification (the facade
+ * passes 'timeout' / 'cancelled' when it aborted the call itself).
+ */
+export function toGenerationError(
+  error: unknown,
+  kind?: GenerationErrorKind
+): GenerationError {
+  if (isGenerationError(error) && !kind) return error;
+
+  const resolved = kind || classifyError(error);
+  const wrapped = new Error(MESSAGES[resolved]) as GenerationError;
+  wrapped.name = GENERATION_ERROR_NAME;
+  wrapped.kind = resolved;
+  wrapped.retryable = RETRYABLE.includes(resolved);
+  wrapped.cause = error;
+  return wrapped;
+}
+
+/* ============================================================
+   HTTP
+============================================================ */
+
+/**
+ * The JSON error body for a failed request: the user-facing message and
+ * kind for a GenerationError, the route's fallback message otherwise.
+ */
+export function toErrorBody(
+  error: unknown,
+  fallback: string
+): { error: string; code?: GenerationErrorKind } {
+  if (!isGenerationError(error) || error.kind === 'unknown') return { error: fallback };
+  return { error: error.message, code: error.kind };
+}
+
+/**
+ * Error response for a route whose generation failed.
+ */
+export function generationFailed(error: unknown, fallback: string): NextResponse {
+  const status = isGenerationError(error) ? STATUS[error.kind] : 500;
+  return NextResponse.json(toErrorBody(error, fallback), { status });
+}
@@ -0,0 +1,102 @@
+/**
+ * Gemini provider (Google Generative AI SDK).
+ *
+ * The API key is checked when the provider is first used, not at import
+ * time, so the app boots without GEMINI_API_KEY when another provider
+ * (e.g. mock) is selected.
+ */
+
+import { GoogleGenerativeAI, Content, GenerationConfig } from '@google/generative-ai';
+import { ConversationTurn } from '../history';
+import { LLMProvider, GenerateRequest, ProviderUsage } from './types';
+
+const DEFAULT_MODEL = process.env.GEMINI_MODEL || 'gemini-3-flash-preview';
+
+let genAI: GoogleGenerativeAI | null = null;
+
+export function getGeminiClient(): GoogleGenerativeAI {
+  if (!process.env.GEMINI_API_KEY) {
+    throw new Error('Please add your GEMINI_API_KEY to .env.local');
+  }
+  if (!genAI) genAI = new GoogleGenerativeAI(process.env.GEMINI_API_KEY);
+  return genAI;
+}
+
+function toContents(history: ConversationTurn[] = []): Content[] {
+  return history.map((turn) => ({
+    role: turn.role,
+    parts: [{ text: turn.content }],
+  }));
+}
+
+function toUsage(
+  metadata?: { promptTokenCount: number; candidatesTokenCount?: number }
+): ProviderUsage | undefined {
+  if (!metadata) return undefined;
+  return {
+    promptTokens: metadata.promptTokenCount,
+    completionTokens: metadata.candidatesTokenCount ?? 0,
+  };
+}
+
+function toGenerationConfig(request: GenerateRequest): GenerationConfig {
+  return {
+    ...(request.responseFormat === 'json' ? { responseMimeType: 'application/json' } : {}),
+    ...(request.temperature !== undefined ? { temperature: request.temperature } : {}),
+    ...(request.maxOutputTokens !== undefined ? { maxOutputTokens: request.maxOutputTokens } : {}),
+  };
+}
+
+function startChat(request: GenerateRequest) {
+  const model = getGeminiClient().getGenerativeModel({
+    model: request.model,
+    ...(request.systemPrompt ? { systemInstruction: request.systemPrompt } : {}),
+    generationConfig: toGenerationConfig(request),
+  });
+
+  // Prior turns of the branch (root → parent) give the model the thread context
+  return model.startChat({ history: toContents(request.history) });
+}
+
+export function createGeminiProvider(): LLMProvider {
+  return {
+    name: 'gemini',
+    defaultModel: DEFAULT_MODEL,
+
+    async generate(request) {
+      const result = await startChat(request).sendMessage(request.prompt, {
+        signal: request.signal,
+      });
+      const response = await result.response;
+      return { text: response.text(), usage: toUsage(response.usageMetadata) };
+    },
+
+    async *stream(request) {
+      const result = await startChat(request).sendMessageStream(request.prompt, {
+        signal: request.signal,
+      });
+      for await (const chunk of result.stream) {
+        const text = chunk.text();
+        if (text) yield text;
+      }
+
+      // Resolves to the aggregated response once the stream is done
+      const response = await result.response;
+      return toUsage(response.usageMetadata);
+    },
+
+    async countTokens(request) {
+      const model = getGeminiClient().getGenerativeModel({
+        model: request.model,
+        ...(request.systemPrompt ? { systemInstruction: request.systemPrompt } : {}),
+      });
+      const { totalTokens } = await model.countTokens({
+        contents: [
+          ...toContents(request.history),
+          { role: 'user', parts: [{ text: request.prompt }] },
+        ],
+      });
+      return totalTokens;
+    },
+  };
+}
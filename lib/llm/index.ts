@@ -0,0 +1,439 @@
+/**
+ * LLM Facade — provider registry and per-request model selection
+ *
+ * Routes call generateResponse / streamResponse with a ModelChoice
+ * resolved from the request body's `model` field:
+ *
+ *   "gemini"                      → gemini provider, its default model
+ *   "openai:gpt-4o-mini"          → openai provider, explicit model
+ *   "mock"                        → deterministic offline provider
+ *   undefined / ""                → LLM_PROVIDER env (default "gemini")
+ *
+ * Providers are created lazily and cached, so a missing API key only
+ * fails requests that actually use that provider.
+ *
+ * Usage: every call is measured (latency) and its token counts are taken
+ * from the provider's usage fields, or estimated (./tokens) when the
+ * provider doesn't report them. generateResponse returns the LLMUsage;
+ * both functions also pass it to `options.onUsage`, which is how callers
+ * account for calls made deep inside helpers (see lib/usageRepository).
+ *
+ * Failures: each attempt is aborted after LLM_TIMEOUT_MS (default 60s;
+ * for streams, 60s without a chunk), and timeouts and network errors are
+ * retried up to LLM_MAX_RETRIES times (default 2) with exponential
+ * backoff. A stream is only retried if it hasn't produced any text yet.
+ * Whatever fails is thrown as a GenerationError (./errors), which says
+ * what went wrong. Aborting `options.signal` cancels the call, including
+ * any retry it is waiting for.
+ *
+ * Caching: identical calls are answered from lib/responseCache without
+ * reaching the provider (reported with `cached: true` and zero tokens),
+ * unless `options.bypassCache` is set. Completed answers are stored.
+ */
+
+import { ConversationTurn } from '../history';
+import { cacheResponse, getCachedResponse, responseCacheKey } from '../responseCache';
+import { createGeminiProvider } from './gemini';
+import { createOpenAIProvider } from './openai';
+import { createMockProvider } from './mock';
+import { estimateRequestTokens, estimateTokens } from './tokens';
+import { GenerationError, GenerationErrorKind, toGenerationError } from './errors';
+import {
+  LLMProvider,
+  GenerateOptions,
+  GenerateRequest,
+  ModelChoice,
+  ProviderUsage,
+} from './types';
+
+export type {
+  LLMProvider,
+  GenerateOptions,
+  GenerateRequest,
+  GenerateResult,
+  ModelChoice,
+  ProviderUsage,
+} from './types';
+export { parseJsonItems } from './json';
+export type { GenerationError, GenerationErrorKind } from './errors';
+export { isGenerationError, toErrorBody, generationFailed } from './errors';
+
+/**
+ * Measured usage of one model call.
+ */
+export interface LLMUsage {
+  provider: string;
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+  latencyMs: number; // Request start → last token
+  estimated: boolean; // Token counts come from the estimator, not the provider
+  cached: boolean; // Answered from the response cache; no tokens were used
+}
+
+export interface CallOptions extends GenerateOptions {
+  // Called once per call that didn't fail. A stream abandoned by its
+  // consumer reports estimated usage for the text generated so far.
+  onUsage?: (usage: LLMUsage) => void;
+
+  // Skip the cache lookup and generate a fresh answer (which is then cached)
+  bypassCache?: boolean;
+}
+
+export interface ResponseResult {
+  text: string;
+  usage: LLMUsage;
+}
+
+/* ============================================================
+   REGISTRY
+============================================================ */
+
+const PROVIDER_FACTORIES: Record<string, () => LLMProvider> = {
+  gemini: createGeminiProvider,
+  openai: createOpenAIProvider,
+  mock: createMockProvider,
+};
+
+const providers = new Map<string, LLMProvider>();
+
+export function getProvider(name: string): LLMProvider {
+  const cached = providers.get(name);
+  if (cached) return cached;
+
+  const factory = PROVIDER_FACTORIES[name];
+  if (!factory) throw new Error(`Unknown LLM provider "${name}"`);
+
+  const provider = factory();
+  providers.set(name, provider);
+  return provider;
+}
+
+export function listProviders(): string[] {
+  return Object.keys(PROVIDER_FACTORIES);
+}
+
+/* ============================================================
+   MODEL SELECTION
+============================================================ */
+
+/**
+ * Parse a `provider[:model]` spec into a ModelChoice.
+ * Returns null if the provider is unknown.
+ */
+export function resolveModel(spec?: string | null): ModelChoice | null {
+  const raw = spec?.trim() || process.env.LLM_PROVIDER || 'gemini';
+  const separator = raw.indexOf(':');
+  const providerName = separator === -1 ? raw : raw.slice(0, separator);
+  const model = separator === -1 ? '' : raw.slice(separator + 1).trim();
+
+  if (!PROVIDER_FACTORIES[providerName]) return null;
+
+  return {
+    provider: providerName,
+    model: model || getProvider(providerName).defaultModel,
+  };
+}
+
+/* ============================================================
+   USAGE
+============================================================ */
+
+function measureUsage(
+  choice: ModelChoice,
+  request: GenerateRequest,
+  text: string,
+  reported: ProviderUsage | void | undefined,
+  startedAt: number
+): LLMUsage {
+  return {
+    provider: choice.provider,
+    model: choice.model,
+    promptTokens: reported ? reported.promptTokens : estimateRequestTokens(request),
+    completionTokens: reported ? reported.completionTokens : estimateTokens(text),
+    latencyMs: Date.now() - startedAt,
+    estimated: !reported,
+    cached: false,
+  };
+}
+
+function cachedUsage(choice: ModelChoice, startedAt: number): LLMUsage {
+  return {
+    provider: choice.provider,
+    model: choice.model,
+    promptTokens: 0,
+    completionTokens: 0,
+    latencyMs: Date.now() - startedAt,
+    estimated: false,
+    cached: true,
+  };
+}
+
+function toRequest(
+  choice: ModelChoice,
+  prompt: string,
+  history: ConversationTurn[],
+  options: CallOptions
+): GenerateRequest {
+  // onUsage and bypassCache are for the facade only; providers get the generation options
+  const generateOptions: GenerateOptions = { ...options };
+  delete (generateOptions as CallOptions).onUsage;
+  delete (generateOptions as CallOptions).bypassCache;
+  return { ...generateOptions, prompt, history, model: choice.model };
+}
+
+/* ============================================================
+   TIMEOUTS / RETRIES
+============================================================ */
+
+const DEFAULT_TIMEOUT_MS = 60_000;
+const DEFAULT_MAX_RETRIES = 2;
+const RETRY_BASE_DELAY_MS = 500;
+
+function readNumber(name: string, fallback: number): number {
+  const raw = process.env[name];
+  if (raw === undefined || raw.trim() === '') return fallback;
+  const value = Number(raw);
+  return Number.isFinite(value) && value >= 0 ? value : fallback;
+}
+
+function abortError(): Error {
+  const error = new Error('The operation was aborted');
+  error.name = 'AbortError';
+  return error;
+}
+
+/**
+ * One try at a provider call. Its signal aborts when the caller's does,
+ * when a wait() runs past the timeout, or when the attempt ends.
+ */
+interface Attempt {
+  signal: AbortSignal;
+  timedOut(): boolean;
+  // Settles like `promise`, or rejects with an AbortError on abort/timeout
+  wait<T>(promise: Promise<T>): Promise<T>;
+  // Abort whatever the provider still holds; detach from the caller's signal
+  end(): void;
+}
+
+function startAttempt(parent: AbortSignal | undefined): Attempt {
+  const controller = new AbortController();
+  const timeoutMs = readNumber('LLM_TIMEOUT_MS', DEFAULT_TIMEOUT_MS);
+  let timedOut = false;
+
+  const onParentAbort = () => controller.abort();
+  if (parent?.aborted) controller.abort();
+  else parent?.addEventListener('abort', onParentAbort);
+
+  return {
+    signal: controller.signal,
+    timedOut: () => timedOut,
+
+    wait(promise) {
+      return new Promise((resolve, reject) => {
+        if (controller.signal.aborted) return reject(abortError());
+
+        // The provider may not honour the signal; don't wait for it
+        const onAbort = () => reject(abortError());
+        controller.signal.addEventListener('abort', onAbort);
+        const timer = timeoutMs > 0
+          ? setTimeout(() => {
+            timedOut = true;
+            controller.abort();
+          }, timeoutMs)
+          : undefined;
+
+        promise.then(resolve, reject).finally(() => {
+          clearTimeout(timer);
+          controller.signal.removeEventListener('abort', onAbort);
+        });
+      });
+    },
+
+    end() {
+      parent?.removeEventListener('abort', onParentAbort);
+      controller.abort();
+    },
+  };
+}
+
+/**
+ * Classify a failed attempt, trusting our own abort bookkeeping over
+ * whatever the provider made of it.
+ */
+function toAttemptError(error: unknown, attempt: Attempt, parent?: AbortSignal): GenerationError {
+  let kind: GenerationErrorKind | undefined;
+  if (attempt.timedOut()) kind = 'timeout';
+  else if (parent?.aborted) kind = 'cancelled';
+  return toGenerationError(error, kind);
+}
+
+/**
+ * Wait before retry number `retry` (0-based): 500ms, 1s, 2s, ... with
+ * jitter. Rejects early if the caller aborts.
+ */
+function backoff(retry: number, signal?: AbortSignal): Promise<void> {
+  const delay = RETRY_BASE_DELAY_MS * 2 ** retry * (0.5 + Math.random() / 2);
+
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(abortError());
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(abortError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, delay);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+function canRetry(error: GenerationError, retry: number, signal?: AbortSignal): boolean {
+  return (
+    error.retryable &&
+    !signal?.aborted &&
+    retry < readNumber('LLM_MAX_RETRIES', DEFAULT_MAX_RETRIES)
+  );
+}
+
+/* ============================================================
+   GENERATION
+============================================================ */
+
+export async function generateResponse(
+  choice: ModelChoice,
+  prompt: string,
+  history: ConversationTurn[] = [],
+  options: CallOptions = {}
+): Promise<ResponseResult> {
+  const request = toRequest(choice, prompt, history, options);
+  const startedAt = Date.now();
+  const cacheKey = responseCacheKey(choice, request);
+
+  const cached = options.bypassCache ? null : await getCachedResponse(cacheKey);
+  if (cached) {
+    const usage = cachedUsage(choice, startedAt);
+    options.onUsage?.(usage);
+    return { text: cached.text, usage };
+  }
+
+  for (let retry = 0; ; retry++) {
+    const attempt = startAttempt(options.signal);
+
+    try {
+      const result = await attempt.wait(
+        getProvider(choice.provider).generate({ ...request, signal: attempt.signal })
+      );
+      const usage = measureUsage(choice, request, result.text, result.usage, startedAt);
+
+      await cacheResponse(cacheKey, { text: result.text, usage: result.usage });
+      options.onUsage?.(usage);
+      return { text: result.text, usage };
+    } catch (error) {
+      const failure = toAttemptError(error, attempt, options.signal);
+      if (!canRetry(failure, retry, options.signal)) {
+        if (failure.kind !== 'cancelled') {
+          console.error(`[llm:${choice.provider}] API error (${failure.kind}):`, error);
+        }
+        throw failure;
+      }
+      console.warn(`[llm:${choice.provider}] ${failure.kind} error, retrying:`, error);
+    } finally {
+      attempt.end();
+    }
+
+    await backoff(retry, options.signal).catch((error) => {
+      throw toGenerationError(error, 'cancelled');
+    });
+  }
+}
+
+/**
+ * Stream the response as text chunks while the model generates it.
+ * Stop iterating (or abort `options.signal`) to abandon the generation.
+ * Usage is reported through `options.onUsage` when the stream ends or
+ * is abandoned.
+ */
+export async function* streamResponse(
+  choice: ModelChoice,
+  prompt: string,
+  history: ConversationTurn[] = [],
+  options: CallOptions = {}
+): AsyncGenerator<string> {
+  const request = toRequest(choice, prompt, history, options);
+  const startedAt = Date.now();
+  const cacheKey = responseCacheKey(choice, request);
+
+  const cached = options.bypassCache ? null : await getCachedResponse(cacheKey);
+  if (cached) {
+    // Delivered whole; the client renders it like any other stream
+    yield cached.text;
+    options.onUsage?.(cachedUsage(choice, startedAt));
+    return;
+  }
+
+  let text = '';
+  let finished = false;
+  let failure: GenerationError | null = null;
+
+  try {
+    for (let retry = 0; ; retry++) {
+      const attempt = startAttempt(options.signal);
+      // Iterated by hand (not yield*) to get at the provider's return value
+      const stream = getProvider(choice.provider).stream({ ...request, signal: attempt.signal });
+
+      try {
+        while (true) {
+          const next = await attempt.wait(stream.next());
+          if (next.done) {
+            finished = true;
+            await cacheResponse(cacheKey, { text, usage: next.value || undefined });
+            options.onUsage?.(measureUsage(choice, request, text, next.value, startedAt));
+            return;
+          }
+          text += next.value;
+          yield next.value;
+        }
+      } catch (error) {
+        failure = toAttemptError(error, attempt, options.signal);
+        // Chunks already sent can't be taken back, so only retry from scratch
+        if (text || !canRetry(failure, retry, options.signal)) {
+          if (failure.kind !== 'cancelled') {
+            console.error(`[llm:${choice.provider}] API error (${failure.kind}):`, error);
+          }
+          throw failure;
+        }
+        console.warn(`[llm:${choice.provider}] ${failure.kind} error, retrying:`, error);
+      } finally {
+        // Consumer stopped early: let the provider release its connection.
+        // (After a failure the provider may still be stuck; end() aborts it.)
+        if (!finished && !failure) await stream.return(undefined).catch(() => undefined);
+        attempt.end();
+      }
+
+      failure = null;
+      await backoff(retry, options.signal).catch((error) => {
+        failure = toGenerationError(error, 'cancelled');
+        throw failure;
+      });
+    }
+  } finally {
+    // Abandoned or cancelled: account for what was generated before that
+    if (!finished && (!failure || failure.kind === 'cancelled')) {
+      options.onUsage?.(measureUsage(choice, request, text, undefined, startedAt));
+    }
+  }
+}
+
+export async function countTokens(
+  choice: ModelChoice,
+  prompt: string,
+  history: ConversationTurn[] = []
+): Promise<number> {
+  return getProvider(choice.provider).countTokens({
+    prompt,
+    history,
+    model: choice.model,
+  });
+}
@@ -0,0 +1,31 @@
+/**
+ * Parsing for JSON-mode answers.
+ *
+ * Convention: every JSON prompt in this app asks for an object of the
+ * form { "items": [...] }. Models don't always comply exactly, so the
+ * parser also accepts a bare array, any single array-valued property,
+ * and output wrapped in markdown code fences.
+ */
+
+export function parseJsonItems(text: string): unknown[] {
+  const cleaned = text
+    .trim()
+    .replace(/^```(?:json)?\s*/i, '')
+    .replace(/\s*```$/, '');
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(cleaned);
+  } catch {
+    return [];
+  }
+
+  if (Array.isArray(parsed)) return parsed;
+  if (!parsed || typeof parsed !== 'object') return [];
+
+  const record = parsed as Record<string, unknown>;
+  if (Array.isArray(record.items)) return record.items;
+
+  const firstArray = Object.values(record).find(Array.isArray);
+  return (firstArray as unknown[] | undefined) || [];
+}
@@ -0,0 +1,73 @@
+/**
+ * Mock provider — deterministic, offline, no API key.
+ *
+ * Echoes the prompt back inside a small markdown answer that also
+ * reports how much history it received, so CI and offline dev boxes can
+ * exercise the full flow (history, streaming, persistence) end to end.
+ *
+ * Same request → same text, every time.
+ */
+
+import { LLMProvider, GenerateRequest } from './types';
+import { estimateRequestTokens } from './tokens';
+
+// Delay between streamed chunks, so streaming UI is visible in dev
+const STREAM_CHUNK_DELAY_MS = Number(process.env.MOCK_STREAM_DELAY_MS ?? 20);
+
+// Item count for JSON-mode answers
+const MOCK_JSON_ITEMS = 3;
+
+function mockAnswer(request: GenerateRequest): string {
+  // JSON mode follows the app-wide { "items": [...] } convention (see ./json)
+  if (request.responseFormat === 'json') {
+    const items = Array.from(
+      { length: MOCK_JSON_ITEMS },
+      (_, i) => `Mock item ${i + 1} (${request.model})`
+    );
+    return JSON.stringify({ items });
+  }
+
+  const turns = request.history?.length || 0;
+  return [
+    `**Mock answer** (${request.model})`,
+    '',
+    `You asked: "${request.prompt}"`,
+    '',
+    turns > 0
+      ? `This branch continues a thread with ${turns / 2} earlier exchange(s).`
+      : 'This is the start of a new thread.',
+    ...(request.systemPrompt
+      ? ['', `Instructions received: ${request.systemPrompt.split('\n').length} line(s).`]
+      : []),
+    ...(request.temperature !== undefined || request.maxOutputTokens !== undefined
+      ? ['', `Settings: temperature ${request.temperature ?? 'default'}, max tokens ${request.maxOutputTokens ?? 'default'}.`]
+      : []),
+  ].join('\n');
+}
+
+export function createMockProvider(): LLMProvider {
+  return {
+    name: 'mock',
+    defaultModel: 'echo',
+
+    async generate(request) {
+      return { text: mockAnswer(request) };
+    },
+
+    async *stream(request) {
+      // Word-sized chunks, keeping the whitespace that follows each word
+      const chunks = mockAnswer(request).match(/\S+\s*|\s+/g) || [];
+      for (const chunk of chunks) {
+        request.signal?.throwIfAborted();
+        if (STREAM_CHUNK_DELAY_MS > 0) {
+          await new Promise((resolve) => setTimeout(resolve, STREAM_CHUNK_DELAY_MS));
+        }
+        yield chunk;
+      }
+    },
+
+    async countTokens(request) {
+      return estimateRequestTokens(request);
+    },
+  };
+}
@@ -0,0 +1,158 @@
+/**
+ * OpenAI-compatible provider (plain HTTP, no SDK).
+ *
+ * Talks to any server exposing POST {baseUrl}/chat/completions with the
+ * OpenAI wire format — OpenAI itself, Azure-style gateways, vLLM, Ollama,
+ * LM Studio, etc.
+ *
+ * Env:
+ *   OPENAI_API_KEY   — sent as a Bearer token (optional for local servers)
+ *   OPENAI_BASE_URL  — default https://api.openai.com/v1
+ *   OPENAI_MODEL     — default model when the request doesn't name one
+ */
+
+import { LLMProvider, GenerateRequest, ProviderUsage } from './types';
+import { estimateRequestTokens } from './tokens';
+
+const DEFAULT_MODEL = process.env.OPENAI_MODEL || 'gpt-4o-mini';
+
+interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+function toMessages(request: GenerateRequest): ChatMessage[] {
+  const messages: ChatMessage[] = request.systemPrompt
+    ? [{ role: 'system', content: request.systemPrompt }]
+    : [];
+  for (const turn of request.history || []) {
+    messages.push({
+      role: turn.role === 'model' ? 'assistant' : 'user',
+      content: turn.content,
+    });
+  }
+  messages.push({ role: 'user', content: request.prompt });
+  return messages;
+}
+
+async function postChatCompletion(
+  request: GenerateRequest,
+  stream: boolean
+): Promise<Response> {
+  const baseUrl = (process.env.OPENAI_BASE_URL || 'https://api.openai.com/v1').replace(/\/$/, '');
+
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  if (process.env.OPENAI_API_KEY) {
+    headers.Authorization = `Bearer ${process.env.OPENAI_API_KEY}`;
+  }
+
+  const res = await fetch(`${baseUrl}/chat/completions`, {
+    method: 'POST',
+    headers,
+    signal: request.signal,
+    body: JSON.stringify({
+      model: request.model,
+      messages: toMessages(request),
+      stream,
+      ...(request.temperature !== undefined ? { temperature: request.temperature } : {}),
+      ...(request.maxOutputTokens !== undefined ? { max_tokens: request.maxOutputTokens } : {}),
+      // Ask for a final usage chunk; servers that don't support it ignore it
+      ...(stream ? { stream_options: { include_usage: true } } : {}),
+      // json_object mode requires a top-level object, which is why JSON
+      // prompts in this app ask for { "items": [...] } rather than a bare array
+      ...(request.responseFormat === 'json'
+        ? { response_format: { type: 'json_object' } }
+        : {}),
+    }),
+  });
+
+  if (!res.ok) {
+    const body = await res.text().catch(() => '');
+    // `status` lets the facade classify the failure (see ./errors)
+    throw Object.assign(
+      new Error(`OpenAI-compatible API error ${res.status}: ${body.slice(0, 200)}`),
+      { status: res.status }
+    );
+  }
+
+  return res;
+}
+
+function checkFinishReason(choice?: { finish_reason?: string | null }): void {
+  if (choice?.finish_reason === 'content_filter') {
+    throw new Error('Response blocked by content_filter');
+  }
+}
+
+function toUsage(
+  usage?: { prompt_tokens?: number; completion_tokens?: number } | null
+): ProviderUsage | undefined {
+  if (!usage || typeof usage.prompt_tokens !== 'number') return undefined;
+  return {
+    promptTokens: usage.prompt_tokens,
+    completionTokens: usage.completion_tokens ?? 0,
+  };
+}
+
+/**
+ * Yield the JSON payload of each `data:` line until `data: [DONE]`.
+ */
+async function* readDataLines(res: Response): AsyncGenerator<string> {
+  if (!res.body) return;
+
+  const reader = res.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  while (true) {
+    const { value, done } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split('\n');
+    buffer = lines.pop() || '';
+
+    for (const line of lines) {
+      const trimmed = line.trim();
+      if (!trimmed.startsWith('data:')) continue;
+      const payload = trimmed.slice(5).trim();
+      if (payload === '[DONE]') return;
+      yield payload;
+    }
+  }
+}
+
+export function createOpenAIProvider(): LLMProvider {
+  return {
+    name: 'openai',
+    defaultModel: DEFAULT_MODEL,
+
+    async generate(request) {
+      const res = await postChatCompletion(request, false);
+      const data = await res.json();
+      checkFinishReason(data.choices?.[0]);
+      return {
+        text: data.choices?.[0]?.message?.content ?? '',
+        usage: toUsage(data.usage),
+      };
+    },
+
+    async *stream(request) {
+      const res = await postChatCompletion(request, true);
+      let usage: ProviderUsage | undefined;
+      for await (const payload of readDataLines(res)) {
+        const data = JSON.parse(payload);
+        const text = data.choices?.[0]?.delta?.content;
+        if (text) yield text;
+        checkFinishReason(data.choices?.[0]);
+        usage = toUsage(data.usage) ?? usage;
+      }
+      return usage;
+    },
+
+    // The chat completions API has no token counting endpoint
+    async countTokens(request) {
+      return estimateRequestTokens(request);
+    },
+  };
+}
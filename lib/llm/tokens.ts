@@ -0,0 +1,26 @@
+/**
+ * Token estimation for providers that can't count tokens themselves.
+ *
+ * ~4 characters per token is the usual rule of thumb for English text
+ * with BPE tokenizers. Good enough for budgeting, not for billing.
+ */
+
+import { GenerateRequest } from './types';
+
+const CHARS_PER_TOKEN = 4;
+
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+export function estimateRequestTokens(request: GenerateRequest): number {
+  const historyTokens = (request.history || []).reduce(
+    (sum, turn) => sum + estimateTokens(turn.content),
+    0
+  );
+  return (
+    estimateTokens(request.systemPrompt || '') +
+    historyTokens +
+    estimateTokens(request.prompt)
+  );
+}
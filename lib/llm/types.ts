@@ -0,0 +1,84 @@
+/**
+ * LLM Provider Types
+ *
+ * Every model backend (Gemini, OpenAI-compatible, mock) implements
+ * LLMProvider. Routes never talk to a vendor SDK directly — they go
+ * through the facade in ./index.ts, which picks the provider per request.
+ */
+
+import { ConversationTurn } from '../history';
+
+/* ============================================================
+   REQUESTS / RESULTS
+============================================================ */
+
+/**
+ * Per-call options that don't identify the model.
+ */
+export interface GenerateOptions {
+  // 'json' asks the provider for a single JSON value (no prose, no fences).
+  // Parse with parseJsonItems() from ./json.
+  responseFormat?: 'text' | 'json';
+
+  // Standing instructions sent ahead of the conversation (see
+  // lib/promptSettings.ts). Providers map it to their native system role.
+  systemPrompt?: string;
+
+  // Sampling temperature and output cap; provider defaults when unset
+  // (see lib/generationParams.ts)
+  temperature?: number;
+  maxOutputTokens?: number;
+
+  // Aborts the call. Providers pass it to their HTTP request so the
+  // upstream generation stops too.
+  signal?: AbortSignal;
+}
+
+export interface GenerateRequest extends GenerateOptions {
+  prompt: string;
+  history?: ConversationTurn[]; // Prior turns, oldest first
+  model: string; // Provider-specific model id
+}
+
+/**
+ * Token counts as reported by the provider's API.
+ */
+export interface ProviderUsage {
+  promptTokens: number;
+  completionTokens: number;
+}
+
+export interface GenerateResult {
+  text: string;
+  usage?: ProviderUsage; // Absent when the provider doesn't report usage
+}
+
+/**
+ * Which provider + model serves a request.
+ * Recorded on the node as metadata.provider / metadata.model.
+ */
+export interface ModelChoice {
+  provider: string;
+  model: string;
+}
+
+/* ============================================================
+   PROVIDER INTERFACE
+============================================================ */
+
+export interface LLMProvider {
+  name: string;
+  defaultModel: string;
+
+  /** Full completion in one round trip. */
+  generate(request: GenerateRequest): Promise<GenerateResult>;
+
+  /**
+   * Completion as text chunks; stop iterating to abandon it.
+   * Returns the reported usage, if any, once the stream is exhausted.
+   */
+  stream(request: GenerateRequest): AsyncGenerator<string, ProviderUsage | void>;
+
+  /** Prompt size (history + prompt) in the provider's tokens. */
+  countTokens(request: GenerateRequest): Promise<number>;
+}
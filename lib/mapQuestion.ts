@@ -0,0 +1,90 @@
+/**
+ * Map-level Questions (server-side)
+ *
+ * Answers a question against the whole map instead of one branch: the
+ * most relevant existing nodes (retrieval.ts) are numbered and sent to
+ * the model as context, and the answer becomes a new ROOT node with
+ * metadata.kind = 'map-answer' and metadata.sourceNodeIds listing the
+ * nodes it drew on. The canvas draws dashed reference links to them.
+ *
+ * Earlier map answers are not used as sources, so answers don't end up
+ * quoting each other instead of the threads they came from.
+ */
+
+import { generateResponse, CallOptions, LLMUsage, ModelChoice } from './llm';
+import { rankNodes, RetrievableNode } from './retrieval';
+import { MAP_ANSWER_KIND } from './references';
+
+const MAX_SOURCES = 6;
+const MAX_SOURCE_ANSWER_CHARS = 1500;
+
+interface SourceNode extends RetrievableNode {
+  metadata?: Record<string, unknown>;
+}
+
+/* ============================================================
+   RETRIEVAL
+============================================================ */
+
+/**
+ * The nodes most relevant to a map-level question, best first.
+ */
+export function findSourceNodes<T extends SourceNode>(nodes: T[], question: string): T[] {
+  const candidates = nodes.filter(
+    (node) => node.metadata?.kind !== MAP_ANSWER_KIND && node.response.trim()
+  );
+  return rankNodes(candidates, question, MAX_SOURCES).map((ranked) => ranked.node);
+}
+
+/* ============================================================
+   PROMPT
+============================================================ */
+
+function buildMapQuestionPrompt(question: string, sources: SourceNode[]): string {
+  const notes = sources.map((node, i) => {
+    const answer =
+      node.response.length > MAX_SOURCE_ANSWER_CHARS
+        ? node.response.slice(0, MAX_SOURCE_ANSWER_CHARS) + '…'
+        : node.response;
+    return `[${i + 1}] Q: ${node.content}\nA: ${answer}`;
+  });
+
+  return [
+    'Answer the question below using these notes from the user\'s mind map (earlier question/answer threads).',
+    'Cite the notes you rely on by number, like [2]. Where they disagree, say so.',
+    sources.length > 0
+      ? 'If the notes do not cover the question, say that before answering from general knowledge.'
+      : 'No notes in the map are relevant; say so, then answer from general knowledge.',
+    '',
+    ...(notes.length > 0 ? [notes.join('\n\n'), ''] : []),
+    `Question: ${question}`,
+  ].join('\n');
+}
+
+/* ============================================================
+   ANSWER
+============================================================ */
+
+/**
+ * Answer a question from the map's nodes.
+ */
+export async function answerMapQuestion<T extends SourceNode>(
+  choice: ModelChoice,
+  nodes: T[],
+  question: string,
+  options: CallOptions = {}
+): Promise<{ response: string; sourceNodeIds: string[]; usage: LLMUsage }> {
+  const sources = findSourceNodes(nodes, question);
+  const result = await generateResponse(
+    choice,
+    buildMapQuestionPrompt(question, sources),
+    [],
+    options
+  );
+
+  return {
+    response: result.text,
+    sourceNodeIds: sources.map((node) => node.id),
+    usage: result.usage,
+  };
+}
@@ -0,0 +1,1532 @@
+/**
+ * Mindmap Repository — server-side data access
+ *
+ * Owns the shape of mindmap documents in MongoDB and the logic for
+ * creating and appending stored nodes. API routes go through here so
+ * that the storage format lives in one place.
+ *
+ * A map is one document in `mindmaps` (name, settings, related links,
+ * version and stats) plus one document per node in `nodes`, keyed by
+ * `mindmapId`, so a map can grow past MongoDB's 16 MB document limit
+ * and a write only touches the nodes it changes. The `nodes` indexes
+ * (created on first use) cover the parent lookups, the createdAt order
+ * pages are served in (see getNodePage()) and maxDepth.
+ *
+ * Nodes are stored in their canonical lib/graph.ts shape, so they go to
+ * the client as they are:
+ *   node: GraphNode  { id, parentId, content, response, createdAt, metadata? }
+ *   edge: GraphEdge  { id: `${source}->${target}`, source, target }
+ * Edges are not stored; they are rebuilt from parentId.
+ * Writes are validated against the map (see validateNewNodes()).
+ * Maps from before the `nodes` collection keep their nodes in the map
+ * document; they are moved out the first time the map is read. Older
+ * node shapes ({ query, position, chainId }) are normalized on the way;
+ * `npm run migrate:graph` rewrites maps that haven't been read since.
+ *
+ * The map document also keeps the MindmapStats (nodeCount,
+ * rootNodeCount, maxDepth) of lib/persistence.ts, updated by each write
+ * rather than recounted on every list.
+ *
+ * The mindmap's prompt settings (persona, tone, ...) live on the same
+ * document; see lib/promptSettings.ts.
+ *
+ * Nodes also carry an `embedding` (see lib/embeddings), computed when
+ * they are written. It is server-only: strip it with toGraphNode().
+ *
+ * Routes read only the nodes they work on: a node by id, its lineage up
+ * the parentId index (conversation history), its subtree or children.
+ * Reads leave the embedding out; only whole-map similarity (search,
+ * related links) loads every node with it (getUserMindmap()).
+ *
+ * A user can have any number of mindmaps (see /api/mindmaps). Routes
+ * name the one they work on with `mindmapId`; without it they get the
+ * user's most recently updated map, as before maps could be chosen.
+ * Every write targets the loaded map by its _id.
+ *
+ * Several tabs can write to the same map at once, so writes never put
+ * back what they read earlier: nodes are inserted and changed one by
+ * one. Every change to nodes or related links bumps the map's
+ * `version`. Writes computed from the tree (delete, move) and
+ * whole-map saves only apply to the version they were computed from;
+ * see retryOnConflict() and saveMindmap(). What the two collections
+ * can't do atomically is made safe in both directions: appendNodes()
+ * checks its parents after inserting and deleteNodeTree() deletes
+ * children inserted meanwhile, and reads repair the short windows in
+ * between (see toForest()).
+ */
+
+import { isDeepStrictEqual } from 'util';
+import { ObjectId, WithId } from 'mongodb';
+import { getDb } from './db';
+import {
+  Graph,
+  GraphEdge,
+  GraphNode,
+  deserializeGraph,
+  treeEdgeId,
+} from './graph';
+import {
+  DEFAULT_MINDMAP_NAME,
+  MAX_MINDMAP_NAME_LENGTH,
+  MindmapStats,
+  MindmapSummary,
+  NodePage,
+  OpenMindmapResponse,
+} from './persistence';
+import { embedNodes, NodeEmbedding } from './embeddings';
+import { PromptSettings, DEFAULT_PROMPT_SETTINGS } from './promptSettings';
+import { cancelJobsForNodes } from './exploreJobs';
+
+/* ============================================================
+   TYPES
+============================================================ */
+
+export interface StoredNode extends GraphNode {
+  embedding?: NodeEmbedding;
+}
+
+/**
+ * A parent → child edge; the id is always treeEdgeId(source, target).
+ * Related links are kept apart, in relatedLinks.
+ */
+export type StoredEdge = Pick<GraphEdge, 'id' | 'source' | 'target'>;
+
+/**
+ * A related link the user decided on. Suggestions themselves are not
+ * stored; they are recomputed from embeddings (see lib/related.ts).
+ */
+export interface StoredRelatedLink {
+  id: string; // relatedEdgeId(source, target)
+  source: string;
+  target: string;
+  status: 'accepted' | 'dismissed';
+  score?: number;
+  updatedAt: Date;
+}
+
+/**
+ * A mindmap without its nodes (getUserMindmapInfo()).
+ */
+export interface StoredMindmapInfo extends MindmapStats {
+  id: string; // The document's _id, as a string
+  userId: string;
+  name: string;
+  createdAt: Date;
+  updatedAt: Date;
+  relatedLinks: StoredRelatedLink[];
+  settings: PromptSettings;
+  version: number; // Bumped by every change to nodes or related links
+}
+
+export interface StoredMindmap extends StoredMindmapInfo {
+  nodes: StoredNode[];
+  edges: StoredEdge[];
+}
+
+export interface NewNodeInput {
+  id?: string;
+  parentId: string | null;
+  content: string;
+  response: string;
+  createdAt?: Date;
+  metadata?: Record<string, unknown>;
+}
+
+/**
+ * The document fields typed writes touch (other fields are left alone).
+ */
+type MindmapDocument = Omit<StoredMindmapInfo, 'id' | 'settings'>;
+
+/**
+ * A node in the `nodes` collection.
+ */
+interface NodeDocument extends StoredNode {
+  _id?: ObjectId;
+  mindmapId: string;
+  depth: number; // Distance from its root, for maxDepth
+  revision?: number; // Bumped by updateStoredNode(), unset until then
+}
+
+// Node documents as StoredNodes, without and with their embedding
+const NODE_PROJECTION = { _id: 0, mindmapId: 0, depth: 0, revision: 0, embedding: 0 } as const;
+const EMBEDDED_NODE_PROJECTION = { _id: 0, mindmapId: 0, depth: 0, revision: 0 } as const;
+
+// Nodes per page of GET /api/mindmap/nodes, by default and at most
+export const NODE_PAGE_SIZE = 500;
+export const MAX_NODE_PAGE_SIZE = 2000;
+
+/* ============================================================
+   IDS
+============================================================ */
+
+export function generateNodeId(): string {
+  return `node-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+}
+
+/* ============================================================
+   COLLECTIONS
+============================================================ */
+
+let nodeIndexesReady: Promise<unknown> | null = null;
+
+async function getNodesCollection() {
+  const collection = (await getDb()).collection<NodeDocument>('nodes');
+  if (!nodeIndexesReady) {
+    nodeIndexesReady = Promise.all([
+      collection.createIndex({ mindmapId: 1, id: 1 }, { unique: true }),
+      collection.createIndex({ mindmapId: 1, parentId: 1 }),
+      collection.createIndex({ mindmapId: 1, createdAt: 1, id: 1 }),
+      collection.createIndex({ mindmapId: 1, depth: -1 }),
+    ]).catch((error) => {
+      nodeIndexesReady = null;
+      console.error('Node index error:', error);
+    });
+  }
+  await nodeIndexesReady;
+  return collection;
+}
+
+async function getMindmapsCollection() {
+  return (await getDb()).collection<MindmapDocument>('mindmaps');
+}
+
+function toNodeDocument(mindmapId: string, node: StoredNode, depth: number): NodeDocument {
+  return { ...node, mindmapId, depth };
+}
+
+/* ============================================================
+   TREE HELPERS
+============================================================ */
+
+/**
+ * The tree edges of a node list, derived from parentId.
+ */
+function toTreeEdges(nodes: GraphNode[]): StoredEdge[] {
+  return nodes
+    .filter((node): node is GraphNode & { parentId: string } => node.parentId !== null)
+    .map((node) => ({
+      id: treeEdgeId(node.parentId, node.id),
+      source: node.parentId,
+      target: node.id,
+    }));
+}
+
+/**
+ * Depth of every node (roots are 0). A missing parent or a cycle ends
+ * the walk up, so this terminates on any input.
+ */
+function nodeDepths(nodes: GraphNode[]): Map<string, number> {
+  const byId = new Map(nodes.map((node) => [node.id, node]));
+  const depths = new Map<string, number>();
+
+  for (const node of nodes) {
+    const chain: string[] = [];
+    const seen = new Set<string>();
+    let current: GraphNode | undefined = node;
+
+    while (current && !depths.has(current.id) && !seen.has(current.id)) {
+      chain.push(current.id);
+      seen.add(current.id);
+      current = current.parentId ? byId.get(current.parentId) : undefined;
+    }
+
+    let depth = current && depths.has(current.id) ? depths.get(current.id)! : -1;
+    for (let i = chain.length - 1; i >= 0; i--) depths.set(chain[i], ++depth);
+  }
+
+  return depths;
+}
+
+function statsOf(nodes: GraphNode[]): MindmapStats {
+  const depths = nodeDepths(nodes);
+  return {
+    nodeCount: nodes.length,
+    rootNodeCount: nodes.filter((node) => node.parentId === null).length,
+    maxDepth: Math.max(0, ...depths.values()),
+  };
+}
+
+/**
+ * The nodes as a forest: the first node of each id, every parent
+ * present, no cycles. A parentId breaking that is cleared (the node
+ * becomes a root). Writes keep maps this way; this covers maps saved
+ * before validation and the moment between two interleaved writes.
+ */
+function toForest(nodes: StoredNode[]): StoredNode[] {
+  const byId = new Map<string, StoredNode>();
+  for (const node of nodes) {
+    if (!byId.has(node.id)) byId.set(node.id, node);
+  }
+
+  for (const [id, node] of byId) {
+    if (node.parentId !== null && !byId.has(node.parentId)) {
+      byId.set(id, { ...node, parentId: null });
+    }
+  }
+
+  // Walk up from every node; coming back to a node means a cycle, cut there
+  for (const start of Array.from(byId.keys())) {
+    const seen = new Set<string>();
+    let current = byId.get(start)!;
+    while (current.parentId !== null) {
+      if (seen.has(current.id)) {
+        byId.set(current.id, { ...current, parentId: null });
+        break;
+      }
+      seen.add(current.id);
+      current = byId.get(current.parentId)!;
+    }
+  }
+
+  return Array.from(byId.values());
+}
+
+/* ============================================================
+   READ
+============================================================ */
+
+/**
+ * A mindmap id from a request as an ObjectId, or null if malformed.
+ */
+function toObjectId(id: string): ObjectId | null {
+  return /^[0-9a-f]{24}$/i.test(id) ? new ObjectId(id) : null;
+}
+
+/**
+ * The filter every write uses: this map, and only if it is the user's.
+ */
+function mindmapFilter(mindmap: StoredMindmapInfo): { _id: ObjectId; userId: string } {
+  return { _id: new ObjectId(mindmap.id), userId: mindmap.userId };
+}
+
+/**
+ * mindmapFilter(), and only while the map is still at the version it
+ * was read at. Documents from before versioning have no field: 0.
+ */
+function versionedFilter(mindmap: StoredMindmapInfo): Record<string, unknown> {
+  return {
+    ...mindmapFilter(mindmap),
+    version: mindmap.version === 0 ? { $in: [0, null] } : mindmap.version,
+  };
+}
+
+/**
+ * A node document in the current shape, whatever shape it was written
+ * in: legacy nodes have `query` instead of `content`, a Date createdAt
+ * and the position/chainId of the old chain layout.
+ */
+function toCanonicalNode(raw: Record<string, unknown>): StoredNode {
+  const createdAt = new Date((raw.createdAt as string | Date | undefined) ?? 0);
+  const node: StoredNode = {
+    id: String(raw.id),
+    parentId: typeof raw.parentId === 'string' && raw.parentId ? raw.parentId : null,
+    content: String(raw.content ?? raw.query ?? ''),
+    response: String(raw.response ?? ''),
+    createdAt: (Number.isNaN(createdAt.getTime()) ? new Date(0) : createdAt).toISOString(),
+  };
+
+  if (raw.metadata && typeof raw.metadata === 'object') {
+    node.metadata = raw.metadata as Record<string, unknown>;
+  }
+  if (raw.embedding) node.embedding = raw.embedding as NodeEmbedding;
+  return node;
+}
+
+function toMindmapInfo(doc: Record<string, unknown> & { _id: ObjectId }): StoredMindmapInfo {
+  return {
+    id: doc._id.toString(),
+    userId: doc.userId as string,
+    name: (doc.name as string | undefined) || DEFAULT_MINDMAP_NAME,
+    createdAt: (doc.createdAt as Date | undefined) || doc._id.getTimestamp(),
+    updatedAt: (doc.updatedAt as Date | undefined) || doc._id.getTimestamp(),
+    relatedLinks: (doc.relatedLinks as StoredRelatedLink[]) || [],
+    settings: { ...DEFAULT_PROMPT_SETTINGS, ...(doc.settings as Partial<PromptSettings>) },
+    version: (doc.version as number | undefined) ?? 0,
+    nodeCount: (doc.nodeCount as number | undefined) ?? 0,
+    rootNodeCount: (doc.rootNodeCount as number | undefined) ?? 0,
+    maxDepth: (doc.maxDepth as number | undefined) ?? 0,
+  };
+}
+
+/**
+ * Move the nodes of a map saved before the `nodes` collection out of
+ * its document. Upserts, so two reads doing it at once agree.
+ * Returns the document as it is now.
+ */
+async function moveEmbeddedNodes(
+  doc: Record<string, unknown> & { _id: ObjectId }
+): Promise<Record<string, unknown> & { _id: ObjectId }> {
+  const mindmapId = doc._id.toString();
+  const nodes = toForest(((doc.nodes as Record<string, unknown>[]) || []).map(toCanonicalNode));
+  const depths = nodeDepths(nodes);
+
+  if (nodes.length > 0) {
+    const collection = await getNodesCollection();
+    await collection.bulkWrite(
+      nodes.map(({ id, ...fields }) => ({
+        updateOne: {
+          filter: { mindmapId, id },
+          update: { $setOnInsert: { ...fields, depth: depths.get(id) ?? 0 } },
+          upsert: true,
+        },
+      }))
+    );
+  }
+
+  const stats = statsOf(nodes);
+  const db = await getDb();
+  await db
+    .collection('mindmaps')
+    .updateOne({ _id: doc._id }, { $unset: { nodes: '', edges: '' }, $set: stats });
+
+  const moved: Record<string, unknown> & { _id: ObjectId } = { ...doc, ...stats };
+  delete moved.nodes;
+  delete moved.edges;
+  return moved;
+}
+
+/**
+ * Load one of the user's mindmaps without its nodes: `mindmapId` if
+ * given, otherwise the one they updated last. Null if there is none,
+ * or it isn't theirs.
+ */
+export async function getUserMindmapInfo(
+  userId: string,
+  mindmapId?: string | null
+): Promise<StoredMindmapInfo | null> {
+  const db = await getDb();
+  const mindmaps = db.collection('mindmaps');
+  let doc;
+
+  if (mindmapId) {
+    const _id = toObjectId(mindmapId);
+    if (!_id) return null;
+    doc = await mindmaps.findOne({ _id, userId });
+  } else {
+    [doc] = await mindmaps.find({ userId }).sort({ updatedAt: -1 }).limit(1).toArray();
+  }
+
+  if (!doc) return null;
+  return toMindmapInfo(Array.isArray(doc.nodes) ? await moveEmbeddedNodes(doc) : doc);
+}
+
+/**
+ * All nodes of a map as a forest (see toForest()), oldest first;
+ * without their embeddings unless asked for. Only for work that really
+ * spans the whole map: everything else reads the nodes it needs
+ * (getStoredNodes(), getStoredLineage(), getStoredSubtree(), ...).
+ */
+export async function getMindmapNodes(
+  mindmap: StoredMindmapInfo,
+  options: { embeddings?: boolean } = {}
+): Promise<StoredNode[]> {
+  const collection = await getNodesCollection();
+  const docs = await collection
+    .find(
+      { mindmapId: mindmap.id },
+      { projection: options.embeddings ? EMBEDDED_NODE_PROJECTION : NODE_PROJECTION }
+    )
+    .sort({ createdAt: 1, id: 1 })
+    .toArray();
+  return toForest(docs.map(toCanonicalNode));
+}
+
+/**
+ * Load one of the user's mindmaps (see getUserMindmapInfo() for which
+ * one) with all of its nodes and their embeddings, for whole-map
+ * similarity (lib/search.ts, lib/related.ts).
+ */
+export async function getUserMindmap(
+  userId: string,
+  mindmapId?: string | null
+): Promise<StoredMindmap | null> {
+  const info = await getUserMindmapInfo(userId, mindmapId);
+  if (!info) return null;
+
+  const nodes = await getMindmapNodes(info, { embeddings: true });
+  return { ...info, nodes, edges: toTreeEdges(nodes) };
+}
+
+/**
+ * The map's nodes with these ids (unknown ids are left out), without
+ * their embeddings unless asked for.
+ */
+export async function getStoredNodes(
+  mindmap: StoredMindmapInfo,
+  nodeIds: string[],
+  options: { embeddings?: boolean } = {}
+): Promise<StoredNode[]> {
+  const collection = await getNodesCollection();
+  const docs = await collection
+    .find(
+      { mindmapId: mindmap.id, id: { $in: nodeIds } },
+      { projection: options.embeddings ? EMBEDDED_NODE_PROJECTION : NODE_PROJECTION }
+    )
+    .toArray();
+  return docs.map(toCanonicalNode);
+}
+
+/**
+ * One node of the map without its embedding, or null.
+ */
+export async function getStoredNode(
+  mindmap: StoredMindmapInfo,
+  nodeId: string
+): Promise<StoredNode | null> {
+  const [node] = await getStoredNodes(mindmap, [nodeId]);
+  return node ?? null;
+}
+
+/**
+ * A node and its ancestors, root first and the node last (without
+ * embeddings): the lineage conversation history is built from (see
+ * lib/history.ts). One lookup up the parentId chain; [] for an unknown
+ * node. A missing parent or a cycle ends the chain.
+ */
+export async function getStoredLineage(
+  mindmap: StoredMindmapInfo,
+  nodeId: string
+): Promise<StoredNode[]> {
+  const collection = await getNodesCollection();
+  const [doc] = await collection
+    .aggregate([
+      { $match: { mindmapId: mindmap.id, id: nodeId } },
+      {
+        $graphLookup: {
+          from: 'nodes',
+          startWith: '$parentId',
+          connectFromField: 'parentId',
+          connectToField: 'id',
+          as: 'ancestors',
+          restrictSearchWithMatch: { mindmapId: mindmap.id },
+        },
+      },
+      { $project: { embedding: 0, 'ancestors.embedding': 0 } },
+    ])
+    .toArray();
+  if (!doc) return [];
+
+  const ancestors = (doc.ancestors as Array<Record<string, unknown>>).map(toCanonicalNode);
+
+  // $graphLookup returns them unordered: follow parentId from the node
+  const byId = new Map(ancestors.map((node) => [node.id, node]));
+  byId.delete(nodeId);
+  const lineage = [toCanonicalNode(doc)];
+  let parentId = lineage[0].parentId;
+  while (parentId && byId.has(parentId)) {
+    const parent = byId.get(parentId)!;
+    byId.delete(parentId);
+    lineage.unshift(parent);
+    parentId = parent.parentId;
+  }
+  return lineage;
+}
+
+/**
+ * Node documents of a node and everything below it, level by level
+ * (the node first), walking down the parentId index. A cycle ends the
+ * walk. [] for an unknown node.
+ */
+async function findSubtree(
+  mindmap: StoredMindmapInfo,
+  nodeId: string,
+  projection: Record<string, 0 | 1>
+): Promise<Array<WithId<NodeDocument>>> {
+  const collection = await getNodesCollection();
+  const subtree: Array<WithId<NodeDocument>> = [];
+  const seen = new Set<string>();
+  let filter: Record<string, unknown> = { mindmapId: mindmap.id, id: nodeId };
+
+  while (true) {
+    const docs = (await collection
+      .find(filter, { projection })
+      .sort({ createdAt: 1, id: 1 })
+      .toArray()).filter((doc) => !seen.has(doc.id));
+    if (docs.length === 0) break;
+
+    for (const doc of docs) seen.add(doc.id);
+    subtree.push(...docs);
+    filter = { mindmapId: mindmap.id, parentId: { $in: docs.map((doc) => doc.id) } };
+  }
+
+  return subtree;
+}
+
+/**
+ * A node and all of its descendants (without embeddings), the node
+ * first. [] for an unknown node.
+ */
+export async function getStoredSubtree(
+  mindmap: StoredMindmapInfo,
+  nodeId: string
+): Promise<StoredNode[]> {
+  const docs = await findSubtree(mindmap, nodeId, NODE_PROJECTION);
+  return docs.map(toCanonicalNode);
+}
+
+/**
+ * The children of a node (without embeddings), oldest first.
+ */
+export async function getChildNodes(
+  mindmap: StoredMindmapInfo,
+  parentId: string
+): Promise<StoredNode[]> {
+  const collection = await getNodesCollection();
+  const docs = await collection
+    .find({ mindmapId: mindmap.id, parentId }, { projection: NODE_PROJECTION })
+    .sort({ createdAt: 1, id: 1 })
+    .toArray();
+  return docs.map(toCanonicalNode);
+}
+
+/**
+ * A page cursor from a request: the createdAt and id of the last node
+ * of the previous page, or null if malformed.
+ */
+export function parseNodeCursor(input: unknown): { createdAt: string; id: string } | null {
+  if (typeof input !== 'string') return null;
+  const separator = input.indexOf('|');
+  if (separator < 0) return null;
+
+  const createdAt = input.slice(0, separator);
+  const id = input.slice(separator + 1);
+  return id && !Number.isNaN(Date.parse(createdAt)) ? { createdAt, id } : null;
+}
+
+/**
+ * One page of a map's nodes, oldest first. Parents are usually on an
+ * earlier page than their children, but not always (a node can be moved
+ * under a newer one).
+ */
+export async function getNodePage(
+  mindmap: StoredMindmapInfo,
+  after: { createdAt: string; id: string } | null,
+  limit = NODE_PAGE_SIZE
+): Promise<NodePage> {
+  const collection = await getNodesCollection();
+  const docs = await collection
+    .find(
+      {
+        mindmapId: mindmap.id,
+        ...(after
+          ? {
+              $or: [
+                { createdAt: { $gt: after.createdAt } },
+                { createdAt: after.createdAt, id: { $gt: after.id } },
+              ],
+            }
+          : {}),
+      },
+      { projection: NODE_PROJECTION }
+    )
+    .sort({ createdAt: 1, id: 1 })
+    .limit(limit + 1)
+    .toArray();
+
+  const nodes = docs.slice(0, limit).map((doc) => toGraphNode(toCanonicalNode(doc)));
+  const last = nodes[nodes.length - 1];
+
+  return {
+    nodes,
+    nextCursor: docs.length > limit && last ? `${last.createdAt}|${last.id}` : null,
+  };
+}
+
+/**
+ * A map as the canvas opens it: its stats and first page of nodes (the
+ * rest come from getNodePage()).
+ */
+export async function openMindmap(mindmap: StoredMindmapInfo): Promise<OpenMindmapResponse> {
+  return {
+    id: mindmap.id,
+    name: mindmap.name,
+    version: mindmap.version,
+    nodeCount: mindmap.nodeCount,
+    rootNodeCount: mindmap.rootNodeCount,
+    maxDepth: mindmap.maxDepth,
+    ...(await getNodePage(mindmap, null)),
+  };
+}
+
+/**
+ * The user's mindmaps without their nodes, most recently updated first.
+ */
+export async function listUserMindmaps(userId: string): Promise<MindmapSummary[]> {
+  const db = await getDb();
+  const docs = await db
+    .collection('mindmaps')
+    .aggregate([
+      { $match: { userId } },
+      { $sort: { updatedAt: -1 } },
+      {
+        $project: {
+          name: 1,
+          createdAt: 1,
+          updatedAt: 1,
+          // Maps not read since nodes got their own collection have no stats yet
+          nodeCount: { $ifNull: ['$nodeCount', { $size: { $ifNull: ['$nodes', []] } }] },
+          rootNodeCount: { $ifNull: ['$rootNodeCount', 0] },
+          maxDepth: { $ifNull: ['$maxDepth', 0] },
+        },
+      },
+    ])
+    .toArray();
+
+  return docs.map((doc) => ({
+    id: doc._id.toString(),
+    name: doc.name || DEFAULT_MINDMAP_NAME,
+    nodeCount: doc.nodeCount,
+    rootNodeCount: doc.rootNodeCount,
+    maxDepth: doc.maxDepth,
+    createdAt: new Date(doc.createdAt || doc._id.getTimestamp()).toISOString(),
+    updatedAt: new Date(doc.updatedAt || doc._id.getTimestamp()).toISOString(),
+  }));
+}
+
+/* ============================================================
+   CONVERSION
+============================================================ */
+
+/**
+ * A stored node without its embedding, for API responses.
+ */
+export function toGraphNode(node: StoredNode): GraphNode {
+  const graphNode = { ...node };
+  delete graphNode.embedding;
+  return graphNode;
+}
+
+/**
+ * Build the logical Graph of stored nodes (a whole map, or a part of
+ * one such as a subtree), so server code can use the same queries as
+ * the client (getSubtree, getNodeDepth, ...).
+ * Edges are rebuilt from parentId, which keeps their ids deterministic.
+ */
+export function toGraph(nodes: StoredNode[]): Graph {
+  return deserializeGraph({ nodes: nodes.map(toGraphNode), edges: [] });
+}
+
+/* ============================================================
+   NODE CONSTRUCTION
+============================================================ */
+
+/**
+ * Build a stored node and its incoming edge (null for a root).
+ */
+export function createStoredNode(input: NewNodeInput): { node: StoredNode; edge: StoredEdge | null } {
+  const parentId = input.parentId || null;
+
+  const node: StoredNode = {
+    id: input.id || generateNodeId(),
+    parentId,
+    content: input.content,
+    response: input.response,
+    createdAt: (input.createdAt || new Date()).toISOString(),
+    ...(input.metadata ? { metadata: input.metadata } : {}),
+  };
+
+  const edge: StoredEdge | null = parentId
+    ? { id: treeEdgeId(parentId, node.id), source: parentId, target: node.id }
+    : null;
+
+  return { node, edge };
+}
+
+/* ============================================================
+   VALIDATION
+============================================================ */
+
+const INVALID_GRAPH_ERROR_NAME = 'InvalidGraphError';
+
+// Why nodes didn't fit: the two that other writes cause have their own
+type InvalidGraphReason = 'invalid' | 'missing_parent' | 'id_taken';
+
+export function isInvalidGraphError(error: unknown): boolean {
+  return error instanceof Error && error.name === INVALID_GRAPH_ERROR_NAME;
+}
+
+function invalidGraph(message: string, reason: InvalidGraphReason = 'invalid'): Error {
+  const error = Object.assign(new Error(message), { reason });
+  error.name = INVALID_GRAPH_ERROR_NAME;
+  return error;
+}
+
+/**
+ * What a route answers when appending its node failed because another
+ * write got in first: 404 if the parent was deleted meanwhile, 409 if
+ * the node id was taken. Null for any other error.
+ */
+export function toAppendError(
+  error: unknown
+): { status: 404 | 409; body: { error: string; code?: 'conflict' } } | null {
+  if (!isInvalidGraphError(error)) return null;
+
+  switch ((error as { reason?: InvalidGraphReason }).reason) {
+    case 'missing_parent':
+      return { status: 404, body: { error: 'Parent node not found' } };
+    case 'id_taken':
+      return {
+        status: 409,
+        body: { error: 'The node id is already used. Try again.', code: 'conflict' },
+      };
+    default:
+      return null;
+  }
+}
+
+function isGraphNodeShape(input: unknown): input is GraphNode {
+  const node = input as Partial<GraphNode> | null;
+  return (
+    !!node &&
+    typeof node.id === 'string' &&
+    node.id !== '' &&
+    (node.parentId === null || typeof node.parentId === 'string') &&
+    typeof node.content === 'string' &&
+    typeof node.response === 'string' &&
+    (node.metadata === undefined || (typeof node.metadata === 'object' && node.metadata !== null))
+  );
+}
+
+/**
+ * Throws an InvalidGraphError unless the nodes can be added to a map
+ * holding `existingIds`: GraphNode shape with an ISO createdAt, ids not
+ * taken yet, parents present (earlier in the batch counts), and each
+ * edge the one its node's parentId implies. Only the ids the batch
+ * refers to need to be passed.
+ */
+export function validateNewNodes(
+  existingIds: Iterable<string>,
+  entries: Array<{ node: StoredNode; edge: StoredEdge | null }>
+): void {
+  const ids = new Set(existingIds);
+
+  for (const { node, edge } of entries) {
+    if (!isGraphNodeShape(node) || Number.isNaN(Date.parse(node.createdAt))) {
+      throw invalidGraph(`Node "${node.id}" is not a valid GraphNode`);
+    }
+    if (ids.has(node.id)) {
+      throw invalidGraph(`Node id "${node.id}" is already used`, 'id_taken');
+    }
+    if (node.parentId !== null && !ids.has(node.parentId)) {
+      throw invalidGraph(`Parent "${node.parentId}" of node "${node.id}" does not exist`, 'missing_parent');
+    }
+
+    const expected = node.parentId ? treeEdgeId(node.parentId, node.id) : null;
+    if (
+      (edge?.id ?? null) !== expected ||
+      (edge && (edge.source !== node.parentId || edge.target !== node.id))
+    ) {
+      throw invalidGraph(`Edge of node "${node.id}" does not match its parentId`);
+    }
+
+    ids.add(node.id);
+  }
+}
+
+/* ============================================================
+   CONCURRENCY
+============================================================ */
+
+const CONFLICT_ERROR_NAME = 'MindmapConflictError';
+
+// Reloads before a tree-wide write gives up (see retryOnConflict)
+const MAX_WRITE_ATTEMPTS = 3;
+
+export function isMindmapConflictError(error: unknown): boolean {
+  return error instanceof Error && error.name === CONFLICT_ERROR_NAME;
+}
+
+function mindmapConflict(): Error {
+  const error = new Error('The mindmap was changed by another write');
+  error.name = CONFLICT_ERROR_NAME;
+  return error;
+}
+
+/**
+ * Run a write computed from the tree against the latest map.
+ * `write` reads the nodes it needs, filters on the version of the map
+ * it is given and returns undefined if that matched nothing (another
+ * write got in first); the map is then reloaded and the write
+ * recomputed. Throws a MindmapConflictError after MAX_WRITE_ATTEMPTS
+ * tries.
+ */
+async function retryOnConflict<T>(
+  mindmap: StoredMindmapInfo,
+  write: (current: StoredMindmapInfo) => Promise<T | undefined>
+): Promise<T> {
+  let current: StoredMindmapInfo | null = mindmap;
+
+  for (let attempt = 0; attempt < MAX_WRITE_ATTEMPTS && current; attempt++) {
+    const result = await write(current);
+    if (result !== undefined) return result;
+    current = await getUserMindmapInfo(mindmap.userId, mindmap.id);
+  }
+
+  throw mindmapConflict();
+}
+
+/**
+ * Recount maxDepth once nodes left the map or moved (appends raise it
+ * with $max). Only written if no other write got in meanwhile, so an
+ * append's deeper node is never overwritten.
+ */
+async function refreshMaxDepth(mindmap: StoredMindmapInfo): Promise<void> {
+  const nodes = await getNodesCollection();
+  const mindmaps = await getMindmapsCollection();
+
+  for (let attempt = 0; attempt < MAX_WRITE_ATTEMPTS; attempt++) {
+    const doc = await mindmaps.findOne(mindmapFilter(mindmap), { projection: { version: 1 } });
+    if (!doc) return;
+
+    const [deepest] = await nodes
+      .find({ mindmapId: mindmap.id }, { projection: { depth: 1 } })
+      .sort({ depth: -1 })
+      .limit(1)
+      .toArray();
+
+    const result = await mindmaps.updateOne(
+      versionedFilter({ ...mindmap, version: doc.version ?? 0 }),
+      { $set: { maxDepth: deepest?.depth ?? 0 } }
+    );
+    if (result.matchedCount > 0) return;
+  }
+}
+
+/**
+ * Delete nodes and everything below them, including children another
+ * write added after the map was read. Returns the deleted nodes.
+ */
+async function deleteNodeTree(
+  mindmap: StoredMindmapInfo,
+  nodeIds: string[]
+): Promise<Array<Pick<StoredNode, 'id' | 'parentId'>>> {
+  const collection = await getNodesCollection();
+  const deleted: Array<Pick<StoredNode, 'id' | 'parentId'>> = [];
+  let filter: Record<string, unknown> = { mindmapId: mindmap.id, id: { $in: nodeIds } };
+
+  // The given nodes first, then the children of each round's nodes
+  while (true) {
+    const docs = await collection
+      .find(filter, { projection: { _id: 0, id: 1, parentId: 1 } })
+      .toArray();
+    if (docs.length === 0) break;
+
+    const ids = docs.map((doc) => doc.id);
+    await collection.deleteMany({ mindmapId: mindmap.id, id: { $in: ids } });
+    deleted.push(...docs.map((doc) => ({ id: doc.id, parentId: doc.parentId })));
+    filter = { mindmapId: mindmap.id, parentId: { $in: ids } };
+  }
+
+  return deleted;
+}
+
+/* ============================================================
+   WRITE
+============================================================ */
+
+/**
+ * Append a node (and optional edge) to the user's mindmap.
+ */
+export async function appendNode(
+  mindmap: StoredMindmapInfo,
+  node: StoredNode,
+  edge: StoredEdge | null
+): Promise<void> {
+  await appendNodes(mindmap, [{ node, edge }]);
+}
+
+/**
+ * Append several nodes (and their edges). Throws an InvalidGraphError
+ * if they don't fit the map, including when another write deleted a
+ * parent or took an id after the map was read; nothing is added then.
+ * The nodes are embedded first; the passed-in node objects are not
+ * modified, so callers can return them to the client as they are.
+ */
+export async function appendNodes(
+  mindmap: StoredMindmapInfo,
+  entries: Array<{ node: StoredNode; edge: StoredEdge | null }>
+): Promise<void> {
+  if (entries.length === 0) return;
+
+  const nodes = await getNodesCollection();
+  const mindmaps = await getMindmapsCollection();
+
+  // Only the parents outside the batch are read; a taken id surfaces
+  // as a duplicate key on insert
+  const batchIds = new Set(entries.map((e) => e.node.id));
+  const outside = Array.from(
+    new Set(
+      entries
+        .map((e) => e.node.parentId)
+        .filter((id): id is string => typeof id === 'string' && !batchIds.has(id))
+    )
+  );
+  const parents = outside.length > 0
+    ? await nodes
+        .find({ mindmapId: mindmap.id, id: { $in: outside } }, { projection: { _id: 0, id: 1, depth: 1 } })
+        .toArray()
+    : [];
+  validateNewNodes(parents.map((parent) => parent.id), entries);
+
+  const embeddings = await embedNodes(entries.map((e) => e.node));
+  const newNodes = entries.map((e, i) =>
+    embeddings[i] ? { ...e.node, embedding: embeddings[i] } : e.node
+  );
+  const depths = new Map(parents.map((parent) => [parent.id, parent.depth ?? 0]));
+  for (const node of newNodes) {
+    depths.set(node.id, node.parentId ? (depths.get(node.parentId) ?? 0) + 1 : 0);
+  }
+  const docs = newNodes.map((node) => ({
+    ...toNodeDocument(mindmap.id, node, depths.get(node.id) ?? 0),
+    _id: new ObjectId(),
+  }));
+  const inserted = { _id: { $in: docs.map((doc) => doc._id) } };
+
+  try {
+    await nodes.insertMany(docs);
+  } catch (error) {
+    await nodes.deleteMany(inserted);
+    if ((error as { code?: number }).code === 11000) {
+      throw invalidGraph('A node id is already used', 'id_taken');
+    }
+    throw error;
+  }
+
+  // Parents outside the batch must still be there; if one was deleted
+  // meanwhile, that delete may have missed these nodes, so take them out
+  if (outside.length > 0) {
+    const found = await nodes.countDocuments({ mindmapId: mindmap.id, id: { $in: outside } });
+    if (found < outside.length) {
+      await nodes.deleteMany(inserted);
+      throw invalidGraph('The parent was deleted while the node was added', 'missing_parent');
+    }
+  }
+
+  await mindmaps.updateOne(mindmapFilter(mindmap), {
+    $inc: {
+      version: 1,
+      nodeCount: docs.length,
+      rootNodeCount: docs.filter((doc) => doc.parentId === null).length,
+    },
+    $max: { maxDepth: Math.max(...docs.map((doc) => doc.depth)) },
+    $set: { updatedAt: new Date() },
+  });
+}
+
+export type NodeUpdate = Partial<Pick<StoredNode, 'content' | 'response' | 'metadata'>>;
+
+/**
+ * The update operators writing only what `updates` changes on `node`:
+ * changed fields, and changed or removed metadata keys by dotted path,
+ * so writes to other keys meanwhile (sourceNodeIds, ...) are kept.
+ * A metadata key set to undefined is removed.
+ */
+function toNodeChanges(
+  node: StoredNode,
+  updates: NodeUpdate
+): { $set: Record<string, unknown>; $unset: Record<string, ''> } {
+  const $set: Record<string, unknown> = {};
+  const $unset: Record<string, ''> = {};
+
+  if (updates.content !== undefined && updates.content !== node.content) {
+    $set.content = updates.content;
+  }
+  if (updates.response !== undefined && updates.response !== node.response) {
+    $set.response = updates.response;
+  }
+
+  if (updates.metadata) {
+    const before = node.metadata || {};
+    for (const key of new Set([...Object.keys(before), ...Object.keys(updates.metadata)])) {
+      const value = updates.metadata[key];
+      if (value === undefined) {
+        if (before[key] !== undefined) $unset[`metadata.${key}`] = '';
+      } else if (!isDeepStrictEqual(value, before[key])) {
+        $set[`metadata.${key}`] = value;
+      }
+    }
+  }
+
+  return { $set, $unset };
+}
+
+/**
+ * Change fields of a single stored node in place (no structural change).
+ * `update` gets the node as stored now and returns the fields to change
+ * (null: change nothing). Only what changed is written, and only if no
+ * other update changed the node since it was read; otherwise the node
+ * is read again and `update` recomputed (MindmapConflictError after
+ * MAX_WRITE_ATTEMPTS tries). A changed question or answer is re-embedded.
+ * Returns the node as updated, or null for an unknown node or a null
+ * update. Throws an InvalidGraphError for a field of the wrong type.
+ */
+export async function updateStoredNode(
+  mindmap: StoredMindmapInfo,
+  nodeId: string,
+  update: (node: StoredNode) => NodeUpdate | null
+): Promise<StoredNode | null> {
+  const nodes = await getNodesCollection();
+  const mindmaps = await getMindmapsCollection();
+
+  for (let attempt = 0; attempt < MAX_WRITE_ATTEMPTS; attempt++) {
+    const doc = await nodes.findOne(
+      { mindmapId: mindmap.id, id: nodeId },
+      { projection: { _id: 0, mindmapId: 0, depth: 0, embedding: 0 } }
+    );
+    if (!doc) return null;
+
+    const node = toCanonicalNode(doc);
+    const updates = update(node);
+    if (!updates) return null;
+
+    const updated: StoredNode = { ...node, ...updates };
+    if (!isGraphNodeShape(updated)) {
+      throw invalidGraph(`Invalid update of node "${nodeId}"`);
+    }
+
+    const { $set, $unset } = toNodeChanges(node, updates);
+    if (Object.keys($set).length === 0 && Object.keys($unset).length === 0) return updated;
+
+    if ($set.content !== undefined || $set.response !== undefined) {
+      const [embedding] = await embedNodes([updated]);
+      if (embedding) $set.embedding = embedding;
+    }
+
+    const result = await nodes.updateOne(
+      {
+        mindmapId: mindmap.id,
+        id: nodeId,
+        revision: doc.revision ?? { $exists: false },
+      },
+      { $set, ...(Object.keys($unset).length > 0 ? { $unset } : {}), $inc: { revision: 1 } }
+    );
+    if (result.matchedCount === 0) continue;
+
+    await mindmaps.updateOne(mindmapFilter(mindmap), {
+      $set: { updatedAt: new Date() },
+      $inc: { version: 1 },
+    });
+    return updated;
+  }
+
+  throw mindmapConflict();
+}
+
+/**
+ * Store embeddings for existing nodes (backfill), one update per node
+ * in a single round trip.
+ */
+export async function setNodeEmbeddings(
+  mindmap: StoredMindmapInfo,
+  embeddings: Map<string, NodeEmbedding>
+): Promise<void> {
+  if (embeddings.size === 0) return;
+
+  const nodes = await getNodesCollection();
+
+  await nodes.bulkWrite(
+    Array.from(embeddings, ([nodeId, embedding]) => ({
+      updateOne: {
+        filter: { mindmapId: mindmap.id, id: nodeId },
+        update: { $set: { embedding } },
+      },
+    }))
+  );
+}
+
+/**
+ * Record the user's decision on a related link (replaces any earlier
+ * decision on the same pair). The replacement happens in the database,
+ * so decisions saved meanwhile from other tabs are kept.
+ */
+export async function saveRelatedLink(
+  mindmap: StoredMindmapInfo,
+  link: StoredRelatedLink
+): Promise<void> {
+  const db = await getDb();
+
+  await db.collection('mindmaps').updateOne(mindmapFilter(mindmap), [
+    {
+      $set: {
+        relatedLinks: {
+          $concatArrays: [
+            {
+              $filter: {
+                input: { $ifNull: ['$relatedLinks', []] },
+                cond: { $ne: ['$$this.id', link.id] },
+              },
+            },
+            { $literal: [link] },
+          ],
+        },
+        updatedAt: new Date(),
+        version: { $add: [{ $ifNull: ['$version', 0] }, 1] },
+      },
+    },
+  ]);
+}
+
+/**
+ * Replace the mindmap's prompt settings.
+ */
+export async function saveMindmapSettings(
+  mindmap: StoredMindmapInfo,
+  settings: PromptSettings
+): Promise<void> {
+  const db = await getDb();
+  mindmap.settings = settings;
+
+  await db
+    .collection('mindmaps')
+    .updateOne(
+      mindmapFilter(mindmap),
+      { $set: { settings, updatedAt: new Date() } }
+    );
+}
+
+/* ============================================================
+   NODE EDITS
+============================================================ */
+
+/**
+ * Delete a node and its whole subtree, along with what points at them:
+ * related-link decisions, map answers' sourceNodeIds and the explore
+ * jobs started from inside the subtree.
+ * Returns the removed node and edge ids, or null for an unknown node.
+ * The subtree is the one at the time of the write: a child added
+ * meanwhile from another tab is deleted with it.
+ */
+export async function deleteSubtree(
+  mindmap: StoredMindmapInfo,
+  nodeId: string
+): Promise<{ nodeIds: string[]; edgeIds: string[] } | null> {
+  const mindmaps = await getMindmapsCollection();
+  const nodes = await getNodesCollection();
+
+  const claimed = await retryOnConflict(mindmap, async (current) => {
+    const subtree = await findSubtree(current, nodeId, { _id: 0, id: 1 });
+    const nodeIds = subtree.map((node) => node.id);
+    if (nodeIds.length === 0) return null;
+
+    const deleted = new Set(nodeIds);
+    const linkIds = current.relatedLinks
+      .filter((link) => deleted.has(link.source) || deleted.has(link.target))
+      .map((link) => link.id);
+
+    const result = await mindmaps.updateOne(versionedFilter(current), {
+      $pull: { relatedLinks: { id: { $in: linkIds } } },
+      $set: { updatedAt: new Date() },
+      $inc: { version: 1 },
+    });
+
+    return result.matchedCount > 0 ? { current, nodeIds } : undefined;
+  });
+  if (!claimed) return null;
+
+  const { current } = claimed;
+  const removed = await deleteNodeTree(current, claimed.nodeIds);
+  const deleted = new Set(removed.map((node) => node.id));
+
+  await mindmaps.updateOne(mindmapFilter(current), {
+    $inc: {
+      nodeCount: -removed.length,
+      rootNodeCount: -removed.filter((node) => node.parentId === null).length,
+    },
+  });
+  await refreshMaxDepth(current);
+
+  // Map answers citing the deleted nodes keep their other sources
+  if (deleted.size > 0) {
+    const deletedIds = Array.from(deleted);
+    await nodes.updateMany(
+      { mindmapId: current.id, 'metadata.sourceNodeIds': { $in: deletedIds } },
+      { $pull: { 'metadata.sourceNodeIds': { $in: deletedIds } } }
+    );
+  }
+
+  await cancelJobsForNodes(current.userId, Array.from(deleted));
+  return {
+    nodeIds: removed.map((node) => node.id),
+    edgeIds: removed
+      .filter((node): node is typeof node & { parentId: string } => node.parentId !== null)
+      .map((node) => treeEdgeId(node.parentId, node.id)),
+  };
+}
+
+/**
+ * Move a node, with its subtree, under another parent (null makes it a
+ * root). Returns the moved node, its new incoming edge and the id of the
+ * edge it replaces; null for an unknown node or parent, or a parent
+ * inside the node's own subtree (the rule of canMoveNode() in
+ * lib/graph.ts, checked up the parent's lineage).
+ */
+export async function moveStoredNode(
+  mindmap: StoredMindmapInfo,
+  nodeId: string,
+  parentId: string | null
+): Promise<{ node: StoredNode; edge: StoredEdge | null; removedEdgeId: string | null } | null> {
+  const mindmaps = await getMindmapsCollection();
+  const nodes = await getNodesCollection();
+
+  // Whether the move makes a cycle depends on the tree, so it is
+  // checked against, and only written to, one version of it
+  return retryOnConflict(mindmap, async (current) => {
+    const doc = await nodes.findOne(
+      { mindmapId: current.id, id: nodeId },
+      { projection: { _id: 0, mindmapId: 0, revision: 0, embedding: 0 } }
+    );
+    if (!doc) return null;
+
+    // The new parent's lineage, root first; the node must not be in it
+    const lineage = parentId ? await getStoredLineage(current, parentId) : [];
+    if (parentId && (lineage.length === 0 || lineage.some((n) => n.id === nodeId))) return null;
+
+    const node = toCanonicalNode(doc);
+
+    const moved: StoredNode = { ...node, parentId };
+    const edge: StoredEdge | null = parentId
+      ? { id: treeEdgeId(parentId, nodeId), source: parentId, target: nodeId }
+      : null;
+    const removedEdgeId =
+      node.parentId && node.parentId !== parentId ? treeEdgeId(node.parentId, nodeId) : null;
+
+    if (node.parentId !== parentId) {
+      const result = await mindmaps.updateOne(versionedFilter(current), {
+        $set: { updatedAt: new Date() },
+        $inc: {
+          version: 1,
+          rootNodeCount: (parentId === null ? 1 : 0) - (node.parentId === null ? 1 : 0),
+        },
+      });
+      if (result.matchedCount === 0) return undefined;
+
+      await nodes.updateOne({ mindmapId: current.id, id: nodeId }, { $set: { parentId } });
+
+      // The whole branch moves up or down by the same number of levels
+      const shift = lineage.length - (doc.depth ?? 0);
+      if (shift !== 0) {
+        const branch = await findSubtree(current, nodeId, { _id: 0, id: 1 });
+        const branchIds = branch.map((n) => n.id);
+        await nodes.updateMany(
+          { mindmapId: current.id, id: { $in: branchIds } },
+          { $inc: { depth: shift } }
+        );
+        await refreshMaxDepth(current);
+      }
+    }
+
+    return { node: moved, edge, removedEdgeId };
+  });
+}
+
+/* ============================================================
+   MAPS
+============================================================ */
+
+/**
+ * A map name from a request: trimmed, non-empty, not too long.
+ */
+export function parseMindmapName(input: unknown): string | null {
+  if (typeof input !== 'string') return null;
+  const name = input.trim();
+  return name && name.length <= MAX_MINDMAP_NAME_LENGTH ? name : null;
+}
+
+/**
+ * Stored nodes and edges for a saved graph (SaveMindmapRequest.graphData).
+ * Returns null unless the nodes form a forest: unique ids, every parent
+ * present, no cycles. Edges are rebuilt from parentId.
+ */
+export function fromGraphNodes(
+  input: unknown
+): { nodes: StoredNode[]; edges: StoredEdge[] } | null {
+  if (!Array.isArray(input) || !input.every(isGraphNodeShape)) return null;
+
+  const byId = new Map<string, GraphNode>();
+  for (const node of input) {
+    if (byId.has(node.id)) return null;
+    byId.set(node.id, node);
+  }
+  if (input.some((node) => node.parentId !== null && !byId.has(node.parentId))) return null;
+
+  const nodes: StoredNode[] = [];
+  const edges: StoredEdge[] = [];
+  const placed = new Set<string>();
+
+  // Parents first, as hydrate() and validateNewNodes() expect
+  let pending = input;
+  while (pending.length > 0) {
+    const ready = pending.filter((node) => node.parentId === null || placed.has(node.parentId));
+    if (ready.length === 0) return null; // Cycle
+
+    for (const graphNode of ready) {
+      const createdAt = new Date(graphNode.createdAt);
+      const { node, edge } = createStoredNode({
+        id: graphNode.id,
+        parentId: graphNode.parentId,
+        content: graphNode.content,
+        response: graphNode.response,
+        createdAt: Number.isNaN(createdAt.getTime()) ? new Date() : createdAt,
+        metadata: graphNode.metadata,
+      });
+
+      nodes.push(node);
+      if (edge) edges.push(edge);
+      placed.add(node.id);
+    }
+    pending = pending.filter((node) => !placed.has(node.id));
+  }
+
+  return { nodes, edges };
+}
+
+/**
+ * Create a mindmap for the user (empty unless a graph is given).
+ */
+export async function createMindmap(
+  userId: string,
+  name: string,
+  graph: { nodes: StoredNode[]; edges: StoredEdge[] } = { nodes: [], edges: [] }
+): Promise<StoredMindmap> {
+  const mindmaps = await getMindmapsCollection();
+  const now = new Date();
+  const doc: MindmapDocument = {
+    userId,
+    name,
+    relatedLinks: [],
+    createdAt: now,
+    updatedAt: now,
+    version: 0,
+    ...statsOf(graph.nodes),
+  };
+
+  const result = await mindmaps.insertOne(doc);
+  const mindmap = toMindmapInfo({ ...doc, _id: result.insertedId });
+
+  if (graph.nodes.length > 0) {
+    const nodes = await getNodesCollection();
+    const depths = nodeDepths(graph.nodes);
+    await nodes.insertMany(
+      graph.nodes.map((node) => toNodeDocument(mindmap.id, node, depths.get(node.id) ?? 0))
+    );
+  }
+
+  return { ...mindmap, nodes: graph.nodes, edges: toTreeEdges(graph.nodes) };
+}
+
+/**
+ * Rename a mindmap and/or replace its whole graph. Related-link
+ * decisions about nodes that no longer exist are dropped; nodes that
+ * keep their id, question and answer keep their embedding (others are
+ * embedded lazily, see lib/search.ts).
+ * A graph replaces the one at mindmap.version only: if any other write
+ * changed it since, nothing is written and a MindmapConflictError is
+ * thrown (callers check the client's version against it first).
+ */
+export async function saveMindmap(
+  mindmap: StoredMindmapInfo,
+  changes: { name?: string; graph?: { nodes: StoredNode[]; edges: StoredEdge[] } }
+): Promise<StoredMindmapInfo> {
+  const mindmaps = await getMindmapsCollection();
+  const saved: StoredMindmapInfo = { ...mindmap, updatedAt: new Date() };
+  const setFields: Partial<MindmapDocument> = { updatedAt: saved.updatedAt };
+
+  if (changes.name !== undefined) {
+    saved.name = changes.name;
+    setFields.name = changes.name;
+  }
+
+  if (!changes.graph) {
+    await mindmaps.updateOne(mindmapFilter(mindmap), { $set: setFields });
+    return saved;
+  }
+
+  const graph = changes.graph;
+  const ids = new Set(graph.nodes.map((node) => node.id));
+  Object.assign(saved, {
+    relatedLinks: mindmap.relatedLinks.filter(
+      (link) => ids.has(link.source) && ids.has(link.target)
+    ),
+    version: mindmap.version + 1,
+    ...statsOf(graph.nodes),
+  });
+  setFields.relatedLinks = saved.relatedLinks;
+
+  const result = await mindmaps.updateOne(versionedFilter(mindmap), {
+    $set: setFields,
+    $inc: { version: 1 },
+  });
+  if (result.matchedCount === 0) throw mindmapConflict();
+
+  // Nodes the graph dropped go (with anything added under them since);
+  // the others are written as given
+  const nodes = await getNodesCollection();
+  const dropped = await nodes
+    .find({ mindmapId: mindmap.id, id: { $nin: Array.from(ids) } }, { projection: { _id: 0, id: 1 } })
+    .toArray();
+  await deleteNodeTree(mindmap, dropped.map((node) => node.id));
+
+  // Each node is replaced in the database, keeping its embedding if its
+  // text is unchanged; legacy fields go
+  const depths = nodeDepths(graph.nodes);
+  if (graph.nodes.length > 0) {
+    await nodes.bulkWrite(
+      graph.nodes.map((node) => ({
+        updateOne: {
+          filter: { mindmapId: mindmap.id, id: node.id },
+          update: [
+            {
+              $set: {
+                parentId: { $literal: node.parentId },
+                content: { $literal: node.content },
+                response: { $literal: node.response },
+                createdAt: { $literal: node.createdAt },
+                metadata: node.metadata ? { $literal: node.metadata } : '$$REMOVE',
+                depth: { $literal: depths.get(node.id) ?? 0 },
+                embedding: {
+                  $cond: [
+                    {
+                      $and: [
+                        { $eq: ['$content', { $literal: node.content }] },
+                        { $eq: ['$response', { $literal: node.response }] },
+                      ],
+                    },
+                    '$embedding',
+                    '$$REMOVE',
+                  ],
+                },
+                revision: { $add: [{ $ifNull: ['$revision', 0] }, 1] },
+              },
+            },
+            { $unset: ['query', 'position', 'chainId'] },
+          ],
+          upsert: true,
+        },
+      }))
+    );
+  }
+
+  // Recounted rather than adjusted: the save replaced the whole graph
+  const [nodeCount, rootNodeCount] = await Promise.all([
+    nodes.countDocuments({ mindmapId: mindmap.id }),
+    nodes.countDocuments({ mindmapId: mindmap.id, parentId: null }),
+  ]);
+  await mindmaps.updateOne(mindmapFilter(mindmap), { $set: { nodeCount, rootNodeCount } });
+  await refreshMaxDepth(saved);
+
+  return saved;
+}
+
+/**
+ * Delete a mindmap, its nodes and the auto-explore jobs that grow it.
+ */
+export async function deleteMindmap(mindmap: StoredMindmapInfo): Promise<void> {
+  const db = await getDb();
+  const nodes = await getNodesCollection();
+
+  await db.collection('mindmaps').deleteOne(mindmapFilter(mindmap));
+  await nodes.deleteMany({ mindmapId: mindmap.id });
+  await db
+    .collection('explore_jobs')
+    .deleteMany({ userId: mindmap.userId, mindmapId: mindmap.id });
+}
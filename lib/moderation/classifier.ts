@@ -0,0 +1,80 @@
+/**
+ * Provider-backed classifier check.
+ *
+ * Asks a model (MODERATION_CLASSIFIER_MODEL, a `provider[:model]` spec;
+ * the default provider when unset) which content categories a text
+ * falls into. Any hit is a finding with the configured action: 'flag'
+ * (default) or 'block'. The classifier can't point at spans, so it
+ * never redacts.
+ *
+ * Best-effort: if the call fails, the check finds nothing (the local
+ * rules still apply) and the failure is logged.
+ */
+
+import { generateResponse, parseJsonItems, ModelChoice } from '../llm';
+import { CheckResult, ModerationCheck, ModerationRule, ModerationStage } from './types';
+
+export const CLASSIFIER_CATEGORIES = [
+  'hate',
+  'harassment',
+  'self-harm',
+  'sexual',
+  'violence',
+  'illegal',
+];
+
+// Long answers are clipped: classification doesn't need all of it
+const MAX_CLASSIFIED_CHARS = 8000;
+
+function buildClassifierPrompt(text: string, stage: ModerationStage): string {
+  return [
+    `Classify the ${stage === 'input' ? 'user message' : 'AI answer'} below for a content policy.`,
+    `List each of these categories it clearly falls into: ${CLASSIFIER_CATEGORIES.join(', ')}.`,
+    'Discussing a topic neutrally or educationally is not a violation.',
+    'Respond with JSON only, in the form {"items": ["category", ...]}; use {"items": []} if none apply.',
+    '',
+    '---',
+    text.slice(0, MAX_CLASSIFIED_CHARS),
+  ].join('\n');
+}
+
+export function createClassifierCheck(
+  choice: ModelChoice,
+  action: Extract<ModerationRule['action'], 'flag' | 'block'>
+): ModerationCheck {
+  return {
+    name: 'classifier',
+
+    async run(text, stage, options): Promise<CheckResult> {
+      try {
+        const result = await generateResponse(choice, buildClassifierPrompt(text, stage), [], {
+          responseFormat: 'json',
+          temperature: 0,
+          signal: options.signal,
+          onUsage: options.onUsage,
+        });
+
+        const categories = new Set(
+          parseJsonItems(result.text)
+            .filter((item): item is string => typeof item === 'string')
+            .map((item) => item.trim().toLowerCase())
+            .filter((item) => CLASSIFIER_CATEGORIES.includes(item))
+        );
+
+        return {
+          text,
+          findings: Array.from(categories, (category) => ({
+            stage,
+            check: 'classifier',
+            category,
+            action,
+          })),
+        };
+      } catch (error) {
+        if (options.signal?.aborted) throw error;
+        console.error('Moderation classifier error:', error);
+        return { text, findings: [] };
+      }
+    },
+  };
+}
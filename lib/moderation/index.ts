@@ -0,0 +1,179 @@
+/**
+ * Moderation — checks on what goes into and comes out of the model
+ *
+ * Routes run the user's question through moderate(text, 'input') before
+ * generating (and the text of attached files, see moderateAttachments()),
+ * and the answer through moderate(text, 'output') before storing it.
+ * Each check can:
+ *   flag    → keep the text; the node is marked (badge on the canvas)
+ *   redact  → replace the offending spans before the text goes further
+ *   block   → refuse: the route answers 422 { error, code: 'moderation' }
+ *             (blocked answers are not stored)
+ *
+ * The verdict is recorded on the node as metadata.moderation (see
+ * ./verdict.ts). A streamed answer is checked once it is complete, so
+ * the client may briefly show text that the stored node then redacts
+ * or that is withdrawn with an error.
+ *
+ * Checks run in order, each on the previous one's redacted text, and
+ * are chosen with MODERATION_CHECKS (comma-separated):
+ *   "rules"       → local keyword/regex rules (default, see ./rules.ts)
+ *   "classifier"  → a model classifies the text (see ./classifier.ts);
+ *                   MODERATION_CLASSIFIER_MODEL picks the model and
+ *                   MODERATION_CLASSIFIER_ACTION what a hit does
+ *                   ("flag", default, or "block")
+ *   "off"         → no moderation
+ */
+
+import { NextResponse } from 'next/server';
+import { resolveModel } from '../llm';
+import { createClassifierCheck } from './classifier';
+import { DEFAULT_RULES, createRuleCheck, parseRules } from './rules';
+import { isBlocked, mergeVerdicts, toVerdict } from './verdict';
+import {
+  CheckOptions,
+  ModerationCheck,
+  ModerationFinding,
+  ModerationRule,
+  ModerationStage,
+  ModerationVerdict,
+} from './types';
+
+export type {
+  ModerationAction,
+  ModerationStage,
+  ModerationFinding,
+  ModerationVerdict,
+  ModerationRule,
+  ModerationCheck,
+} from './types';
+export {
+  isBlocked,
+  mergeVerdicts,
+  getNodeModeration,
+  withQuestionModeration,
+  toModerationMetadata,
+} from './verdict';
+
+export interface ModerationResult {
+  text: string; // Redactions applied
+  verdict: ModerationVerdict;
+}
+
+/* ============================================================
+   CONFIG
+============================================================ */
+
+function getRules(): ModerationRule[] {
+  if (!process.env.MODERATION_RULES) return DEFAULT_RULES;
+
+  try {
+    return parseRules(JSON.parse(process.env.MODERATION_RULES));
+  } catch (error) {
+    console.error('Invalid MODERATION_RULES, using default rules:', error);
+    return DEFAULT_RULES;
+  }
+}
+
+function createClassifier(): ModerationCheck {
+  const spec = process.env.MODERATION_CLASSIFIER_MODEL;
+  const choice = resolveModel(spec);
+  if (!choice) throw new Error(`Unknown moderation classifier model "${spec}"`);
+
+  const action = process.env.MODERATION_CLASSIFIER_ACTION === 'block' ? 'block' : 'flag';
+  return createClassifierCheck(choice, action);
+}
+
+const CHECK_FACTORIES: Record<string, () => ModerationCheck> = {
+  rules: () => createRuleCheck(getRules()),
+  classifier: createClassifier,
+};
+
+let checks: ModerationCheck[] | null = null;
+
+function getChecks(): ModerationCheck[] {
+  if (checks) return checks;
+
+  const names = (process.env.MODERATION_CHECKS || 'rules')
+    .split(',')
+    .map((name) => name.trim())
+    .filter((name) => name && name !== 'off');
+
+  checks = names.map((name) => {
+    const factory = CHECK_FACTORIES[name];
+    if (!factory) throw new Error(`Unknown moderation check "${name}"`);
+    return factory();
+  });
+  return checks;
+}
+
+/* ============================================================
+   PIPELINE
+============================================================ */
+
+/**
+ * Run every check on `text`. Stops at the first check that blocks.
+ */
+export async function moderate(
+  text: string,
+  stage: ModerationStage,
+  options: CheckOptions = {}
+): Promise<ModerationResult> {
+  const findings: ModerationFinding[] = [];
+  let current = text;
+
+  for (const check of getChecks()) {
+    const result = await check.run(current, stage, options);
+    current = result.text;
+    findings.push(...result.findings);
+    if (isBlocked(toVerdict(findings))) break;
+  }
+
+  return { text: current, verdict: toVerdict(findings) };
+}
+
+/**
+ * Run the input checks on the text of each attached file, which reaches
+ * the model along with the question. Returns the files with redactions
+ * applied and one verdict for all of them; stops at the first file
+ * that is blocked.
+ */
+export async function moderateAttachments<T extends { text: string }>(
+  attachments: T[],
+  options: CheckOptions = {}
+): Promise<{ attachments: T[]; verdict: ModerationVerdict }> {
+  const moderated: T[] = [];
+  const verdicts: ModerationVerdict[] = [];
+
+  for (const attachment of attachments) {
+    const result = await moderate(attachment.text, 'input', options);
+    moderated.push({ ...attachment, text: result.text });
+    verdicts.push(result.verdict);
+    if (isBlocked(result.verdict)) break;
+  }
+
+  return { attachments: moderated, verdict: mergeVerdicts(...verdicts) };
+}
+
+/* ============================================================
+   HTTP
+============================================================ */
+
+const BLOCKED_MESSAGES: Record<ModerationStage, string> = {
+  input: "This question can't be answered: it goes against the content policy.",
+  output: 'The answer was withheld because it goes against the content policy.',
+};
+
+/**
+ * The JSON error body for blocked content.
+ */
+export function toBlockedBody(stage: ModerationStage): { error: string; code: 'moderation' } {
+  return { error: BLOCKED_MESSAGES[stage], code: 'moderation' };
+}
+
+/**
+ * Error response for a route whose question or answer was blocked.
+ */
+export function moderationBlocked(stage: ModerationStage): NextResponse {
+  return NextResponse.json(toBlockedBody(stage), { status: 422 });
+}
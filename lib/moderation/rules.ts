@@ -0,0 +1,113 @@
+/**
+ * Local rule check — keyword / regex rules, no network.
+ *
+ * The default rules redact payment card numbers, US social security
+ * numbers and API keys, flag self-harm language and block requests for
+ * weapon-making instructions. MODERATION_RULES replaces them with a JSON
+ * array of ModerationRule:
+ *
+ *   MODERATION_RULES=[{"category":"profanity","pattern":"\\bdarn\\b","action":"redact"}]
+ *
+ * Rules are matched case-insensitively; redacted spans become
+ * "[redacted]".
+ */
+
+import {
+  CheckResult,
+  ModerationCheck,
+  ModerationFinding,
+  ModerationRule,
+  ModerationStage,
+} from './types';
+
+export const REDACTED = '[redacted]';
+
+const ACTIONS: ModerationRule['action'][] = ['flag', 'redact', 'block'];
+
+export const DEFAULT_RULES: ModerationRule[] = [
+  { category: 'pii', pattern: '\\b(?:\\d{4}[ -]?){3}\\d{1,4}\\b', action: 'redact' },
+  { category: 'pii', pattern: '\\b\\d{3}-\\d{2}-\\d{4}\\b', action: 'redact' },
+  {
+    category: 'secret',
+    pattern: '\\b(?:sk-[A-Za-z0-9_-]{20,}|AKIA[0-9A-Z]{16}|AIza[0-9A-Za-z_-]{35})\\b',
+    action: 'redact',
+  },
+  {
+    category: 'secret',
+    pattern: '-----BEGIN [A-Z ]*PRIVATE KEY-----[\\s\\S]*?-----END [A-Z ]*PRIVATE KEY-----',
+    action: 'redact',
+  },
+  {
+    category: 'self-harm',
+    pattern: '\\b(?:suicid(?:e|al)|(?:kill|hurt|harm)(?:ing)? (?:myself|yourself))\\b',
+    action: 'flag',
+  },
+  {
+    category: 'weapons',
+    pattern: '\\b(?:build|make|assemble)(?:ing)? (?:a |an )?(?:pipe bomb|bomb|explosive device)s?\\b',
+    action: 'block',
+    stages: ['input'],
+  },
+];
+
+interface CompiledRule extends ModerationRule {
+  regex: RegExp;
+}
+
+/**
+ * Validate rules from configuration; malformed entries are dropped
+ * with a warning.
+ */
+export function parseRules(input: unknown): ModerationRule[] {
+  if (!Array.isArray(input)) return [];
+
+  return input.filter((raw): raw is ModerationRule => {
+    const rule = raw as Partial<ModerationRule> | null;
+    const valid =
+      !!rule &&
+      typeof rule.category === 'string' &&
+      typeof rule.pattern === 'string' &&
+      ACTIONS.includes(rule.action as ModerationRule['action']) &&
+      (rule.stages === undefined ||
+        (Array.isArray(rule.stages) &&
+          rule.stages.every((stage) => stage === 'input' || stage === 'output')));
+    if (!valid) console.warn('Ignoring invalid moderation rule:', raw);
+    return valid;
+  });
+}
+
+function compile(rules: ModerationRule[]): CompiledRule[] {
+  return rules.flatMap((rule) => {
+    try {
+      return [{ ...rule, regex: new RegExp(rule.pattern, 'gi') }];
+    } catch (error) {
+      console.warn(`Ignoring moderation rule with invalid pattern "${rule.pattern}":`, error);
+      return [];
+    }
+  });
+}
+
+export function createRuleCheck(rules: ModerationRule[] = DEFAULT_RULES): ModerationCheck {
+  const compiled = compile(rules);
+
+  return {
+    name: 'rules',
+
+    async run(text: string, stage: ModerationStage): Promise<CheckResult> {
+      const findings: ModerationFinding[] = [];
+      let result = text;
+
+      for (const rule of compiled) {
+        if (rule.stages && !rule.stages.includes(stage)) continue;
+
+        rule.regex.lastIndex = 0;
+        if (!rule.regex.test(result)) continue;
+
+        findings.push({ stage, check: 'rules', category: rule.category, action: rule.action });
+        if (rule.action === 'redact') result = result.replace(rule.regex, REDACTED);
+      }
+
+      return { text: result, findings };
+    },
+  };
+}
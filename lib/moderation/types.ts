@@ -0,0 +1,66 @@
+/**
+ * Moderation Types
+ *
+ * Client-safe: nodes carry a ModerationVerdict (metadata.moderation)
+ * that the canvas renders as a badge.
+ */
+
+import type { CallOptions } from '../llm';
+
+/* ============================================================
+   VERDICTS
+============================================================ */
+
+// Least to most severe (see ACTION_SEVERITY in ./verdict.ts)
+export type ModerationAction =
+  | 'allow'
+  | 'flag' // Keep the text, mark the node
+  | 'redact' // Replace the offending spans, mark the node
+  | 'block'; // Refuse: nothing is generated or stored
+
+// 'input' = the user's question before generation; 'output' = the answer
+export type ModerationStage = 'input' | 'output';
+
+export interface ModerationFinding {
+  stage: ModerationStage;
+  check: string; // Which check raised it, e.g. 'rules'
+  category: string; // e.g. 'pii', 'self-harm'
+  action: Exclude<ModerationAction, 'allow'>;
+}
+
+/**
+ * Everything the checks found, and the resulting action (the most
+ * severe finding's). The matched text itself is never recorded.
+ */
+export interface ModerationVerdict {
+  action: ModerationAction;
+  findings: ModerationFinding[];
+}
+
+/* ============================================================
+   CHECKS
+============================================================ */
+
+// Checks that call a model account for it like any other call
+export type CheckOptions = Pick<CallOptions, 'onUsage' | 'signal'>;
+
+export interface CheckResult {
+  text: string; // With this check's redactions applied
+  findings: ModerationFinding[];
+}
+
+export interface ModerationCheck {
+  name: string;
+  run(text: string, stage: ModerationStage, options: CheckOptions): Promise<CheckResult>;
+}
+
+/**
+ * A local rule: a regular expression (matched case-insensitively) and
+ * what to do when it matches.
+ */
+export interface ModerationRule {
+  category: string;
+  pattern: string;
+  action: Exclude<ModerationAction, 'allow'>;
+  stages?: ModerationStage[]; // Default: both
+}
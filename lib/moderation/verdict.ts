@@ -0,0 +1,109 @@
+/**
+ * Moderation Verdicts — combining and storing them
+ *
+ * A node's metadata.moderation holds the findings for its question
+ * (stage 'input') and for its current answer (stage 'output'). Answer
+ * versions (lib/versions.ts) keep their own output verdict, and
+ * switching versions swaps the output findings via
+ * withAnswerModeration(); editing the question swaps the input findings
+ * via withQuestionModeration(). Verdicts with no findings are not stored.
+ *
+ * Pure functions only; client-safe.
+ */
+
+import {
+  ModerationAction,
+  ModerationFinding,
+  ModerationStage,
+  ModerationVerdict,
+} from './types';
+
+export const ACTION_SEVERITY: Record<ModerationAction, number> = {
+  allow: 0,
+  flag: 1,
+  redact: 2,
+  block: 3,
+};
+
+export function toVerdict(findings: ModerationFinding[]): ModerationVerdict {
+  const action = findings.reduce<ModerationAction>(
+    (worst, finding) =>
+      ACTION_SEVERITY[finding.action] > ACTION_SEVERITY[worst] ? finding.action : worst,
+    'allow'
+  );
+  return { action, findings };
+}
+
+export function isBlocked(verdict: ModerationVerdict): boolean {
+  return verdict.action === 'block';
+}
+
+export function mergeVerdicts(...verdicts: Array<ModerationVerdict | undefined>): ModerationVerdict {
+  return toVerdict(verdicts.flatMap((verdict) => verdict?.findings || []));
+}
+
+/**
+ * The distinct categories found, for display.
+ */
+export function getModerationCategories(verdict: ModerationVerdict): string[] {
+  return Array.from(new Set(verdict.findings.map((finding) => finding.category)));
+}
+
+/* ============================================================
+   NODES
+============================================================ */
+
+/**
+ * The stored verdict of a node, if anything was found.
+ */
+export function getNodeModeration(
+  metadata?: Record<string, unknown>
+): ModerationVerdict | undefined {
+  const stored = metadata?.moderation as ModerationVerdict | undefined;
+  return stored && Array.isArray(stored.findings) ? stored : undefined;
+}
+
+/**
+ * The findings of one stage, or undefined if there are none.
+ */
+export function stageVerdict(
+  verdict: ModerationVerdict | undefined,
+  stage: ModerationStage
+): ModerationVerdict | undefined {
+  const findings = (verdict?.findings || []).filter((finding) => finding.stage === stage);
+  return findings.length > 0 ? toVerdict(findings) : undefined;
+}
+
+/**
+ * A node's verdict once `answer` (an answer's output verdict) is current:
+ * its question's findings are kept, the previous answer's replaced.
+ */
+export function withAnswerModeration(
+  current: ModerationVerdict | undefined,
+  answer: ModerationVerdict | undefined
+): ModerationVerdict | undefined {
+  const merged = mergeVerdicts(stageVerdict(current, 'input'), answer);
+  return merged.findings.length > 0 ? merged : undefined;
+}
+
+/**
+ * A node's verdict once its question is replaced (edited): the new
+ * question's findings replace the old ones, the answer's are kept.
+ */
+export function withQuestionModeration(
+  current: ModerationVerdict | undefined,
+  question: ModerationVerdict | undefined
+): ModerationVerdict | undefined {
+  const merged = mergeVerdicts(question, stageVerdict(current, 'output'));
+  return merged.findings.length > 0 ? merged : undefined;
+}
+
+/**
+ * metadata fields recording the verdicts ({} when nothing was found).
+ */
+export function toModerationMetadata(
+  ...verdicts: Array<ModerationVerdict | undefined>
+): Record<string, unknown> {
+  const merged = mergeVerdicts(...verdicts);
+  return merged.findings.length > 0 ? { moderation: merged } : {};
+}
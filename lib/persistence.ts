@@ -35,6 +35,19 @@ import {
    TYPES
 ============================================================ */
 
+export const DEFAULT_MINDMAP_NAME = 'Untitled map';
+export const MAX_MINDMAP_NAME_LENGTH = 100;
+
+/**
+ * Counts kept with every stored map, updated as nodes are written
+ * (see lib/mindmapRepository.ts) so listing maps doesn't read nodes.
+ */
+export interface MindmapStats {
+  nodeCount: number;
+  rootNodeCount: number;
+  maxDepth: number; // Roots are at depth 0
+}
+
 /**
  * The full persistence model — what gets sent to / from the backend.
  */
@@ -43,6 +56,7 @@ export interface MindmapPersistence {
   name: string;
   createdAt: string;
   updatedAt: string;
+  version: number; // The server version the graph is based on (0 for a new map)
 
   // Source of truth
   graph: {
@@ -62,15 +76,12 @@ export interface MindmapPersistence {
 export interface SaveMindmapRequest {
   id: string;
   name: string;
+  version: number; // Required with graphData on PATCH; a stale one gets a 409
   graphData: {
     nodes: GraphNode[];
     edges: GraphEdge[];
   };
-  metadata: {
-    nodeCount: number;
-    rootNodeCount: number;
-    maxDepth: number;
-  };
+  metadata: MindmapStats;
 }
 
 /**
@@ -85,6 +96,50 @@ export interface LoadMindmapResponse {
   };
   createdAt: string;
   updatedAt: string;
+  version: number; // Bumped by every change to the graph
+}
+
+/**
+ * The 409 body of a whole-map save based on an old version: the map as
+ * stored now, for the client to reapply its changes to and save again
+ * with the new version.
+ */
+export interface MindmapConflictResponse {
+  error: string;
+  code: 'conflict';
+  version: number;
+  mindmap: OpenMindmapResponse;
+}
+
+/**
+ * One entry of the map picker (GET /api/mindmaps).
+ */
+export interface MindmapSummary extends MindmapStats {
+  id: string;
+  name: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * A page of a map's nodes, oldest first (GET /api/mindmap/nodes).
+ * Pass nextCursor back for the next page; it is null on the last one.
+ * A node can arrive before its parent (after a move), so hold it back
+ * until the parent is there.
+ */
+export interface NodePage {
+  nodes: GraphNode[];
+  nextCursor: string | null;
+}
+
+/**
+ * The map the canvas opens, with its first page of nodes
+ * (GET /api/mindmap/load, GET/PATCH /api/mindmaps/:id).
+ */
+export interface OpenMindmapResponse extends NodePage, MindmapStats {
+  id: string;
+  name: string;
+  version: number;
 }
 
 /* ============================================================
@@ -127,7 +182,8 @@ function computeMaxDepth(nodes: GraphNode[]): number {
 export function serializeMindmap(
   id: string,
   name: string,
-  graph: Graph
+  graph: Graph,
+  version = 0
 ): MindmapPersistence {
   const serialized = serializeGraph(graph);
   const rootCount = serialized.nodes.filter((n) => n.parentId === null).length;
@@ -138,6 +194,7 @@ export function serializeMindmap(
     name,
     createdAt: new Date().toISOString(),
     updatedAt: new Date().toISOString(),
+    version,
     graph: serialized,
     nodeCount: serialized.nodes.length,
     rootNodeCount: rootCount,
@@ -177,6 +234,7 @@ export function prepareSaveRequest(
   return {
     id: persistence.id,
     name: persistence.name,
+    version: persistence.version,
     graphData: persistence.graph,
     metadata: {
       nodeCount: persistence.nodeCount,
@@ -197,11 +255,49 @@ export function processLoadResponse(response: LoadMindmapResponse): Graph {
 /**
  * Backend API contract (for documentation):
  *
+ * GET    /api/mindmaps          → { mindmaps: MindmapSummary[] }   (most recently updated first)
  * POST   /api/mindmaps          → SaveMindmapRequest  → { id, createdAt }
- * GET    /api/mindmaps/:id      → LoadMindmapResponse
- * PATCH  /api/mindmaps/:id      → SaveMindmapRequest  → LoadMindmapResponse
+ *                                  (id is assigned by the server; graphData may be omitted)
+ * GET    /api/mindmaps/:id      → OpenMindmapResponse   (first page of nodes, see /api/mindmap/nodes)
+ * PATCH  /api/mindmaps/:id      → SaveMindmapRequest  → OpenMindmapResponse
+ *                                  (name and graphData are each optional: omit graphData to rename;
+ *                                   graphData needs the version it was loaded at, else
+ *                                   409 MindmapConflictResponse)
  * DELETE /api/mindmaps/:id      → { success: true }
  *
- * GET    /api/mindmap/load      → LoadMindmapResponse   (legacy endpoint)
- * POST   /api/mindmap/update    → { query, parentId, model } → { node, edge }
+ * Every /api/mindmap/* endpoint below works on one map: `mindmapId` in
+ * the body (query string for GET). Without it, the user's most recently
+ * updated map is used.
+ *
+ * GET    /api/mindmap/load?id=  → OpenMindmapResponse   (first page of nodes; creates a first map)
+ * GET    /api/mindmap/nodes?cursor=&limit= → NodePage   (the following pages)
+ * POST   /api/mindmap/update    → { query, parentId, model, attachmentIds? } → { node, edge }
+ *                                  (model = "provider[:model]", see lib/llm)
+ * POST   /api/mindmap/stream    → { query, parentId, model, attachmentIds? } → SSE: node, token*, done | error
+ * POST   /api/mindmap/attachments        → multipart { file }      → { attachment }
+ * GET    /api/mindmap/settings           → { settings }            (prompt settings, see lib/promptSettings)
+ * PUT    /api/mindmap/settings           → { settings }            → { settings }
+ * GET    /api/usage?days=&mindmapId= → UsageReport            (see lib/usage)
+ * GET    /api/templates                  → { templates }
+ * POST   /api/templates                  → { name, body }          → { template }
+ * PATCH  /api/templates/:id              → { name, body }          → { template }
+ * DELETE /api/templates/:id              → { success: true }
+ * GET    /api/mindmap/attachments/:id    → the original file
+ * POST   /api/mindmap/regenerate         → { nodeId, model? }      → { node }
+ * POST   /api/mindmap/activate-version   → { nodeId, versionId }   → { node }
+ * POST   /api/mindmap/edit               → { nodeId, content }     → { node }
+ * POST   /api/mindmap/move               → { nodeId, parentId }    → { node, edge, removedEdgeId }
+ *                                          (parentId null = root; 400 if it would create a cycle)
+ * POST   /api/mindmap/delete             → { nodeId }              → { nodeIds, edgeIds }   (whole subtree)
+ * POST   /api/mindmap/summarize          → { nodeId, model? }      → { node, edge }
+ * POST   /api/mindmap/explode            → { nodeId, model? }      → { nodes, edges }
+ * POST   /api/mindmap/ask                → { query, model? }       → { node, edge: null }
+ *                                          (new root; metadata.sourceNodeIds)
+ * GET    /api/mindmap/search?q=&limit=  → { results: [{ id, content, snippet, score }] }
+ * GET    /api/mindmap/related            → { links: [{ id, source, target, status, score? }] }
+ * POST   /api/mindmap/related            → { source, target, action: 'accept' | 'dismiss' } → { link }
+ * GET    /api/mindmap/explore            → { jobs }                (unfinished auto-explore jobs)
+ * POST   /api/mindmap/explore            → { nodeId, maxDepth?, maxNodes?, model? } | { jobId }
+ *                                          → SSE: job, node*, done | error
+ * POST   /api/mindmap/explore/cancel     → { jobId }               → { job }
  */
\ No newline at end of file
@@ -0,0 +1,88 @@
+/**
+ * Model Pricing (server-side)
+ *
+ * USD per million tokens, matched on the model name by longest prefix
+ * ("gpt-4o-mini-2024-07-18" → "gpt-4o-mini"). Prices change; override
+ * or extend the table with LLM_PRICING, a JSON object keyed by
+ * "provider:model" or model prefix:
+ *
+ *   LLM_PRICING={"openai:llama3":{"input":0,"output":0}}
+ *
+ * Models without a price get costUsd = null (shown as "—"), not 0.
+ */
+
+import type { LLMUsage } from './llm';
+import type { NodeUsage } from './usage';
+
+interface ModelPrice {
+  input: number; // USD per 1M prompt tokens
+  output: number; // USD per 1M completion tokens
+}
+
+const DEFAULT_PRICES: Record<string, ModelPrice> = {
+  'gemini-3-flash': { input: 0.5, output: 3 },
+  'gemini-2.5-pro': { input: 1.25, output: 10 },
+  'gemini-2.5-flash-lite': { input: 0.1, output: 0.4 },
+  'gemini-2.5-flash': { input: 0.3, output: 2.5 },
+  'gemini-2.0-flash': { input: 0.1, output: 0.4 },
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'gpt-4o': { input: 2.5, output: 10 },
+  'gpt-4.1-nano': { input: 0.1, output: 0.4 },
+  'gpt-4.1-mini': { input: 0.4, output: 1.6 },
+  'gpt-4.1': { input: 2, output: 8 },
+  'mock:': { input: 0, output: 0 },
+};
+
+let prices: Record<string, ModelPrice> | null = null;
+
+function getPrices(): Record<string, ModelPrice> {
+  if (prices) return prices;
+
+  prices = { ...DEFAULT_PRICES };
+  if (process.env.LLM_PRICING) {
+    try {
+      Object.assign(prices, JSON.parse(process.env.LLM_PRICING));
+    } catch (error) {
+      console.error('Invalid LLM_PRICING, using default prices:', error);
+    }
+  }
+  return prices;
+}
+
+/**
+ * Price of a provider's model, or null if unknown.
+ * "provider:model" keys win over bare model prefixes.
+ */
+function getModelPrice(provider: string, model: string): ModelPrice | null {
+  const table = getPrices();
+  const candidates = [`${provider}:${model}`, model];
+
+  for (const name of candidates) {
+    let best: string | null = null;
+    for (const key of Object.keys(table)) {
+      if (name.startsWith(key) && (!best || key.length > best.length)) best = key;
+    }
+    if (best) return table[best];
+  }
+  return null;
+}
+
+export function getCostUsd(usage: LLMUsage): number | null {
+  const price = getModelPrice(usage.provider, usage.model);
+  if (!price) return null;
+  return (usage.promptTokens * price.input + usage.completionTokens * price.output) / 1_000_000;
+}
+
+/**
+ * What a node stores about the call that produced its answer.
+ */
+export function toNodeUsage(usage: LLMUsage): NodeUsage {
+  return {
+    promptTokens: usage.promptTokens,
+    completionTokens: usage.completionTokens,
+    latencyMs: usage.latencyMs,
+    estimated: usage.estimated,
+    costUsd: getCostUsd(usage),
+    ...(usage.cached ? { cached: true } : {}),
+  };
+}
@@ -0,0 +1,122 @@
+/**
+ * Prompt Settings — the mindmap's standing instructions to the model
+ *
+ * Each mindmap stores a PromptSettings object (persona, tone, answer
+ * length, output language, free-form instructions). buildSystemPrompt()
+ * turns it into the system prompt that generation routes send with
+ * every answer (GenerateOptions.systemPrompt), so a map answers in one
+ * consistent voice.
+ *
+ * Client-safe: the settings panel uses the same option lists and shows
+ * a preview of the built prompt.
+ */
+
+/* ============================================================
+   TYPES
+============================================================ */
+
+export type PromptTone = 'default' | 'friendly' | 'formal' | 'academic' | 'playful';
+export type AnswerLength = 'default' | 'brief' | 'moderate' | 'detailed';
+
+export interface PromptSettings {
+  persona: string; // e.g. "a patient physics tutor"; '' = none
+  tone: PromptTone;
+  length: AnswerLength;
+  language: string; // e.g. "French"; '' = the language of the question
+  instructions: string; // Anything else, verbatim
+}
+
+export const DEFAULT_PROMPT_SETTINGS: PromptSettings = {
+  persona: '',
+  tone: 'default',
+  length: 'default',
+  language: '',
+  instructions: '',
+};
+
+export const TONE_OPTIONS: Array<{ value: PromptTone; label: string }> = [
+  { value: 'default', label: 'Default' },
+  { value: 'friendly', label: 'Friendly' },
+  { value: 'formal', label: 'Formal' },
+  { value: 'academic', label: 'Academic' },
+  { value: 'playful', label: 'Playful' },
+];
+
+export const LENGTH_OPTIONS: Array<{ value: AnswerLength; label: string }> = [
+  { value: 'default', label: 'Default' },
+  { value: 'brief', label: 'Brief' },
+  { value: 'moderate', label: 'Moderate' },
+  { value: 'detailed', label: 'Detailed' },
+];
+
+const MAX_SHORT_FIELD_CHARS = 200;
+export const MAX_INSTRUCTIONS_CHARS = 4000;
+
+/* ============================================================
+   VALIDATION
+============================================================ */
+
+function isOption<T extends string>(options: Array<{ value: T }>, value: unknown): value is T {
+  return options.some((option) => option.value === value);
+}
+
+function readString(value: unknown, max: number): string | null {
+  if (value === undefined) return '';
+  if (typeof value !== 'string' || value.length > max) return null;
+  return value.trim();
+}
+
+/**
+ * Validate settings from a request body. Missing fields take their
+ * defaults; returns null if any field is malformed or too long.
+ */
+export function parsePromptSettings(input: unknown): PromptSettings | null {
+  if (!input || typeof input !== 'object') return null;
+  const raw = input as Record<string, unknown>;
+
+  const persona = readString(raw.persona, MAX_SHORT_FIELD_CHARS);
+  const language = readString(raw.language, MAX_SHORT_FIELD_CHARS);
+  const instructions = readString(raw.instructions, MAX_INSTRUCTIONS_CHARS);
+  const tone = raw.tone ?? DEFAULT_PROMPT_SETTINGS.tone;
+  const length = raw.length ?? DEFAULT_PROMPT_SETTINGS.length;
+
+  if (persona === null || language === null || instructions === null) return null;
+  if (!isOption(TONE_OPTIONS, tone) || !isOption(LENGTH_OPTIONS, length)) return null;
+
+  return { persona, tone, length, language, instructions };
+}
+
+/* ============================================================
+   SYSTEM PROMPT
+============================================================ */
+
+const TONE_INSTRUCTIONS: Record<Exclude<PromptTone, 'default'>, string> = {
+  friendly: 'Use a warm, conversational tone.',
+  formal: 'Use a formal, professional tone.',
+  academic: 'Use a precise, academic tone and name the key concepts explicitly.',
+  playful: 'Use a light, playful tone, without sacrificing accuracy.',
+};
+
+const LENGTH_INSTRUCTIONS: Record<Exclude<AnswerLength, 'default'>, string> = {
+  brief: 'Keep answers brief: a few sentences or a short list.',
+  moderate: 'Keep answers to a few short paragraphs.',
+  detailed: 'Give thorough, detailed answers with examples where they help.',
+};
+
+/**
+ * The system prompt for a mindmap. The base line is always present;
+ * each setting that differs from its default adds one instruction.
+ */
+export function buildSystemPrompt(settings: PromptSettings = DEFAULT_PROMPT_SETTINGS): string {
+  const lines = [
+    'You are answering questions in a mind map. Each answer is shown on its own card, so it must make sense on its own. Format answers in markdown.',
+  ];
+
+  if (settings.persona) lines.push(`Answer as ${settings.persona}.`);
+  if (settings.tone !== 'default') lines.push(TONE_INSTRUCTIONS[settings.tone]);
+  if (settings.length !== 'default') lines.push(LENGTH_INSTRUCTIONS[settings.length]);
+  if (settings.language) lines.push(`Always answer in ${settings.language}, whatever language the question is in.`);
+  if (settings.instructions) lines.push('', settings.instructions);
+
+  return lines.join('\n');
+}
@@ -0,0 +1,69 @@
+/**
+ * Prompt Templates — reusable questions with {{variables}}
+ *
+ * A template body like "Explain {{topic}} to a {{audience}}" is stored
+ * per user (templateRepository.ts) and inserted from the QueryBar,
+ * which asks for a value for each variable before filling it in.
+ *
+ * Client-safe: pure string handling, no I/O.
+ */
+
+/* ============================================================
+   TYPES
+============================================================ */
+
+export interface PromptTemplate {
+  id: string;
+  name: string;
+  body: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export const MAX_TEMPLATE_NAME_CHARS = 80;
+export const MAX_TEMPLATE_BODY_CHARS = 4000;
+export const MAX_TEMPLATES_PER_USER = 100;
+
+// {{ name }} — letters, digits, spaces, '_' and '-'; surrounding spaces ignored
+const VARIABLE_PATTERN = /\{\{\s*([A-Za-z0-9_][A-Za-z0-9_ -]*?)\s*\}\}/g;
+
+/* ============================================================
+   VARIABLES
+============================================================ */
+
+/**
+ * Variable names in a template body, unique, in order of first use.
+ */
+export function getTemplateVariables(body: string): string[] {
+  const names: string[] = [];
+  for (const match of body.matchAll(VARIABLE_PATTERN)) {
+    if (!names.includes(match[1])) names.push(match[1]);
+  }
+  return names;
+}
+
+/**
+ * Replace each {{variable}} with its value. Variables without a value
+ * are left in place, so they stay visible in the query.
+ */
+export function fillTemplate(body: string, values: Record<string, string>): string {
+  return body.replace(VARIABLE_PATTERN, (placeholder, name: string) =>
+    values[name] ? values[name] : placeholder
+  );
+}
+
+/**
+ * Why a template can't be saved, or null if it can.
+ */
+export function validateTemplate(template: { name: unknown; body: unknown }): string | null {
+  const { name, body } = template;
+  if (typeof name !== 'string' || !name.trim()) return 'name is required';
+  if (typeof body !== 'string' || !body.trim()) return 'body is required';
+  if (name.length > MAX_TEMPLATE_NAME_CHARS) {
+    return `name must be at most ${MAX_TEMPLATE_NAME_CHARS} characters`;
+  }
+  if (body.length > MAX_TEMPLATE_BODY_CHARS) {
+    return `body must be at most ${MAX_TEMPLATE_BODY_CHARS} characters`;
+  }
+  return null;
+}
@@ -0,0 +1,203 @@
+/**
+ * Rate Limiting — per-user limits on AI generation
+ *
+ * Two limits, both per user:
+ *   - request rate: a token bucket of RATE_LIMIT_BURST requests
+ *     (default = the per-minute rate) refilled at
+ *     RATE_LIMIT_REQUESTS_PER_MINUTE (default 20)
+ *   - daily tokens: at most DAILY_TOKEN_QUOTA model tokens (prompt +
+ *     completion) per UTC day (default 1,000,000; 0 = unlimited).
+ *     Tokens are counted as calls complete (see usageRepository.ts), so
+ *     the call that crosses the quota finishes; the next one is refused.
+ *
+ * Generation routes call checkGenerationLimit() first — with the number
+ * of model calls they make, if more than one — and answer a refusal
+ * with tooManyRequests(), a 429 with Retry-After.
+ *
+ * The state lives in a store chosen by RATE_LIMIT_STORE:
+ *   "memory" → per process (default, see ./memory.ts)
+ *   "mongo"  → shared by all instances (see ./mongo.ts)
+ */
+
+import { NextResponse } from 'next/server';
+import { createMemoryStore } from './memory';
+import { createMongoStore } from './mongo';
+import { RateLimitStore } from './types';
+
+export type { RateLimitStore, BucketResult } from './types';
+
+/* ============================================================
+   CONFIG
+============================================================ */
+
+const DEFAULT_REQUESTS_PER_MINUTE = 20;
+const DEFAULT_DAILY_TOKEN_QUOTA = 1_000_000;
+
+function readNumber(name: string, fallback: number): number {
+  const raw = process.env[name];
+  if (raw === undefined || raw.trim() === '') return fallback;
+  const value = Number(raw);
+  return Number.isFinite(value) && value >= 0 ? value : fallback;
+}
+
+function getRequestsPerMinute(): number {
+  return readNumber('RATE_LIMIT_REQUESTS_PER_MINUTE', DEFAULT_REQUESTS_PER_MINUTE);
+}
+
+function getBurst(): number {
+  return Math.max(1, readNumber('RATE_LIMIT_BURST', getRequestsPerMinute()));
+}
+
+function getDailyTokenQuota(): number {
+  return readNumber('DAILY_TOKEN_QUOTA', DEFAULT_DAILY_TOKEN_QUOTA);
+}
+
+/* ============================================================
+   STORE
+============================================================ */
+
+const STORE_FACTORIES: Record<string, () => RateLimitStore> = {
+  memory: createMemoryStore,
+  mongo: createMongoStore,
+};
+
+let store: RateLimitStore | null = null;
+
+function getStore(): RateLimitStore {
+  if (store) return store;
+
+  const name = process.env.RATE_LIMIT_STORE || 'memory';
+  const factory = STORE_FACTORIES[name];
+  if (!factory) throw new Error(`Unknown rate limit store "${name}"`);
+
+  store = factory();
+  return store;
+}
+
+/* ============================================================
+   LIMITS
+============================================================ */
+
+export type LimitVerdict =
+  | { allowed: true }
+  | {
+      allowed: false;
+      code: 'rate_limited' | 'quota_exceeded';
+      retryAfterSeconds: number;
+      message: string;
+    };
+
+function utcDay(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+function nextUtcMidnight(date: Date): Date {
+  const midnight = new Date(date);
+  midnight.setUTCHours(24, 0, 0, 0);
+  return midnight;
+}
+
+function quotaKey(userId: string, date: Date): string {
+  return `quota:${userId}:${utcDay(date)}`;
+}
+
+function describeWait(seconds: number): string {
+  if (seconds < 90) return `${seconds} second${seconds === 1 ? '' : 's'}`;
+  const minutes = Math.round(seconds / 60);
+  if (minutes < 90) return `${minutes} minutes`;
+  return `${Math.round(minutes / 60)} hours`;
+}
+
+/**
+ * Tokens the user has used today against their quota.
+ */
+export async function getDailyTokensUsed(userId: string): Promise<number> {
+  return getStore().getCounter(quotaKey(userId, new Date()));
+}
+
+/**
+ * Whether the user's daily token quota still has room (no bucket token
+ * is spent). For long-running work that checks before each model call.
+ */
+export async function checkDailyQuota(userId: string): Promise<LimitVerdict> {
+  const quota = getDailyTokenQuota();
+  if (quota <= 0) return { allowed: true };
+
+  const now = new Date();
+  if ((await getDailyTokensUsed(userId)) < quota) return { allowed: true };
+
+  const retryAfterSeconds = Math.ceil((nextUtcMidnight(now).getTime() - now.getTime()) / 1000);
+  return {
+    allowed: false,
+    code: 'quota_exceeded',
+    retryAfterSeconds,
+    message: `You've used today's AI allowance. It resets in about ${describeWait(retryAfterSeconds)}.`,
+  };
+}
+
+/**
+ * Admit a generation request making `requests` model calls for the
+ * user, or say why not. Each call takes a bucket token (never more than
+ * the burst, so a large request can still get through). The quota is
+ * checked first, so a refused request doesn't spend any.
+ */
+export async function checkGenerationLimit(userId: string, requests = 1): Promise<LimitVerdict> {
+  const quota = await checkDailyQuota(userId);
+  if (!quota.allowed) return quota;
+
+  const perMinute = getRequestsPerMinute();
+  if (perMinute <= 0) return { allowed: true };
+
+  const burst = getBurst();
+  const bucket = await getStore().takeToken(
+    `rate:${userId}`,
+    burst,
+    perMinute / 60000,
+    Math.min(Math.max(1, requests), burst)
+  );
+  if (bucket.allowed) return { allowed: true };
+
+  const retryAfterSeconds = Math.max(1, Math.ceil(bucket.retryAfterMs / 1000));
+  return {
+    allowed: false,
+    code: 'rate_limited',
+    retryAfterSeconds,
+    message: `You're sending requests faster than allowed. Try again in ${describeWait(retryAfterSeconds)}.`,
+  };
+}
+
+/**
+ * Count tokens a call used against the user's daily quota.
+ */
+export async function recordQuotaTokens(userId: string, tokens: number): Promise<void> {
+  if (tokens <= 0) return;
+
+  const now = new Date();
+  // Keep the counter a day past midnight so late writes still land
+  const expiresAt = new Date(nextUtcMidnight(now).getTime() + 24 * 60 * 60 * 1000);
+  await getStore().incrementCounter(quotaKey(userId, now), tokens, expiresAt);
+}
+
+/* ============================================================
+   HTTP
+============================================================ */
+
+/**
+ * 429 response for a refused request. The body's `error` is meant to
+ * be shown to the user as is.
+ */
+export function tooManyRequests(
+  verdict: Extract<LimitVerdict, { allowed: false }>
+): NextResponse {
+  return NextResponse.json(
+    {
+      error: verdict.message,
+      code: verdict.code,
+      retryAfter: verdict.retryAfterSeconds,
+    },
+    {
+      status: 429,
+      headers: { 'Retry-After': String(verdict.retryAfterSeconds) },
+    }
+  );
+}
@@ -0,0 +1,59 @@
+/**
+ * In-memory rate limit store.
+ *
+ * Per server process: limits reset on restart and aren't shared between
+ * instances. Fine for development and single-instance deployments.
+ */
+
+import { RateLimitStore } from './types';
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+interface Counter {
+  value: number;
+  expiresAt: number;
+}
+
+export function createMemoryStore(): RateLimitStore {
+  const buckets = new Map<string, Bucket>();
+  const counters = new Map<string, Counter>();
+
+  const readCounter = (key: string): number => {
+    const counter = counters.get(key);
+    if (!counter) return 0;
+    if (counter.expiresAt <= Date.now()) {
+      counters.delete(key);
+      return 0;
+    }
+    return counter.value;
+  };
+
+  return {
+    name: 'memory',
+
+    async takeToken(key, capacity, refillPerMs, count = 1) {
+      const now = Date.now();
+      const bucket = buckets.get(key) || { tokens: capacity, updatedAt: now };
+      const tokens = Math.min(capacity, bucket.tokens + (now - bucket.updatedAt) * refillPerMs);
+      const allowed = tokens >= count;
+
+      buckets.set(key, { tokens: allowed ? tokens - count : tokens, updatedAt: now });
+
+      return {
+        allowed,
+        retryAfterMs: allowed ? 0 : Math.ceil((count - tokens) / refillPerMs),
+      };
+    },
+
+    async getCounter(key) {
+      return readCounter(key);
+    },
+
+    async incrementCounter(key, amount, expiresAt) {
+      counters.set(key, { value: readCounter(key) + amount, expiresAt: expiresAt.getTime() });
+    },
+  };
+}
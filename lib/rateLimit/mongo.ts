@@ -0,0 +1,98 @@
+/**
+ * MongoDB rate limit store (collection `rate_limits`).
+ *
+ * Shared by every server instance. The token bucket is refilled and
+ * spent in a single pipeline update, so concurrent requests can't both
+ * take the last token. Documents carry an `expiresAt` TTL so idle
+ * buckets and past days' counters clean themselves up.
+ */
+
+import { getDb } from '../db';
+import { RateLimitStore } from './types';
+
+let indexesReady: Promise<unknown> | null = null;
+
+async function getCollection() {
+  const collection = (await getDb()).collection('rate_limits');
+  if (!indexesReady) {
+    indexesReady = collection
+      .createIndex({ expiresAt: 1 }, { expireAfterSeconds: 0 })
+      .catch((error) => {
+        indexesReady = null;
+        console.error('Rate limit index error:', error);
+      });
+  }
+  await indexesReady;
+  return collection;
+}
+
+export function createMongoStore(): RateLimitStore {
+  return {
+    name: 'mongo',
+
+    async takeToken(key, capacity, refillPerMs, count = 1) {
+      const collection = await getCollection();
+      const now = new Date();
+      // An untouched bucket is full again after capacity / refillPerMs
+      const expiresAt = new Date(now.getTime() + Math.ceil(capacity / refillPerMs));
+
+      const bucket = await collection.findOneAndUpdate(
+        { key },
+        [
+          {
+            $set: {
+              tokens: {
+                $min: [
+                  capacity,
+                  {
+                    $add: [
+                      { $ifNull: ['$tokens', capacity] },
+                      {
+                        $multiply: [
+                          { $subtract: [now, { $ifNull: ['$updatedAt', now] }] },
+                          refillPerMs,
+                        ],
+                      },
+                    ],
+                  },
+                ],
+              },
+            },
+          },
+          { $set: { allowed: { $gte: ['$tokens', count] } } },
+          {
+            $set: {
+              tokens: { $cond: ['$allowed', { $subtract: ['$tokens', count] }, '$tokens'] },
+              updatedAt: now,
+              expiresAt,
+            },
+          },
+        ],
+        { upsert: true, returnDocument: 'after' }
+      );
+
+      const allowed = Boolean(bucket?.allowed);
+      const tokens = Number(bucket?.tokens ?? 0);
+
+      return {
+        allowed,
+        retryAfterMs: allowed ? 0 : Math.ceil((count - tokens) / refillPerMs),
+      };
+    },
+
+    async getCounter(key) {
+      const collection = await getCollection();
+      const counter = await collection.findOne({ key, expiresAt: { $gt: new Date() } });
+      return Number(counter?.value ?? 0);
+    },
+
+    async incrementCounter(key, amount, expiresAt) {
+      const collection = await getCollection();
+      await collection.updateOne(
+        { key },
+        { $inc: { value: amount }, $set: { expiresAt } },
+        { upsert: true }
+      );
+    },
+  };
+}
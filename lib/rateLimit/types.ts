@@ -0,0 +1,36 @@
+/**
+ * Rate Limit Store Types
+ *
+ * The limiter (./index.ts) keeps two kinds of per-user state: a token
+ * bucket for request rate and a counter for daily model tokens. Both
+ * live behind a RateLimitStore, so a single dev server can keep them in
+ * memory while multi-instance deployments share them through MongoDB.
+ */
+
+export interface BucketResult {
+  allowed: boolean;
+  retryAfterMs: number; // 0 when allowed
+}
+
+export interface RateLimitStore {
+  name: string;
+
+  /**
+   * Take `count` tokens (default 1, at most `capacity`) from the bucket
+   * at `key` (created full), all or none. The bucket holds at most
+   * `capacity` tokens and refills at `refillPerMs`.
+   * Must be atomic: concurrent calls never spend the same token.
+   */
+  takeToken(
+    key: string,
+    capacity: number,
+    refillPerMs: number,
+    count?: number
+  ): Promise<BucketResult>;
+
+  /** Current value of a counter (0 if unset or expired). */
+  getCounter(key: string): Promise<number>;
+
+  /** Add to a counter, which expires at `expiresAt`. */
+  incrementCounter(key: string, amount: number, expiresAt: Date): Promise<void>;
+}
@@ -22,8 +22,17 @@
    */
 
   import { Node, Edge } from 'reactflow';
-  import { Graph, GraphNode } from './graph';
+  import { Graph, GraphNode, GraphEdge, isTreeEdge } from './graph';
   import { Layout, NodeLayout } from './layout';
+  import { NodeVersion, getVersions, getActiveVersionId } from './versions';
+  import { GhostNode, isGhostId } from './ghosts';
+  import { getReferenceLinks, getSourceNodeIds } from './references';
+  import { AttachmentMeta, getNodeAttachments } from './attachments';
+  import { NodeUsage, getNodeUsage } from './usage';
+  import { Comparison, getComparison } from './comparison';
+  import { GenerationParams, getNodeGenerationParams } from './generationParams';
+  import { ModerationVerdict } from './moderation/types';
+  import { getNodeModeration } from './moderation/verdict';
 
   /* ============================================================
     CONSTANTS
@@ -43,13 +52,85 @@
    * This is what MindmapNode.tsx receives as props.data.
    */
   export interface AIMindmapNodeData {
+    nodeId: string;
     question: string;
     response: string;
     fullQuestion: string;
     fullResponse: string;
     createdAt: string;
     timestamp: string; // Human-readable time (e.g. "02:34 PM")
+    isStreaming: boolean; // Response is still being generated
+    isRegenerating: boolean; // A new answer version is being generated
+    versions: NodeVersion[]; // All answers, oldest first (see versions.ts)
+    activeVersionId: string;
+    kind: string; // metadata.kind ('summary', ...) or 'answer' for plain Q&A
+    isSummarizing: boolean; // A summary of this node's branch is being generated
+    isExploding: boolean; // Subtopic children are being generated
+    isAutoExploring: boolean; // Root of the auto-explore job that is running
+    sourceNodeIds: string[]; // Map answers: the nodes the answer drew on
+    attachments: AttachmentMeta[]; // Files uploaded with the question
+    usage: NodeUsage | null; // Tokens, latency and cost of the active answer
+    comparison: Comparison | null; // Comparison nodes: both models' answers (see comparison.ts)
+    generation: GenerationParams; // Model / temperature / max tokens chosen for this node
+    moderation: ModerationVerdict | null; // Flagged or redacted content (see lib/moderation)
     onExpand: (data: AIMindmapNodeData) => void;
+    onRegenerate: (nodeId: string) => void;
+    onSelectVersion: (nodeId: string, versionId: string) => void;
+    onSummarize: (nodeId: string) => void;
+    onExplode: (nodeId: string) => void;
+    onAutoExplore: (nodeId: string) => void;
+    onPromote: (nodeId: string, versionId: string) => void;
+  }
+
+  /**
+   * Data payload for a ghost (suggested follow-up) node.
+   * This is what GhostNode.tsx receives as props.data.
+   */
+  export interface GhostNodeData {
+    ghost: GhostNode;
+    isPending: boolean; // Clicked; the real query is in flight
+    onActivate: (ghost: GhostNode) => void;
+  }
+
+  export type CanvasNodeData = AIMindmapNodeData | GhostNodeData;
+
+  /**
+   * Data payload for a related (cross-thread) edge.
+   * This is what RelatedEdge.tsx receives as props.data.
+   */
+  export interface RelatedEdgeData {
+    edgeId: string;
+    status: 'suggested' | 'accepted';
+    score?: number;
+    onAccept: (edgeId: string) => void;
+    onDismiss: (edgeId: string) => void;
+  }
+
+  /**
+   * Callbacks wired into node (and related edge) data by Canvas.
+   */
+  export interface NodeActions {
+    onExpand: AIMindmapNodeData['onExpand'];
+    onRegenerate: AIMindmapNodeData['onRegenerate'];
+    onSelectVersion: AIMindmapNodeData['onSelectVersion'];
+    onSummarize: AIMindmapNodeData['onSummarize'];
+    onExplode: AIMindmapNodeData['onExplode'];
+    onAutoExplore: AIMindmapNodeData['onAutoExplore'];
+    onPromote: AIMindmapNodeData['onPromote'];
+    onActivateGhost: GhostNodeData['onActivate'];
+    onAcceptRelated: RelatedEdgeData['onAccept'];
+    onDismissRelated: RelatedEdgeData['onDismiss'];
+  }
+
+  /**
+   * Render-time state that isn't part of the graph.
+   */
+  export interface ConversionOptions {
+    pendingGhostIds?: Set<string>;
+    pendingSummaryIds?: Set<string>;
+    pendingExplodeIds?: Set<string>;
+    autoExploreRootId?: string | null;
+    hideRelated?: boolean;
   }
 
   export interface ViewportBounds {
@@ -70,7 +151,8 @@
   export function createReactFlowNode(
     graphNode: GraphNode,
     nodeLayout: NodeLayout,
-    onExpand: (data: AIMindmapNodeData) => void
+    actions: NodeActions,
+    options: ConversionOptions = {}
   ): Node<AIMindmapNodeData> {
     const timestamp = new Date(graphNode.createdAt).toLocaleTimeString([], {
       hour: '2-digit',
@@ -87,13 +169,62 @@
       draggable: false,   // Dagre owns positioning
       selectable: true,
       data: {
+        nodeId: graphNode.id,
         question: graphNode.content,
         response: graphNode.response,
         fullQuestion: graphNode.content,
         fullResponse: graphNode.response,
         createdAt: graphNode.createdAt,
         timestamp,
-        onExpand,
+        isStreaming: graphNode.metadata?.status === 'streaming',
+        isRegenerating: graphNode.metadata?.status === 'regenerating',
+        versions: getVersions(graphNode),
+        activeVersionId: getActiveVersionId(graphNode),
+        kind: (graphNode.metadata?.kind as string | undefined) ?? 'answer',
+        isSummarizing: options.pendingSummaryIds?.has(graphNode.id) ?? false,
+        isExploding: options.pendingExplodeIds?.has(graphNode.id) ?? false,
+        isAutoExploring: options.autoExploreRootId === graphNode.id,
+        sourceNodeIds: getSourceNodeIds(graphNode),
+        attachments: getNodeAttachments(graphNode.metadata),
+        usage: getNodeUsage(graphNode.metadata),
+        comparison: getComparison(graphNode),
+        generation: getNodeGenerationParams(graphNode.metadata),
+        moderation: getNodeModeration(graphNode.metadata) ?? null,
+        onExpand: actions.onExpand,
+        onRegenerate: actions.onRegenerate,
+        onSelectVersion: actions.onSelectVersion,
+        onSummarize: actions.onSummarize,
+        onExplode: actions.onExplode,
+        onAutoExplore: actions.onAutoExplore,
+        onPromote: actions.onPromote,
+      },
+    };
+  }
+
+  /**
+   * Convert a ghost GraphNode (see ghosts.ts) into a React Flow Node.
+   * Ghosts are laid out like real nodes but rendered by GhostNode.tsx.
+   */
+  export function createGhostReactFlowNode(
+    graphNode: GraphNode,
+    nodeLayout: NodeLayout,
+    actions: NodeActions,
+    isPending: boolean
+  ): Node<GhostNodeData> {
+    return {
+      id: graphNode.id,
+      type: 'ghost',
+      position: { x: nodeLayout.x, y: nodeLayout.y },
+      draggable: false,
+      selectable: false,
+      data: {
+        ghost: {
+          id: graphNode.id,
+          parentId: graphNode.parentId!,
+          question: graphNode.content,
+        },
+        isPending,
+        onActivate: actions.onActivateGhost,
       },
     };
   }
@@ -111,8 +242,65 @@
    *   - Work well with horizontal LR layouts
    *
    * Animated stroke gives subtle visual feedback that the graph is live.
+   * Edges into ghost nodes are static, dashed and faint instead.
+   * Reference links (map answer → source node) are dashed amber and get
+   * their own id namespace, since they are not graph edges.
+   * Related links are faint dashed lines drawn by RelatedEdge.tsx, which
+   * also shows accept/dismiss controls; pass their data in `related`.
    */
-  export function createReactFlowEdge(source: string, target: string): Edge {
+  export function createReactFlowEdge(
+    source: string,
+    target: string,
+    variant: 'default' | 'ghost' | 'reference' | 'related' = 'default',
+    related?: RelatedEdgeData
+  ): Edge<RelatedEdgeData> {
+    if (variant === 'related') {
+      const isSuggested = related?.status !== 'accepted';
+      return {
+        id: related?.edgeId ?? `related:${source}~${target}`,
+        source,
+        target,
+        type: 'related',
+        animated: false,
+        data: related,
+        style: {
+          strokeWidth: isSuggested ? 1 : 1.5,
+          stroke: isSuggested ? '#c7d2fe' : '#a5b4fc', // Indigo-200 / 300
+          strokeDasharray: isSuggested ? '2 6' : '6 4',
+        },
+      };
+    }
+
+    if (variant === 'reference') {
+      return {
+        id: `ref:${source}->${target}`,
+        source,
+        target,
+        type: 'bezier',
+        animated: false,
+        style: {
+          strokeWidth: 1.5,
+          stroke: '#fbbf24', // Amber-400
+          strokeDasharray: '4 4',
+        },
+      };
+    }
+
+    if (variant === 'ghost') {
+      return {
+        id: `${source}->${target}`,
+        source,
+        target,
+        type: 'bezier',
+        animated: false,
+        style: {
+          strokeWidth: 1.5,
+          stroke: '#cbd5e1', // Slate-300
+          strokeDasharray: '6 6',
+        },
+      };
+    }
+
     return {
       id: `${source}->${target}`,
       source,
@@ -126,6 +314,16 @@
     };
   }
 
+  function createRelatedEdge(edge: GraphEdge, actions: NodeActions): Edge<RelatedEdgeData> {
+    return createReactFlowEdge(edge.source, edge.target, 'related', {
+      edgeId: edge.id,
+      status: edge.status ?? 'suggested',
+      score: edge.score,
+      onAccept: actions.onAcceptRelated,
+      onDismiss: actions.onDismissRelated,
+    });
+  }
+
   /* ============================================================
     BULK CONVERSION
   ============================================================ */
@@ -136,13 +334,16 @@
    *
    * Returns ALL nodes/edges (not viewport-filtered).
    * Call filterToViewport() on the result for rendering.
+   *
+   * Pass withGhostNodes(graph) to include suggested follow-ups.
    */
   export function graphToReactFlowElements(
     graph: Graph,
     layout: Layout,
-    onExpand: (data: AIMindmapNodeData) => void
-  ): { nodes: Node<AIMindmapNodeData>[]; edges: Edge[] } {
-    const nodes: Node<AIMindmapNodeData>[] = [];
+    actions: NodeActions,
+    options: ConversionOptions = {}
+  ): { nodes: Node<CanvasNodeData>[]; edges: Edge[] } {
+    const nodes: Node<CanvasNodeData>[] = [];
     const edges: Edge[] = [];
 
     // Convert nodes
@@ -150,12 +351,33 @@
       const nodeLayout = layout.nodes.get(nodeId);
       if (!nodeLayout) continue; // Skip if layout is missing (shouldn't happen)
 
-      nodes.push(createReactFlowNode(graphNode, nodeLayout, onExpand));
+      if (isGhostId(nodeId)) {
+        const isPending = options.pendingGhostIds?.has(nodeId) ?? false;
+        nodes.push(createGhostReactFlowNode(graphNode, nodeLayout, actions, isPending));
+      } else {
+        nodes.push(createReactFlowNode(graphNode, nodeLayout, actions, options));
+      }
     }
 
     // Convert edges
     for (const edge of graph.edges.values()) {
-      edges.push(createReactFlowEdge(edge.source, edge.target));
+      if (!isTreeEdge(edge)) {
+        if (!options.hideRelated) edges.push(createRelatedEdge(edge, actions));
+        continue;
+      }
+
+      edges.push(
+        createReactFlowEdge(
+          edge.source,
+          edge.target,
+          isGhostId(edge.target) ? 'ghost' : 'default'
+        )
+      );
+    }
+
+    // Reference links from map answers to their sources (layout ignores them)
+    for (const link of getReferenceLinks(graph)) {
+      edges.push(createReactFlowEdge(link.source, link.target, 'reference'));
     }
 
     return { nodes, edges };
@@ -213,13 +435,13 @@
    *   );
    *   // Pass visibleNodes / visibleEdges to <ReactFlow>
    */
-  export function filterToViewport(
-    allNodes: Node<AIMindmapNodeData>[],
+  export function filterToViewport<T = CanvasNodeData>(
+    allNodes: Node<T>[],
     allEdges: Edge[],
     layout: Layout,
     bounds: ViewportBounds
   ): {
-    visibleNodes: Node<AIMindmapNodeData>[];
+    visibleNodes: Node<T>[];
     visibleEdges: Edge[];
   } {
     // Determine which nodes are visible
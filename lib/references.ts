@@ -0,0 +1,39 @@
+/**
+ * Reference Links — map answers → the nodes they drew on
+ *
+ * A map-level answer (see mapQuestion.ts) is a root node whose
+ * metadata.sourceNodeIds lists the nodes used as its context. Like
+ * ghosts, the links are DERIVED for rendering only: they are not graph
+ * edges, so they never affect parent/child structure or the Dagre layout.
+ */
+
+import { Graph, GraphNode } from './graph';
+
+export const MAP_ANSWER_KIND = 'map-answer';
+
+export interface ReferenceLink {
+  source: string; // The map answer
+  target: string; // A node it drew on
+}
+
+/**
+ * The node's source ids, or [] for anything but a map answer.
+ */
+export function getSourceNodeIds(node: GraphNode): string[] {
+  const ids = node.metadata?.sourceNodeIds;
+  return Array.isArray(ids) ? ids.filter((id): id is string => typeof id === 'string') : [];
+}
+
+/**
+ * All reference links whose both ends are in the graph (sources may
+ * have been deleted since the answer was written).
+ */
+export function getReferenceLinks(graph: Graph): ReferenceLink[] {
+  const links: ReferenceLink[] = [];
+  for (const node of graph.nodes.values()) {
+    for (const sourceId of getSourceNodeIds(node)) {
+      if (graph.nodes.has(sourceId)) links.push({ source: node.id, target: sourceId });
+    }
+  }
+  return links;
+}
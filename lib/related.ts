@@ -0,0 +1,117 @@
+/**
+ * Related Links (server-side)
+ *
+ * Suggests cross-links between nodes of DIFFERENT threads (different
+ * roots) whose embeddings are similar, so two threads discussing the
+ * same idea get connected. Parent/child and same-thread pairs are left
+ * out: they are similar by construction and already connected.
+ *
+ * Suggestions are recomputed on every request; only the user's
+ * decisions (accepted / dismissed) are stored on the mindmap document.
+ * A dismissed pair is never suggested again.
+ */
+
+import { relatedEdgeId } from './graph';
+import { getEmbedder, cosineSimilarity } from './embeddings';
+import { getNodeVectors } from './search';
+import { StoredMindmap, StoredNode } from './mindmapRepository';
+
+// Per node, only its strongest few links are suggested
+const RELATED_PER_NODE = 2;
+const MAX_SUGGESTIONS = 40;
+
+export interface RelatedLink {
+  id: string;
+  source: string;
+  target: string;
+  status: 'suggested' | 'accepted';
+  score?: number;
+}
+
+/**
+ * Root id of every node (walks parentId chains, memoized).
+ */
+function getThreadRoots(nodes: StoredNode[]): Map<string, string> {
+  const byId = new Map(nodes.map((node) => [node.id, node]));
+  const roots = new Map<string, string>();
+
+  const rootOf = (id: string): string => {
+    const cached = roots.get(id);
+    if (cached) return cached;
+
+    const parentId = byId.get(id)?.parentId;
+    const root = parentId && byId.has(parentId) ? rootOf(parentId) : id;
+    roots.set(id, root);
+    return root;
+  };
+
+  for (const node of nodes) rootOf(node.id);
+  return roots;
+}
+
+/**
+ * Accepted links plus fresh suggestions, strongest first.
+ * Links to deleted nodes are dropped.
+ */
+export async function getRelatedLinks(mindmap: StoredMindmap): Promise<RelatedLink[]> {
+  const nodeIds = new Set(mindmap.nodes.map((node) => node.id));
+  const decided = new Set(mindmap.relatedLinks.map((link) => link.id));
+
+  const accepted: RelatedLink[] = mindmap.relatedLinks
+    .filter(
+      (link) =>
+        link.status === 'accepted' && nodeIds.has(link.source) && nodeIds.has(link.target)
+    )
+    .map(({ id, source, target, score }) => ({ id, source, target, status: 'accepted', score }));
+
+  const vectors = await getNodeVectors(mindmap);
+  const roots = getThreadRoots(mindmap.nodes);
+  const threshold = getEmbedder().relatedThreshold;
+
+  // All qualifying pairs, then each node keeps its top RELATED_PER_NODE
+  const candidates: RelatedLink[] = [];
+  const nodes = mindmap.nodes.filter((node) => vectors.has(node.id));
+
+  for (let i = 0; i < nodes.length; i++) {
+    for (let j = i + 1; j < nodes.length; j++) {
+      const a = nodes[i];
+      const b = nodes[j];
+      if (roots.get(a.id) === roots.get(b.id)) continue;
+
+      const id = relatedEdgeId(a.id, b.id);
+      if (decided.has(id)) continue;
+
+      const score = cosineSimilarity(vectors.get(a.id)!, vectors.get(b.id)!);
+      if (score < threshold) continue;
+
+      candidates.push({ id, source: a.id, target: b.id, status: 'suggested', score });
+    }
+  }
+
+  candidates.sort((x, y) => (y.score ?? 0) - (x.score ?? 0));
+
+  const perNode = new Map<string, number>();
+  const suggested: RelatedLink[] = [];
+
+  for (const link of candidates) {
+    const countA = perNode.get(link.source) || 0;
+    const countB = perNode.get(link.target) || 0;
+    if (countA >= RELATED_PER_NODE || countB >= RELATED_PER_NODE) continue;
+
+    perNode.set(link.source, countA + 1);
+    perNode.set(link.target, countB + 1);
+    suggested.push(link);
+    if (suggested.length >= MAX_SUGGESTIONS) break;
+  }
+
+  return [...accepted, ...suggested];
+}
+
+/**
+ * Similarity of two stored nodes from their current embeddings, if any.
+ */
+export function getLinkScore(a: StoredNode, b: StoredNode): number | undefined {
+  const model = getEmbedder().model;
+  if (a.embedding?.model !== model || b.embedding?.model !== model) return undefined;
+  return cosineSimilarity(a.embedding.vector, b.embedding.vector);
+}
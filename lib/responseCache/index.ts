@@ -0,0 +1,142 @@
+/**
+ * Response Cache — reuse answers to identical model calls
+ *
+ * The LLM facade (lib/llm) looks every call up by a content hash of
+ * what determines its answer: provider, model, response format, system
+ * prompt, temperature, max output tokens, the conversation history and
+ * the prompt. Text is normalized (trimmed, whitespace collapsed) before
+ * hashing, so reformatting a question still hits.
+ *
+ * A hit is returned without calling the provider and is reported with
+ * `cached: true` and zero tokens (it costs nothing and isn't counted
+ * against quotas); nodes answered from the cache show it as
+ * metadata.usage.cached. Callers force a fresh answer with
+ * `bypassCache` (regenerate always does); the fresh answer replaces the
+ * cached one.
+ *
+ * Only completed answers are stored — never failed, cancelled or
+ * abandoned streams — and answers longer than
+ * RESPONSE_CACHE_MAX_ENTRY_CHARS (default 100,000) aren't stored at all.
+ *
+ * Entries expire after RESPONSE_CACHE_TTL_SECONDS (default 1 day), and
+ * at most RESPONSE_CACHE_MAX_ENTRIES (default 1,000) are kept, oldest
+ * evicted first. The store is chosen by RESPONSE_CACHE:
+ *   "memory" → per process (default, see ./memory.ts)
+ *   "mongo"  → shared by all instances (see ./mongo.ts)
+ *   "off"    → no caching
+ *
+ * The cache is an optimization: a failing store is logged and treated
+ * as a miss, never as a failed generation.
+ */
+
+import { createHash } from 'crypto';
+import type { GenerateRequest, ModelChoice } from '../llm/types';
+import { createMemoryCache } from './memory';
+import { createMongoCache } from './mongo';
+import { CacheLimits, CachedResponse, ResponseCacheStore } from './types';
+
+export type { CachedResponse, ResponseCacheStore } from './types';
+
+/* ============================================================
+   CONFIG
+============================================================ */
+
+const DEFAULT_TTL_SECONDS = 24 * 60 * 60;
+const DEFAULT_MAX_ENTRIES = 1000;
+const DEFAULT_MAX_ENTRY_CHARS = 100_000;
+
+function readNumber(name: string, fallback: number): number {
+  const raw = process.env[name];
+  if (raw === undefined || raw.trim() === '') return fallback;
+  const value = Number(raw);
+  return Number.isFinite(value) && value >= 0 ? value : fallback;
+}
+
+function getLimits(): CacheLimits {
+  return {
+    ttlMs: readNumber('RESPONSE_CACHE_TTL_SECONDS', DEFAULT_TTL_SECONDS) * 1000,
+    maxEntries: Math.max(1, readNumber('RESPONSE_CACHE_MAX_ENTRIES', DEFAULT_MAX_ENTRIES)),
+  };
+}
+
+/* ============================================================
+   STORE
+============================================================ */
+
+const CACHE_FACTORIES: Record<string, (limits: CacheLimits) => ResponseCacheStore> = {
+  memory: createMemoryCache,
+  mongo: createMongoCache,
+};
+
+// undefined = not chosen yet; null = caching is off
+let store: ResponseCacheStore | null | undefined;
+
+function getStore(): ResponseCacheStore | null {
+  if (store !== undefined) return store;
+
+  const name = process.env.RESPONSE_CACHE || 'memory';
+  if (name === 'off') {
+    store = null;
+    return store;
+  }
+
+  const factory = CACHE_FACTORIES[name];
+  if (!factory) throw new Error(`Unknown response cache "${name}"`);
+
+  store = factory(getLimits());
+  return store;
+}
+
+/* ============================================================
+   KEYS
+============================================================ */
+
+function normalize(text: string | undefined): string {
+  return (text || '').trim().replace(/\s+/g, ' ');
+}
+
+/**
+ * Content address of a call: everything that determines its answer.
+ */
+export function responseCacheKey(choice: ModelChoice, request: GenerateRequest): string {
+  const content = JSON.stringify([
+    choice.provider,
+    choice.model,
+    request.responseFormat || 'text',
+    normalize(request.systemPrompt),
+    request.temperature ?? null,
+    request.maxOutputTokens ?? null,
+    (request.history || []).map((turn) => [turn.role, normalize(turn.content)]),
+    normalize(request.prompt),
+  ]);
+
+  return createHash('sha256').update(content).digest('hex');
+}
+
+/* ============================================================
+   LOOKUP / STORE
+============================================================ */
+
+export async function getCachedResponse(key: string): Promise<CachedResponse | null> {
+  try {
+    return (await getStore()?.get(key)) ?? null;
+  } catch (error) {
+    console.error('Response cache read error:', error);
+    return null;
+  }
+}
+
+export async function cacheResponse(
+  key: string,
+  value: Omit<CachedResponse, 'createdAt'>
+): Promise<void> {
+  if (!value.text || value.text.length > readNumber('RESPONSE_CACHE_MAX_ENTRY_CHARS', DEFAULT_MAX_ENTRY_CHARS)) {
+    return;
+  }
+
+  try {
+    await getStore()?.set(key, { ...value, createdAt: new Date().toISOString() });
+  } catch (error) {
+    console.error('Response cache write error:', error);
+  }
+}
@@ -0,0 +1,42 @@
+/**
+ * In-memory response cache.
+ *
+ * Per server process, least recently used entries evicted first (a Map
+ * keeps insertion order; a hit re-inserts its entry). Lost on restart.
+ */
+
+import { CacheLimits, CachedResponse, ResponseCacheStore } from './types';
+
+interface Entry {
+  value: CachedResponse;
+  expiresAt: number;
+}
+
+export function createMemoryCache(limits: CacheLimits): ResponseCacheStore {
+  const entries = new Map<string, Entry>();
+
+  return {
+    name: 'memory',
+
+    async get(key) {
+      const entry = entries.get(key);
+      if (!entry) return null;
+
+      entries.delete(key);
+      if (entry.expiresAt <= Date.now()) return null;
+
+      entries.set(key, entry);
+      return entry.value;
+    },
+
+    async set(key, value) {
+      entries.delete(key);
+      entries.set(key, { value, expiresAt: Date.now() + limits.ttlMs });
+
+      while (entries.size > limits.maxEntries) {
+        const oldest = entries.keys().next().value as string;
+        entries.delete(oldest);
+      }
+    },
+  };
+}
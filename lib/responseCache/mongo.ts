@@ -0,0 +1,69 @@
+/**
+ * MongoDB response cache (collection `response_cache`).
+ *
+ * Shared by every server instance. Expiry is a TTL index on `expiresAt`;
+ * the entry limit is enforced after writes by deleting the oldest
+ * entries, so the collection can briefly run over it.
+ */
+
+import { getDb } from '../db';
+import { CacheLimits, CachedResponse, ResponseCacheStore } from './types';
+
+interface CacheDocument {
+  key: string;
+  value: CachedResponse;
+  storedAt: Date;
+  expiresAt: Date;
+}
+
+let indexesReady: Promise<unknown> | null = null;
+
+async function getCollection() {
+  const collection = (await getDb()).collection<CacheDocument>('response_cache');
+  if (!indexesReady) {
+    indexesReady = Promise.all([
+      collection.createIndex({ key: 1 }, { unique: true }),
+      collection.createIndex({ expiresAt: 1 }, { expireAfterSeconds: 0 }),
+      collection.createIndex({ storedAt: 1 }),
+    ]).catch((error) => {
+      indexesReady = null;
+      console.error('Response cache index error:', error);
+    });
+  }
+  await indexesReady;
+  return collection;
+}
+
+export function createMongoCache(limits: CacheLimits): ResponseCacheStore {
+  return {
+    name: 'mongo',
+
+    async get(key) {
+      const collection = await getCollection();
+      // The TTL monitor runs about once a minute; don't serve what it hasn't removed yet
+      const doc = await collection.findOne({ key, expiresAt: { $gt: new Date() } });
+      return doc ? doc.value : null;
+    },
+
+    async set(key, value) {
+      const collection = await getCollection();
+      const now = new Date();
+
+      await collection.updateOne(
+        { key },
+        { $set: { value, storedAt: now, expiresAt: new Date(now.getTime() + limits.ttlMs) } },
+        { upsert: true }
+      );
+
+      const excess = (await collection.estimatedDocumentCount()) - limits.maxEntries;
+      if (excess > 0) {
+        const oldest = await collection
+          .find({}, { projection: { _id: 1 } })
+          .sort({ storedAt: 1 })
+          .limit(excess)
+          .toArray();
+        await collection.deleteMany({ _id: { $in: oldest.map((doc) => doc._id) } });
+      }
+    },
+  };
+}
@@ -0,0 +1,31 @@
+/**
+ * Response Cache Types
+ *
+ * The LLM facade (lib/llm) looks completions up by a content hash of
+ * everything that determines them (see ./index.ts). The entries live
+ * behind a ResponseCacheStore: in memory for a single dev server, or in
+ * MongoDB so every instance shares them.
+ */
+
+import type { ProviderUsage } from '../llm/types';
+
+export interface CachedResponse {
+  text: string;
+  usage?: ProviderUsage; // What generating it originally cost, if reported
+  createdAt: string; // ISO 8601
+}
+
+export interface CacheLimits {
+  ttlMs: number; // Entries expire this long after they are stored
+  maxEntries: number; // Oldest entries are evicted beyond this
+}
+
+export interface ResponseCacheStore {
+  name: string;
+
+  /** The entry at `key`, or null if missing or expired. */
+  get(key: string): Promise<CachedResponse | null>;
+
+  /** Store (or replace) the entry at `key`. */
+  set(key: string, value: CachedResponse): Promise<void>;
+}
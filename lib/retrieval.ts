@@ -0,0 +1,132 @@
+/**
+ * Node Retrieval — rank nodes by relevance to a free-text question
+ *
+ * Lexical TF-IDF with cosine similarity over each node's question and
+ * answer (the question counts double: it is the node's "title").
+ * Runs in memory over the whole map per call, which is fine at the
+ * sizes a single user's map reaches.
+ *
+ * Pure functions only, no I/O.
+ */
+
+/* ============================================================
+   TYPES
+============================================================ */
+
+export interface RetrievableNode {
+  id: string;
+  content: string;
+  response: string;
+}
+
+export interface RankedNode<T> {
+  node: T;
+  score: number; // Cosine similarity, 0..1
+}
+
+/* ============================================================
+   TOKENIZATION
+============================================================ */
+
+const STOPWORDS = new Set(
+  (
+    'a an and are as at be but by can did do does for from had has have how i if in into is it its ' +
+    'me my of on or our so than that the their them then there these they this to was we were what ' +
+    'when where which who why will with would you your about across all any been also should could'
+  ).split(' ')
+);
+
+/**
+ * Crude suffix stripping so "learning", "learned" and "learns" match.
+ */
+function stem(token: string): string {
+  if (token.length > 5 && token.endsWith('ing')) return token.slice(0, -3);
+  if (token.length > 4 && token.endsWith('ies')) return token.slice(0, -3) + 'y';
+  if (token.length > 4 && token.endsWith('ed')) return token.slice(0, -2);
+  if (token.length > 3 && token.endsWith('s') && !token.endsWith('ss')) return token.slice(0, -1);
+  return token;
+}
+
+/**
+ * Lowercased, stemmed word tokens, without stopwords and single characters.
+ */
+export function tokenize(text: string): string[] {
+  return (text.toLowerCase().match(/[a-z0-9\u00c0-\u024f]+/g) || [])
+    .filter((token) => token.length > 1 && !STOPWORDS.has(token))
+    .map(stem);
+}
+
+function termFrequencies(tokens: string[]): Map<string, number> {
+  const tf = new Map<string, number>();
+  for (const token of tokens) tf.set(token, (tf.get(token) || 0) + 1);
+  return tf;
+}
+
+/* ============================================================
+   RANKING
+============================================================ */
+
+function documentTokens(node: RetrievableNode): string[] {
+  const title = tokenize(node.content);
+  return [...title, ...title, ...tokenize(node.response)];
+}
+
+/**
+ * Weighted vector of a term-frequency map, normalized to unit length.
+ */
+function toVector(tf: Map<string, number>, idf: Map<string, number>): Map<string, number> {
+  const vector = new Map<string, number>();
+  let norm = 0;
+
+  for (const [term, count] of tf) {
+    const weight = (1 + Math.log(count)) * (idf.get(term) || 0);
+    if (weight === 0) continue;
+    vector.set(term, weight);
+    norm += weight * weight;
+  }
+
+  norm = Math.sqrt(norm);
+  if (norm > 0) {
+    for (const [term, weight] of vector) vector.set(term, weight / norm);
+  }
+  return vector;
+}
+
+/**
+ * The `limit` nodes most relevant to `question`, best first.
+ * Nodes sharing no terms with the question are never returned.
+ */
+export function rankNodes<T extends RetrievableNode>(
+  nodes: T[],
+  question: string,
+  limit: number
+): RankedNode<T>[] {
+  const queryTf = termFrequencies(tokenize(question));
+  if (queryTf.size === 0 || nodes.length === 0) return [];
+
+  const docs = nodes.map((node) => termFrequencies(documentTokens(node)));
+
+  // Smoothed IDF over every term, so long answers are normalized fairly
+  const df = new Map<string, number>();
+  for (const tf of docs) {
+    for (const term of tf.keys()) df.set(term, (df.get(term) || 0) + 1);
+  }
+  const idf = new Map<string, number>();
+  for (const term of new Set([...df.keys(), ...queryTf.keys()])) {
+    idf.set(term, Math.log((1 + nodes.length) / (1 + (df.get(term) || 0))) + 1);
+  }
+
+  const queryVector = toVector(queryTf, idf);
+
+  const ranked: RankedNode<T>[] = [];
+  docs.forEach((tf, i) => {
+    const docVector = toVector(tf, idf);
+    let score = 0;
+    for (const [term, weight] of queryVector) {
+      score += weight * (docVector.get(term) || 0);
+    }
+    if (score > 0) ranked.push({ node: nodes[i], score });
+  });
+
+  return ranked.sort((a, b) => b.score - a.score).slice(0, limit);
+}
@@ -0,0 +1,85 @@
+/**
+ * Semantic Search (server-side)
+ *
+ * Ranks a map's nodes by cosine similarity between the query's
+ * embedding and each node's stored embedding (see lib/embeddings).
+ *
+ * Nodes without a vector from the configured embedder — written before
+ * search existed, embedded while the backend was down, or embedded by
+ * a different backend — are embedded here and saved, so the first
+ * search after switching EMBEDDING_PROVIDER is slower than the rest.
+ */
+
+import {
+  getEmbedder,
+  embedNodes,
+  hasCurrentEmbedding,
+  cosineSimilarity,
+  NodeEmbedding,
+} from './embeddings';
+import { StoredMindmap, StoredNode, setNodeEmbeddings } from './mindmapRepository';
+import { truncateWords } from './text';
+
+export const DEFAULT_SEARCH_LIMIT = 10;
+const MAX_SEARCH_LIMIT = 50;
+
+export interface SearchResult {
+  id: string;
+  content: string; // The node's question
+  snippet: string; // Start of the answer
+  score: number; // Cosine similarity
+}
+
+/**
+ * Embed and save every node lacking a current embedding.
+ * Returns all current vectors by node id.
+ */
+export async function getNodeVectors(mindmap: StoredMindmap): Promise<Map<string, number[]>> {
+  const embedder = getEmbedder();
+  const vectors = new Map<string, number[]>();
+  const missing: StoredNode[] = [];
+
+  for (const node of mindmap.nodes) {
+    if (node.embedding && hasCurrentEmbedding(node, embedder)) {
+      vectors.set(node.id, node.embedding.vector);
+    } else {
+      missing.push(node);
+    }
+  }
+
+  const embeddings = await embedNodes(missing);
+  const backfill = new Map<string, NodeEmbedding>();
+
+  missing.forEach((node, i) => {
+    const embedding = embeddings[i];
+    if (!embedding) return;
+    vectors.set(node.id, embedding.vector);
+    backfill.set(node.id, embedding);
+  });
+
+  await setNodeEmbeddings(mindmap, backfill);
+  return vectors;
+}
+
+/**
+ * The nodes most similar to `query`, best first.
+ */
+export async function searchNodes(
+  mindmap: StoredMindmap,
+  query: string,
+  limit: number = DEFAULT_SEARCH_LIMIT
+): Promise<SearchResult[]> {
+  const [queryVector] = await getEmbedder().embed([query]);
+  const vectors = await getNodeVectors(mindmap);
+
+  return mindmap.nodes
+    .map((node) => ({
+      id: node.id,
+      content: node.content,
+      snippet: truncateWords(node.response, 30),
+      score: cosineSimilarity(queryVector, vectors.get(node.id) || []),
+    }))
+    .filter((result) => result.score > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, Math.min(Math.max(1, limit), MAX_SEARCH_LIMIT));
+}
@@ -0,0 +1,88 @@
+/**
+ * Server-Sent Events helpers
+ *
+ * Used by streaming API routes (server) and the components that consume
+ * them (client). The client reads the stream through fetch() rather than
+ * EventSource, because EventSource cannot POST a JSON body.
+ *
+ * Wire format (one frame per event):
+ *   event: <name>\n
+ *   data: <JSON>\n
+ *   \n
+ */
+
+/* ============================================================
+   TYPES
+============================================================ */
+
+export interface SSEMessage {
+  event: string;
+  data: unknown;
+}
+
+/* ============================================================
+   SERVER
+============================================================ */
+
+const encoder = new TextEncoder();
+
+/**
+ * Encode a single event frame.
+ */
+export function encodeSSE(event: string, data: unknown): Uint8Array {
+  return encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+}
+
+export const SSE_HEADERS = {
+  'Content-Type': 'text/event-stream; charset=utf-8',
+  'Cache-Control': 'no-cache, no-transform',
+  Connection: 'keep-alive',
+};
+
+/* ============================================================
+   CLIENT
+============================================================ */
+
+function parseFrame(frame: string): SSEMessage | null {
+  let event = 'message';
+  const dataLines: string[] = [];
+
+  for (const line of frame.split('\n')) {
+    if (line.startsWith('event:')) event = line.slice(6).trim();
+    else if (line.startsWith('data:')) dataLines.push(line.slice(5).trimStart());
+  }
+
+  if (dataLines.length === 0) return null;
+  return { event, data: JSON.parse(dataLines.join('\n')) };
+}
+
+/**
+ * Read an SSE response body, calling onMessage for every complete event.
+ * Resolves when the server closes the stream.
+ */
+export async function readSSE(
+  response: Response,
+  onMessage: (message: SSEMessage) => void
+): Promise<void> {
+  if (!response.body) throw new Error('readSSE: response has no body');
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  while (true) {
+    const { value, done } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+
+    // Frames are separated by a blank line
+    let boundary = buffer.indexOf('\n\n');
+    while (boundary !== -1) {
+      const message = parseFrame(buffer.slice(0, boundary));
+      buffer = buffer.slice(boundary + 2);
+      if (message) onMessage(message);
+      boundary = buffer.indexOf('\n\n');
+    }
+  }
+}
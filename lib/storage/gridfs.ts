@@ -0,0 +1,57 @@
+/**
+ * MongoDB GridFS storage (bucket "attachments").
+ *
+ * Keeps files in the same database as the mindmaps, so multi-instance
+ * deployments need no shared disk.
+ */
+
+import { GridFSBucket } from 'mongodb';
+import { getDb } from '../db';
+import { StorageAdapter } from './types';
+
+async function getBucket(): Promise<GridFSBucket> {
+  return new GridFSBucket(await getDb(), { bucketName: 'attachments' });
+}
+
+export function createGridFSStorage(): StorageAdapter {
+  const adapter: StorageAdapter = {
+    name: 'gridfs',
+
+    async put(key, data, contentType) {
+      await adapter.delete(key);
+      const bucket = await getBucket();
+
+      await new Promise<void>((resolve, reject) => {
+        bucket
+          .openUploadStream(key, { metadata: { contentType } })
+          .on('error', reject)
+          .on('finish', () => resolve())
+          .end(data);
+      });
+    },
+
+    async get(key) {
+      const bucket = await getBucket();
+      const [file] = await bucket.find({ filename: key }).limit(1).toArray();
+      if (!file) return null;
+
+      const chunks: Buffer[] = [];
+      for await (const chunk of bucket.openDownloadStream(file._id)) {
+        chunks.push(chunk as Buffer);
+      }
+
+      return {
+        data: Buffer.concat(chunks),
+        contentType: (file.metadata?.contentType as string) || 'application/octet-stream',
+      };
+    },
+
+    async delete(key) {
+      const bucket = await getBucket();
+      const files = await bucket.find({ filename: key }).toArray();
+      await Promise.all(files.map((file) => bucket.delete(file._id)));
+    },
+  };
+
+  return adapter;
+}
@@ -0,0 +1,29 @@
+/**
+ * Storage Facade — picks the adapter from ATTACHMENT_STORAGE:
+ *   "local"   → local disk (default, see ./local.ts)
+ *   "gridfs"  → MongoDB GridFS
+ */
+
+import { createLocalStorage } from './local';
+import { createGridFSStorage } from './gridfs';
+import { StorageAdapter } from './types';
+
+export type { StorageAdapter, StoredFile } from './types';
+
+const STORAGE_FACTORIES: Record<string, () => StorageAdapter> = {
+  local: createLocalStorage,
+  gridfs: createGridFSStorage,
+};
+
+let storage: StorageAdapter | null = null;
+
+export function getStorage(): StorageAdapter {
+  if (storage) return storage;
+
+  const name = process.env.ATTACHMENT_STORAGE || 'local';
+  const factory = STORAGE_FACTORIES[name];
+  if (!factory) throw new Error(`Unknown attachment storage "${name}"`);
+
+  storage = factory();
+  return storage;
+}
@@ -0,0 +1,60 @@
+/**
+ * Local disk storage.
+ *
+ * Files live under ATTACHMENT_STORAGE_DIR (default ./.data/attachments),
+ * with the content type in a sidecar `<key>.type` file. Suited to
+ * development and single-server deployments.
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { StorageAdapter } from './types';
+
+function getRoot(): string {
+  return path.resolve(process.env.ATTACHMENT_STORAGE_DIR || '.data/attachments');
+}
+
+/**
+ * Keys are generated server-side, but never let one escape the root.
+ */
+function resolveKey(key: string): string {
+  const root = getRoot();
+  const filePath = path.resolve(root, key);
+  if (!filePath.startsWith(root + path.sep)) {
+    throw new Error(`Invalid storage key "${key}"`);
+  }
+  return filePath;
+}
+
+export function createLocalStorage(): StorageAdapter {
+  return {
+    name: 'local',
+
+    async put(key, data, contentType) {
+      const filePath = resolveKey(key);
+      await fs.mkdir(path.dirname(filePath), { recursive: true });
+      await fs.writeFile(filePath, data);
+      await fs.writeFile(`${filePath}.type`, contentType);
+    },
+
+    async get(key) {
+      const filePath = resolveKey(key);
+      try {
+        const [data, contentType] = await Promise.all([
+          fs.readFile(filePath),
+          fs.readFile(`${filePath}.type`, 'utf8').catch(() => 'application/octet-stream'),
+        ]);
+        return { data, contentType };
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+        throw error;
+      }
+    },
+
+    async delete(key) {
+      const filePath = resolveKey(key);
+      await fs.rm(filePath, { force: true });
+      await fs.rm(`${filePath}.type`, { force: true });
+    },
+  };
+}
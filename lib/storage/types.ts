@@ -0,0 +1,25 @@
+/**
+ * File Storage Types
+ *
+ * Uploaded files (attachments) go through a StorageAdapter, so where the
+ * bytes live — local disk, MongoDB GridFS, or an object store later — is
+ * a configuration choice (ATTACHMENT_STORAGE) rather than a code change.
+ */
+
+export interface StoredFile {
+  data: Buffer;
+  contentType: string;
+}
+
+export interface StorageAdapter {
+  name: string;
+
+  /** Store bytes under `key` (overwrites). */
+  put(key: string, data: Buffer, contentType: string): Promise<void>;
+
+  /** Bytes stored under `key`, or null if there are none. */
+  get(key: string): Promise<StoredFile | null>;
+
+  /** Remove `key`; a missing key is not an error. */
+  delete(key: string): Promise<void>;
+}
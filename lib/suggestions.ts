@@ -0,0 +1,87 @@
+/**
+ * Follow-up Suggestions (server-side)
+ *
+ * After an answer is generated, the model is asked for a handful of
+ * likely follow-up questions. They are stored on the node as
+ * metadata.suggestions and rendered by the canvas as ghost children
+ * (see ghosts.ts) — they never become real nodes until clicked.
+ *
+ * Suggestions are best-effort: any failure yields [] and never fails
+ * the request that produced the answer.
+ *
+ * Set FOLLOW_UP_SUGGESTIONS=false to turn them off.
+ */
+
+import { generateResponse, parseJsonItems, CallOptions, ModelChoice } from './llm';
+
+const MIN_SUGGESTIONS = 3;
+const MAX_SUGGESTIONS = 5;
+
+// Long answers are clipped: the gist is enough to suggest follow-ups
+const MAX_ANSWER_CHARS = 4000;
+
+export function suggestionsEnabled(): boolean {
+  return process.env.FOLLOW_UP_SUGGESTIONS !== 'false';
+}
+
+function buildSuggestionPrompt(question: string, answer: string): string {
+  return [
+    `Suggest between ${MIN_SUGGESTIONS} and ${MAX_SUGGESTIONS} follow-up questions the user is likely to ask next about the exchange below.`,
+    'Each question must make sense on its own and be under 15 words.',
+    'Respond with JSON only, in the form {"items": ["question", ...]}.',
+    '',
+    `Question: ${question}`,
+    '',
+    `Answer: ${answer.slice(0, MAX_ANSWER_CHARS)}`,
+  ].join('\n');
+}
+
+/**
+ * Ask the model for follow-up questions to a question/answer pair.
+ * Unlike generateFollowUpSuggestions, this ignores FOLLOW_UP_SUGGESTIONS
+ * and lets errors propagate — for callers that need the questions.
+ */
+export async function suggestFollowUps(
+  choice: ModelChoice,
+  question: string,
+  answer: string,
+  options: Pick<CallOptions, 'onUsage' | 'signal'> = {}
+): Promise<string[]> {
+  const result = await generateResponse(
+    choice,
+    buildSuggestionPrompt(question, answer),
+    [],
+    { ...options, responseFormat: 'json' }
+  );
+
+  const seen = new Set<string>();
+  return parseJsonItems(result.text)
+    .filter((item): item is string => typeof item === 'string')
+    .map((item) => item.trim())
+    .filter((item) => {
+      const key = item.toLowerCase();
+      if (!item || seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    })
+    .slice(0, MAX_SUGGESTIONS);
+}
+
+/**
+ * Best-effort follow-up suggestions for a freshly generated answer.
+ */
+export async function generateFollowUpSuggestions(
+  choice: ModelChoice,
+  question: string,
+  answer: string,
+  options: Pick<CallOptions, 'onUsage' | 'signal'> = {}
+): Promise<string[]> {
+  if (!suggestionsEnabled() || !answer.trim()) return [];
+
+  try {
+    return await suggestFollowUps(choice, question, answer, options);
+  } catch (error) {
+    console.error('Follow-up suggestions error:', error);
+    return [];
+  }
+}
@@ -0,0 +1,105 @@
+/**
+ * Branch Summaries (server-side)
+ *
+ * Collects a node and all its descendants (getSubtree in graph.ts),
+ * turns their question/answer pairs into an indented transcript, and asks
+ * the model for a synthesis. The result is attached as a new child of
+ * the summarized node, marked with metadata.kind = 'summary'.
+ *
+ * Answers are clipped so a deep branch can't blow past the model's
+ * context window. Past the transcript cap, nodes keep only their
+ * (clipped) question — the structure of the branch — and once even
+ * those don't fit, the rest is counted in one "omitted" line.
+ */
+
+import { Graph, GraphNode, getSubtree, getNodeDepth } from './graph';
+import { generateResponse, CallOptions, LLMUsage, ModelChoice } from './llm';
+import { truncateWords } from './text';
+
+const MAX_ANSWER_CHARS = 1500;
+const MAX_QUESTION_CHARS = 300; // Questions of nodes whose answer is omitted
+const MAX_TRANSCRIPT_CHARS = 24000;
+
+/* ============================================================
+   PROMPT
+============================================================ */
+
+/**
+ * Indented Q/A transcript of a subtree (depth relative to its root).
+ */
+export function buildBranchTranscript(graph: Graph, nodes: GraphNode[]): string {
+  if (nodes.length === 0) return '';
+
+  const baseDepth = getNodeDepth(graph, nodes[0].id);
+  const sections: string[] = [];
+  let length = 0;
+
+  for (const [i, node] of nodes.entries()) {
+    const indent = '  '.repeat(getNodeDepth(graph, node.id) - baseDepth);
+    const answer =
+      node.response.length > MAX_ANSWER_CHARS
+        ? node.response.slice(0, MAX_ANSWER_CHARS) + '…'
+        : node.response;
+
+    let section = `${indent}Q: ${node.content}\n${indent}A: ${answer.replace(/\n/g, `\n${indent}   `)}`;
+    if (length + section.length > MAX_TRANSCRIPT_CHARS) {
+      const question =
+        node.content.length > MAX_QUESTION_CHARS
+          ? node.content.slice(0, MAX_QUESTION_CHARS) + '…'
+          : node.content;
+      section = `${indent}Q: ${question}\n${indent}A: (omitted for length)`;
+    }
+    if (length + section.length > MAX_TRANSCRIPT_CHARS) {
+      sections.push(`(${nodes.length - i} more node(s) omitted for length)`);
+      break;
+    }
+
+    sections.push(section);
+    length += section.length;
+  }
+
+  return sections.join('\n\n');
+}
+
+function buildSummaryPrompt(transcript: string, count: number): string {
+  return [
+    `Below is a branch of a mind map: ${count} question/answer pair(s), indented by depth (a follow-up is indented under the question it branched from).`,
+    'Write a synthesis of the whole branch in markdown: the key conclusions, how the follow-ups refined or changed them, and any open questions.',
+    'Do not summarize each pair in turn; integrate them.',
+    '',
+    transcript,
+  ].join('\n');
+}
+
+/* ============================================================
+   SUMMARIZE
+============================================================ */
+
+/**
+ * Summarize the subtree rooted at nodeId.
+ * Returns null if the node does not exist.
+ */
+export async function summarizeBranch(
+  choice: ModelChoice,
+  graph: Graph,
+  nodeId: string,
+  options: CallOptions = {}
+): Promise<{ query: string; response: string; nodeCount: number; usage: LLMUsage } | null> {
+  const subtree = getSubtree(graph, nodeId);
+  if (subtree.length === 0) return null;
+
+  const transcript = buildBranchTranscript(graph, subtree);
+  const result = await generateResponse(
+    choice,
+    buildSummaryPrompt(transcript, subtree.length),
+    [],
+    options
+  );
+
+  return {
+    query: `Summary: ${truncateWords(subtree[0].content, 12)}`,
+    response: result.text,
+    nodeCount: subtree.length,
+    usage: result.usage,
+  };
+}
@@ -0,0 +1,104 @@
+/**
+ * Prompt Templates — server-side data access
+ *
+ * Stored in the `prompt_templates` collection, one document per
+ * template, scoped by userId. Templates belong to the user, not to a
+ * mindmap, so they are available in every map.
+ */
+
+import { getDb } from './db';
+import { PromptTemplate } from './promptTemplates';
+
+interface StoredTemplate {
+  id: string;
+  userId: string;
+  name: string;
+  body: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export function generateTemplateId(): string {
+  return `tpl-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+}
+
+function toPromptTemplate(template: StoredTemplate): PromptTemplate {
+  return {
+    id: template.id,
+    name: template.name,
+    body: template.body,
+    createdAt: new Date(template.createdAt).toISOString(),
+    updatedAt: new Date(template.updatedAt).toISOString(),
+  };
+}
+
+/* ============================================================
+   READ
+============================================================ */
+
+/**
+ * The user's templates, alphabetically by name.
+ */
+export async function listTemplates(userId: string): Promise<PromptTemplate[]> {
+  const db = await getDb();
+  const templates = await db
+    .collection('prompt_templates')
+    .find({ userId }, { projection: { _id: 0 } })
+    .sort({ name: 1 })
+    .toArray();
+  return (templates as unknown as StoredTemplate[]).map(toPromptTemplate);
+}
+
+export async function countTemplates(userId: string): Promise<number> {
+  const db = await getDb();
+  return db.collection('prompt_templates').countDocuments({ userId });
+}
+
+/* ============================================================
+   WRITE
+============================================================ */
+
+export async function createTemplate(
+  userId: string,
+  input: { name: string; body: string }
+): Promise<PromptTemplate> {
+  const now = new Date();
+  const template: StoredTemplate = {
+    id: generateTemplateId(),
+    userId,
+    name: input.name.trim(),
+    body: input.body,
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  const db = await getDb();
+  await db.collection('prompt_templates').insertOne({ ...template });
+  return toPromptTemplate(template);
+}
+
+/**
+ * Returns null if the user has no template with that id.
+ */
+export async function updateTemplate(
+  userId: string,
+  id: string,
+  input: { name: string; body: string }
+): Promise<PromptTemplate | null> {
+  const db = await getDb();
+  const result = await db.collection('prompt_templates').findOneAndUpdate(
+    { id, userId },
+    { $set: { name: input.name.trim(), body: input.body, updatedAt: new Date() } },
+    { returnDocument: 'after', projection: { _id: 0 } }
+  );
+  return result ? toPromptTemplate(result as unknown as StoredTemplate) : null;
+}
+
+/**
+ * Returns false if the user has no template with that id.
+ */
+export async function deleteTemplate(userId: string, id: string): Promise<boolean> {
+  const db = await getDb();
+  const result = await db.collection('prompt_templates').deleteOne({ id, userId });
+  return result.deletedCount > 0;
+}
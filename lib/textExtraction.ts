@@ -0,0 +1,46 @@
+/**
+ * Text Extraction (server-side)
+ *
+ * Turns an uploaded file into the plain text that goes into prompts.
+ * Text-like files are decoded as UTF-8; PDFs go through unpdf (pdf.js).
+ *
+ * The extension was already checked (attachments.ts), so this also
+ * checks the content: a PDF must start with the PDF signature and a
+ * text file must not contain NUL bytes (i.e. must not be binary).
+ */
+
+import { AttachmentKind, MAX_EXTRACTED_CHARS } from './attachments';
+
+function isPdf(data: Buffer): boolean {
+  return data.subarray(0, 5).toString('latin1') === '%PDF-';
+}
+
+function decodeText(data: Buffer): string | null {
+  if (data.includes(0)) return null;
+  // Strip a UTF-8 BOM if present
+  return data.toString('utf8').replace(/^\uFEFF/, '');
+}
+
+async function extractPdfText(data: Buffer): Promise<string | null> {
+  if (!isPdf(data)) return null;
+
+  const { getDocumentProxy, extractText } = await import('unpdf');
+  try {
+    const pdf = await getDocumentProxy(new Uint8Array(data));
+    const { text } = await extractText(pdf, { mergePages: true });
+    return text;
+  } catch (error) {
+    // Corrupt or encrypted PDF
+    console.error('PDF extraction error:', error);
+    return null;
+  }
+}
+
+/**
+ * Plain text of an uploaded file, capped at MAX_EXTRACTED_CHARS.
+ * Returns null if the content doesn't match its kind.
+ */
+export async function extractText(kind: AttachmentKind, data: Buffer): Promise<string | null> {
+  const text = kind === 'pdf' ? await extractPdfText(data) : decodeText(data);
+  return text === null ? null : text.trim().slice(0, MAX_EXTRACTED_CHARS);
+}
@@ -0,0 +1,88 @@
+/**
+ * Token Usage — shared types and formatting
+ *
+ * Every model call is measured by the LLM facade (LLMUsage in lib/llm).
+ * The call that produced a node's answer is stored on the node as
+ * metadata.usage (NodeUsage); every call, including auxiliary ones
+ * (follow-up suggestions, subtopic lists), is also added to daily
+ * roll-ups per user and mindmap (usageRepository.ts), which the usage
+ * dashboard (/usage) reads through /api/usage.
+ *
+ * Client-safe: no I/O, no env.
+ */
+
+/* ============================================================
+   TYPES
+============================================================ */
+
+/**
+ * Usage of the call that produced a node's answer (metadata.usage).
+ */
+export interface NodeUsage {
+  promptTokens: number;
+  completionTokens: number;
+  latencyMs: number;
+  estimated: boolean; // Token counts estimated, not reported by the provider
+  costUsd: number | null; // null when the model has no known price
+  cached?: boolean; // Answered from the response cache (lib/responseCache)
+}
+
+export interface UsageTotals {
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  costUsd: number;
+  latencyMs: number; // Sum; divide by calls for the average
+  estimatedCalls: number;
+}
+
+export interface UsageReport {
+  days: number;
+  totals: UsageTotals;
+  byDay: Array<UsageTotals & { day: string }>; // Oldest first, every day in range
+  byMindmap: Array<UsageTotals & { mindmapId: string }>; // Most expensive first
+  byModel: Array<UsageTotals & { provider: string; model: string }>;
+}
+
+export const DEFAULT_USAGE_DAYS = 30;
+export const MAX_USAGE_DAYS = 365;
+
+/* ============================================================
+   HELPERS
+============================================================ */
+
+export function emptyTotals(): UsageTotals {
+  return {
+    calls: 0,
+    promptTokens: 0,
+    completionTokens: 0,
+    costUsd: 0,
+    latencyMs: 0,
+    estimatedCalls: 0,
+  };
+}
+
+/**
+ * The node's usage (metadata.usage), or null for nodes without one.
+ */
+export function getNodeUsage(metadata?: Record<string, unknown>): NodeUsage | null {
+  const usage = metadata?.usage;
+  return usage && typeof usage === 'object' ? (usage as NodeUsage) : null;
+}
+
+export function formatTokens(tokens: number): string {
+  if (tokens < 1000) return String(tokens);
+  if (tokens < 1_000_000) return `${(tokens / 1000).toFixed(1)}k`;
+  return `${(tokens / 1_000_000).toFixed(2)}M`;
+}
+
+export function formatCost(costUsd: number | null): string {
+  if (costUsd === null) return '—';
+  if (costUsd === 0) return '$0';
+  if (costUsd < 0.01) return `$${costUsd.toFixed(4)}`;
+  return `$${costUsd.toFixed(2)}`;
+}
+
+export function formatLatency(latencyMs: number): string {
+  return latencyMs < 1000 ? `${Math.round(latencyMs)} ms` : `${(latencyMs / 1000).toFixed(1)} s`;
+}
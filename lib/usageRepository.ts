@@ -0,0 +1,155 @@
+/**
+ * Token Usage — server-side accounting
+ *
+ * Usage is rolled up as it happens into the `usage_daily` collection:
+ * one document per (user, mindmap, UTC day, provider, model), updated
+ * with $inc. Reports (per user, per map, per day) aggregate those
+ * buckets, so they stay cheap however many calls were made.
+ *
+ * Routes get an `onUsage` callback for the facade from usageRecorder()
+ * and pass it down with the other generation options.
+ */
+
+import { getDb } from './db';
+import type { LLMUsage } from './llm';
+import { getCostUsd } from './pricing';
+import { recordQuotaTokens } from './rateLimit';
+import { UsageReport, UsageTotals, emptyTotals } from './usage';
+
+interface UsageBucket extends UsageTotals {
+  userId: string;
+  mindmapId: string;
+  day: string; // YYYY-MM-DD (UTC)
+  provider: string;
+  model: string;
+}
+
+function toDay(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+/* ============================================================
+   WRITE
+============================================================ */
+
+export async function recordUsage(
+  userId: string,
+  mindmapId: string,
+  usage: LLMUsage
+): Promise<void> {
+  const db = await getDb();
+
+  await db.collection('usage_daily').updateOne(
+    {
+      userId,
+      mindmapId,
+      day: toDay(new Date()),
+      provider: usage.provider,
+      model: usage.model,
+    },
+    {
+      $inc: {
+        calls: 1,
+        promptTokens: usage.promptTokens,
+        completionTokens: usage.completionTokens,
+        costUsd: getCostUsd(usage) ?? 0,
+        latencyMs: usage.latencyMs,
+        estimatedCalls: usage.estimated ? 1 : 0,
+      },
+    },
+    { upsert: true }
+  );
+}
+
+/**
+ * An `onUsage` callback that records every call against a mindmap and
+ * counts its tokens against the user's daily quota (lib/rateLimit).
+ * Accounting is best-effort: a failed write is logged, never thrown
+ * into the generation that triggered it. Cache hits used no tokens and
+ * aren't recorded.
+ */
+export function usageRecorder(
+  userId: string,
+  mindmapId: string
+): (usage: LLMUsage) => void {
+  return (usage) => {
+    if (usage.cached) return;
+    recordUsage(userId, mindmapId, usage).catch((error) => {
+      console.error('Record usage error:', error);
+    });
+    recordQuotaTokens(userId, usage.promptTokens + usage.completionTokens).catch((error) => {
+      console.error('Record quota error:', error);
+    });
+  };
+}
+
+/* ============================================================
+   REPORT
+============================================================ */
+
+function addTotals(target: UsageTotals, bucket: UsageTotals): void {
+  target.calls += bucket.calls;
+  target.promptTokens += bucket.promptTokens;
+  target.completionTokens += bucket.completionTokens;
+  target.costUsd += bucket.costUsd;
+  target.latencyMs += bucket.latencyMs;
+  target.estimatedCalls += bucket.estimatedCalls;
+}
+
+/**
+ * The user's usage over the last `days` days (today included).
+ * Optionally restricted to one mindmap.
+ */
+export async function getUsageReport(
+  userId: string,
+  days: number,
+  mindmapId?: string
+): Promise<UsageReport> {
+  const today = new Date();
+  const dayList: string[] = [];
+  for (let i = days - 1; i >= 0; i--) {
+    dayList.push(toDay(new Date(today.getTime() - i * 24 * 60 * 60 * 1000)));
+  }
+
+  const db = await getDb();
+  const buckets = (await db
+    .collection('usage_daily')
+    .find(
+      { userId, day: { $gte: dayList[0] }, ...(mindmapId ? { mindmapId } : {}) },
+      { projection: { _id: 0 } }
+    )
+    .toArray()) as unknown as UsageBucket[];
+
+  const totals = emptyTotals();
+  const byDay = new Map(dayList.map((day) => [day, { ...emptyTotals(), day }]));
+  const byMindmap = new Map<string, UsageTotals & { mindmapId: string }>();
+  const byModel = new Map<string, UsageTotals & { provider: string; model: string }>();
+
+  for (const bucket of buckets) {
+    addTotals(totals, bucket);
+
+    const day = byDay.get(bucket.day);
+    if (day) addTotals(day, bucket);
+
+    const map = byMindmap.get(bucket.mindmapId) || { ...emptyTotals(), mindmapId: bucket.mindmapId };
+    addTotals(map, bucket);
+    byMindmap.set(bucket.mindmapId, map);
+
+    const modelKey = `${bucket.provider}:${bucket.model}`;
+    const model =
+      byModel.get(modelKey) || { ...emptyTotals(), provider: bucket.provider, model: bucket.model };
+    addTotals(model, bucket);
+    byModel.set(modelKey, model);
+  }
+
+  const byCost = (a: UsageTotals, b: UsageTotals) =>
+    b.costUsd - a.costUsd || b.promptTokens + b.completionTokens - (a.promptTokens + a.completionTokens);
+
+  return {
+    days,
+    totals,
+    byDay: Array.from(byDay.values()),
+    byMindmap: Array.from(byMindmap.values()).sort(byCost),
+    byModel: Array.from(byModel.values()).sort(byCost),
+  };
+}
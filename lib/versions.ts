@@ -0,0 +1,140 @@
+/**
+ * Answer Versions
+ *
+ * A node can be regenerated without branching. Every generated answer is
+ * kept in metadata.versions, and metadata.activeVersionId says which one
+ * is current. The active version is always mirrored into `response`
+ * (and metadata.provider / metadata.model / metadata.usage), so everything that reads a
+ * node — rendering, history, exports — keeps working unchanged.
+ * Each version also keeps its answer's moderation verdict, which
+ * replaces the output findings of metadata.moderation when it becomes
+ * active (see lib/moderation/verdict.ts).
+ *
+ * Nodes created before versioning have no metadata.versions; their
+ * current response is treated as version 1 the first time they are
+ * regenerated.
+ *
+ * Pure functions only: works on stored nodes and GraphNodes alike.
+ */
+
+import type { NodeUsage } from './usage';
+import type { ModerationVerdict } from './moderation/types';
+import { getNodeModeration, stageVerdict, withAnswerModeration } from './moderation/verdict';
+
+/* ============================================================
+   TYPES
+============================================================ */
+
+export interface NodeVersion {
+  id: string;
+  response: string;
+  provider?: string;
+  model?: string;
+  usage?: NodeUsage; // Tokens, latency and cost of generating this answer
+  moderation?: ModerationVerdict; // Findings on this answer, if any
+  createdAt: string; // ISO 8601
+}
+
+/**
+ * The subset of a node that versioning reads and writes.
+ */
+export interface VersionedNode {
+  response: string;
+  createdAt: Date | string;
+  metadata?: Record<string, unknown>;
+}
+
+export type VersionUpdate = Pick<VersionedNode, 'response' | 'metadata'>;
+
+/* ============================================================
+   READ
+============================================================ */
+
+export function generateVersionId(): string {
+  return `v-${Date.now()}-${Math.random().toString(36).substr(2, 6)}`;
+}
+
+/**
+ * All versions of a node, oldest first.
+ * Unversioned nodes yield a single implicit version for their response.
+ */
+export function getVersions(node: VersionedNode): NodeVersion[] {
+  const stored = node.metadata?.versions;
+  if (Array.isArray(stored) && stored.length > 0) {
+    return stored as NodeVersion[];
+  }
+
+  return [
+    {
+      id: 'v-initial',
+      response: node.response,
+      provider: node.metadata?.provider as string | undefined,
+      model: node.metadata?.model as string | undefined,
+      usage: node.metadata?.usage as NodeUsage | undefined,
+      moderation: stageVerdict(getNodeModeration(node.metadata), 'output'),
+      createdAt: new Date(node.createdAt).toISOString(),
+    },
+  ];
+}
+
+export function getActiveVersionId(node: VersionedNode): string {
+  const versions = getVersions(node);
+  const active = node.metadata?.activeVersionId as string | undefined;
+  return active && versions.some((v) => v.id === active)
+    ? active
+    : versions[versions.length - 1].id;
+}
+
+/* ============================================================
+   WRITE (return the fields to update — never mutate)
+============================================================ */
+
+function activate(
+  node: VersionedNode,
+  versions: NodeVersion[],
+  version: NodeVersion
+): VersionUpdate {
+  // Generation status (e.g. 'cancelled') described the previous answer
+  const metadata = { ...node.metadata };
+  delete metadata.status;
+
+  const moderation = withAnswerModeration(getNodeModeration(node.metadata), version.moderation);
+  if (moderation) metadata.moderation = moderation;
+  else delete metadata.moderation;
+
+  return {
+    response: version.response,
+    metadata: {
+      ...metadata,
+      versions,
+      activeVersionId: version.id,
+      provider: version.provider,
+      model: version.model,
+      usage: version.usage,
+    },
+  };
+}
+
+/**
+ * Append a freshly generated answer and make it the active version.
+ */
+export function addVersion(
+  node: VersionedNode,
+  version: NodeVersion
+): VersionUpdate {
+  const versions = [...getVersions(node), version];
+  return activate(node, versions, version);
+}
+
+/**
+ * Switch the active version. Returns null if the id is unknown.
+ */
+export function setActiveVersion(
+  node: VersionedNode,
+  versionId: string
+): VersionUpdate | null {
+  const versions = getVersions(node);
+  const version = versions.find((v) => v.id === versionId);
+  if (!version) return null;
+  return activate(node, versions, version);
+}
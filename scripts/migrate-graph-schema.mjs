@@ -0,0 +1,164 @@
+/**
+ * Graph Schema Migration — rewrite stored mindmaps in the GraphNode shape
+ *
+ * Brings every document in the `mindmaps` collection to the node and
+ * edge shapes of lib/graph.ts (see lib/mindmapRepository.ts):
+ *   - node `query` → `content`; the old chain layout's `position` and
+ *     `chainId` are dropped
+ *   - createdAt becomes an ISO 8601 string
+ *   - duplicate node ids keep their first node; a parentId pointing at a
+ *     missing node, or closing a cycle, is cleared (the node becomes a root)
+ *   - edges are rebuilt from parentId with `${source}->${target}` ids
+ *   - related-link decisions about missing nodes are dropped
+ *
+ * Only maps that still keep their nodes in the document are looked at;
+ * the app moves those to the `nodes` collection, already in this shape,
+ * the first time it reads them (see lib/mindmapRepository.ts).
+ *
+ * Idempotent: documents already in this shape are not written, so it is
+ * safe to run again, or against a partly migrated database. updatedAt is
+ * left alone, so the map picker's order doesn't change.
+ *
+ * Usage:
+ *   MONGODB_URI=... npm run migrate:graph              migrate
+ *   MONGODB_URI=... npm run migrate:graph -- --dry-run report only
+ */
+
+import { MongoClient } from 'mongodb';
+
+/* ============================================================
+   NODES
+============================================================ */
+
+function toIsoString(value) {
+  const date = new Date(value ?? 0);
+  return (Number.isNaN(date.getTime()) ? new Date(0) : date).toISOString();
+}
+
+function toCanonicalNode(raw) {
+  const node = {
+    id: String(raw.id),
+    parentId: typeof raw.parentId === 'string' && raw.parentId ? raw.parentId : null,
+    content: String(raw.content ?? raw.query ?? ''),
+    response: String(raw.response ?? ''),
+    createdAt: toIsoString(raw.createdAt),
+  };
+
+  if (raw.metadata && typeof raw.metadata === 'object') node.metadata = raw.metadata;
+  if (raw.embedding) node.embedding = raw.embedding;
+  return node;
+}
+
+/**
+ * Canonical nodes of a document: unique ids, every parent present and
+ * no cycles. Mutates only the nodes it creates.
+ */
+function toCanonicalNodes(rawNodes) {
+  const byId = new Map();
+  for (const raw of rawNodes) {
+    if (!raw || raw.id === undefined || raw.id === null || byId.has(String(raw.id))) continue;
+    byId.set(String(raw.id), toCanonicalNode(raw));
+  }
+
+  for (const node of byId.values()) {
+    if (node.parentId !== null && !byId.has(node.parentId)) node.parentId = null;
+  }
+
+  // Walk up from every node; coming back to a node means a cycle, cut there
+  for (const node of byId.values()) {
+    const seen = new Set();
+    let current = node;
+    while (current.parentId !== null) {
+      if (seen.has(current.id)) {
+        current.parentId = null;
+        break;
+      }
+      seen.add(current.id);
+      current = byId.get(current.parentId);
+    }
+  }
+
+  return Array.from(byId.values());
+}
+
+function toTreeEdges(nodes) {
+  return nodes
+    .filter((node) => node.parentId !== null)
+    .map((node) => ({
+      id: `${node.parentId}->${node.id}`,
+      source: node.parentId,
+      target: node.id,
+    }));
+}
+
+/* ============================================================
+   DOCUMENTS
+============================================================ */
+
+// Embeddings are copied as they are; comparing them would only cost time
+function sameJson(a, b) {
+  const skipEmbedding = (key, value) => (key === 'embedding' ? undefined : value);
+  return JSON.stringify(a, skipEmbedding) === JSON.stringify(b, skipEmbedding);
+}
+
+/**
+ * The fields to $set on a mindmap document, or null if it is already
+ * canonical.
+ */
+function migrateDocument(doc) {
+  const nodes = toCanonicalNodes(doc.nodes || []);
+  const edges = toTreeEdges(nodes);
+  const ids = new Set(nodes.map((node) => node.id));
+  const relatedLinks = (doc.relatedLinks || []).filter(
+    (link) => ids.has(link.source) && ids.has(link.target)
+  );
+
+  const unchanged =
+    sameJson(nodes, doc.nodes || []) &&
+    sameJson(edges, doc.edges || []) &&
+    relatedLinks.length === (doc.relatedLinks || []).length;
+
+  return unchanged ? null : { nodes, edges, relatedLinks };
+}
+
+/* ============================================================
+   MAIN
+============================================================ */
+
+async function main() {
+  const uri = process.env.MONGODB_URI;
+  if (!uri) throw new Error('Set MONGODB_URI to the database to migrate');
+
+  const dryRun = process.argv.includes('--dry-run');
+  const client = new MongoClient(uri);
+  await client.connect();
+
+  try {
+    const mindmaps = client.db('mindmap').collection('mindmaps');
+    let scanned = 0;
+    let migrated = 0;
+
+    for await (const doc of mindmaps.find({ nodes: { $exists: true } })) {
+      scanned++;
+      const changes = migrateDocument(doc);
+      if (!changes) continue;
+
+      migrated++;
+      console.log(
+        `${dryRun ? '[dry run] ' : ''}${doc._id}: ${changes.nodes.length} nodes, ${changes.edges.length} edges`
+      );
+      if (!dryRun) await mindmaps.updateOne({ _id: doc._id }, { $set: changes });
+    }
+
+    console.log(
+      `${scanned} mindmaps scanned, ${migrated} ${dryRun ? 'would be migrated' : 'migrated'}`
+    );
+  } finally {
+    await client.close();
+  }
+}
+
+main().catch((error) => {
+  console.error('Migration failed:', error);
+  process.exit(1);
+});
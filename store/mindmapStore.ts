@@ -17,6 +17,16 @@
  *   4. Canvas reads graph + layout, converts to React Flow elements
  *   5. Viewport filter determines what actually renders
  *
+ * Ghost nodes (suggested follow-ups, see lib/ghosts.ts) are included in
+ * the LAYOUT when ui.showGhosts is on, but never in the graph itself.
+ *
+ * Related edges (cross-links between similar nodes) live in the graph
+ * but never affect layout, so their mutations skip the recompute.
+ *
+ * mindmapId is the map on screen (a user can have several). Every API
+ * call that reads or writes nodes sends it; switching maps is
+ * setMindmapId() followed by hydrate() with the new map's nodes.
+ *
  * Why layout lives in the store (not derived on render):
  *   - computeLayout is O(V+E) — too expensive to run every render
  *   - It only needs to run when the GRAPH changes, not on every UI update
@@ -31,10 +41,15 @@ import { create } from 'zustand';
 import {
   Graph,
   GraphNode,
+  GraphEdge,
   createGraph,
   addNode as graphAddNode,
+  addNodes as graphAddNodes,
   removeNode as graphRemoveNode,
   updateNode as graphUpdateNode,
+  moveNode as graphMoveNode,
+  setRelatedEdges as graphSetRelatedEdges,
+  updateRelatedEdge as graphUpdateRelatedEdge,
   getChildren,
   getRootNodes,
   isValidTree,
@@ -45,6 +60,7 @@ import {
   DEFAULT_LAYOUT_CONFIG,
   computeLayout,
 } from '../lib/layout';
+import { withGhostNodes } from '../lib/ghosts';
 
 /* ============================================================
    TYPES
@@ -55,10 +71,13 @@ interface UIState {
   expandedNodeId: string | null;
   isLoading: boolean;
   error: string | null;
+  showGhosts: boolean; // Render suggested follow-ups as ghost children
+  showRelated: boolean; // Render related (cross-thread) links
 }
 
 interface MindmapStoreState {
   // --- Core data ---
+  mindmapId: string | null; // Null until the first load returns
   graph: Graph;
   layout: Layout;
   layoutConfig: LayoutConfig;
@@ -68,11 +87,18 @@ interface MindmapStoreState {
 
   // --- Graph mutations ---
   addNode: (node: GraphNode) => void;
+  addNodes: (nodes: GraphNode[]) => void;
   removeNode: (nodeId: string) => void;
   updateNode: (nodeId: string, updates: Partial<GraphNode>) => void;
+  moveNode: (nodeId: string, parentId: string | null) => void;
+
+  // --- Related edges (no relayout) ---
+  setRelatedEdges: (edges: GraphEdge[]) => void;
+  updateRelatedEdge: (edgeId: string, updates: Pick<GraphEdge, 'status'> | null) => void;
 
   // --- Bulk load (on page load / API response) ---
   hydrate: (nodes: GraphNode[]) => void;
+  setMindmapId: (mindmapId: string) => void;
 
   // --- Layout ---
   recomputeLayout: () => void;
@@ -84,6 +110,8 @@ interface MindmapStoreState {
   expandNode: (nodeId: string | null) => void;
   setLoading: (loading: boolean) => void;
   setError: (error: string | null) => void;
+  toggleGhosts: () => void;
+  toggleRelated: () => void;
 
   // --- Queries ---
   getNodeChildren: (nodeId: string) => GraphNode[];
@@ -100,6 +128,7 @@ interface MindmapStoreState {
 
 function createInitialState() {
   return {
+    mindmapId: null as string | null,
     graph: createGraph(),
     layout: {
       nodes: new Map<string, any>(),
@@ -113,10 +142,32 @@ function createInitialState() {
       expandedNodeId: null,
       isLoading: false,
       error: null,
+      showGhosts: true,
+      showRelated: true,
     },
   };
 }
 
+/* ============================================================
+   HELPER: layout with optional ghosts
+============================================================ */
+
+function layoutFor(graph: Graph, config: LayoutConfig, showGhosts: boolean): Layout {
+  return computeLayout(showGhosts ? withGhostNodes(graph) : graph, config);
+}
+
+/**
+ * Whether a content update changes the set of ghost children.
+ * Ghosts derive from metadata.suggestions and are hidden while streaming.
+ */
+function affectsGhosts(before?: GraphNode, after?: GraphNode): boolean {
+  const suggestionsBefore = JSON.stringify(before?.metadata?.suggestions ?? null);
+  const suggestionsAfter = JSON.stringify(after?.metadata?.suggestions ?? null);
+  const streamingBefore = before?.metadata?.status === 'streaming';
+  const streamingAfter = after?.metadata?.status === 'streaming';
+  return suggestionsBefore !== suggestionsAfter || streamingBefore !== streamingAfter;
+}
+
 /* ============================================================
    STORE
 ============================================================ */
@@ -132,14 +183,25 @@ export const useMindmapStore = create<MindmapStoreState>((set, get) => ({
   addNode: (node: GraphNode) =>
     set((state) => {
       const updatedGraph = graphAddNode(state.graph, node);
-      const updatedLayout = computeLayout(updatedGraph, state.layoutConfig);
+      const updatedLayout = layoutFor(updatedGraph, state.layoutConfig, state.ui.showGhosts);
+      return { graph: updatedGraph, layout: updatedLayout };
+    }),
+
+  /**
+   * Batch insert (parents first) with a SINGLE layout recompute,
+   * instead of one per node as calling addNode N times would.
+   */
+  addNodes: (nodes: GraphNode[]) =>
+    set((state) => {
+      const updatedGraph = graphAddNodes(state.graph, nodes);
+      const updatedLayout = layoutFor(updatedGraph, state.layoutConfig, state.ui.showGhosts);
       return { graph: updatedGraph, layout: updatedLayout };
     }),
 
   removeNode: (nodeId: string) =>
     set((state) => {
       const updatedGraph = graphRemoveNode(state.graph, nodeId);
-      const updatedLayout = computeLayout(updatedGraph, state.layoutConfig);
+      const updatedLayout = layoutFor(updatedGraph, state.layoutConfig, state.ui.showGhosts);
 
       // Clear selection if the removed node was selected
       const ui =
@@ -154,19 +216,37 @@ export const useMindmapStore = create<MindmapStoreState>((set, get) => ({
     set((state) => {
       const updatedGraph = graphUpdateNode(state.graph, nodeId, updates);
 
-      // Only recompute layout if structure changed (parentId)
+      // Only recompute layout if structure changed (parentId, or the
+      // ghost children derived from this node when they are shown).
       // Content-only updates don't affect positions
       const structureChanged =
-        updates.parentId !== undefined &&
-        updates.parentId !== state.graph.nodes.get(nodeId)?.parentId;
+        (updates.parentId !== undefined &&
+          updates.parentId !== state.graph.nodes.get(nodeId)?.parentId) ||
+        (state.ui.showGhosts &&
+          affectsGhosts(state.graph.nodes.get(nodeId), updatedGraph.nodes.get(nodeId)));
 
       const updatedLayout = structureChanged
-        ? computeLayout(updatedGraph, state.layoutConfig)
+        ? layoutFor(updatedGraph, state.layoutConfig, state.ui.showGhosts)
         : state.layout;
 
       return { graph: updatedGraph, layout: updatedLayout };
     }),
 
+  /** Throws (like graph moveNode) if the move would create a cycle. */
+  moveNode: (nodeId: string, parentId: string | null) =>
+    set((state) => {
+      const updatedGraph = graphMoveNode(state.graph, nodeId, parentId);
+      const updatedLayout = layoutFor(updatedGraph, state.layoutConfig, state.ui.showGhosts);
+      return { graph: updatedGraph, layout: updatedLayout };
+    }),
+
+  setRelatedEdges: (edges: GraphEdge[]) =>
+    set((state) => ({ graph: graphSetRelatedEdges(state.graph, edges) })),
+
+  /** Pass null to remove the edge. */
+  updateRelatedEdge: (edgeId: string, updates: Pick<GraphEdge, 'status'> | null) =>
+    set((state) => ({ graph: graphUpdateRelatedEdge(state.graph, edgeId, updates) })),
+
   // ==========================================================
   // HYDRATION (bulk load from backend)
   // ==========================================================
@@ -189,7 +269,7 @@ export const useMindmapStore = create<MindmapStoreState>((set, get) => ({
         newGraph = graphAddNode(newGraph, node);
       }
 
-      const newLayout = computeLayout(newGraph, state.layoutConfig);
+      const newLayout = layoutFor(newGraph, state.layoutConfig, state.ui.showGhosts);
 
       return {
         graph: newGraph,
@@ -198,19 +278,29 @@ export const useMindmapStore = create<MindmapStoreState>((set, get) => ({
       };
     }),
 
+  /**
+   * Switch to another map. Selection and the open modal belong to the
+   * old map's nodes, so they are cleared; hydrate() replaces the graph.
+   */
+  setMindmapId: (mindmapId: string) =>
+    set((state) => ({
+      mindmapId,
+      ui: { ...state.ui, selectedNodeId: null, expandedNodeId: null },
+    })),
+
   // ==========================================================
   // LAYOUT CONTROL
   // ==========================================================
 
   recomputeLayout: () =>
     set((state) => ({
-      layout: computeLayout(state.graph, state.layoutConfig),
+      layout: layoutFor(state.graph, state.layoutConfig, state.ui.showGhosts),
     })),
 
   setLayoutConfig: (config: LayoutConfig) =>
     set((state) => ({
       layoutConfig: config,
-      layout: computeLayout(state.graph, config),
+      layout: layoutFor(state.graph, config, state.ui.showGhosts),
     })),
 
   // ==========================================================
@@ -232,6 +322,18 @@ export const useMindmapStore = create<MindmapStoreState>((set, get) => ({
   setError: (error: string | null) =>
     set((state) => ({ ui: { ...state.ui, error } })),
 
+  toggleGhosts: () =>
+    set((state) => {
+      const showGhosts = !state.ui.showGhosts;
+      return {
+        ui: { ...state.ui, showGhosts },
+        layout: layoutFor(state.graph, state.layoutConfig, showGhosts),
+      };
+    }),
+
+  toggleRelated: () =>
+    set((state) => ({ ui: { ...state.ui, showRelated: !state.ui.showRelated } })),
+
   // ==========================================================
   // QUERIES
   // ==========================================================